@@ -254,7 +254,9 @@ let run_instruction = function()
       r = (r & 0x80) | (((r & 0x7f) + 1) & 0x7f);
 
       // Read the byte at the PC and run the instruction it encodes.
-      var opcode = core.mem_read(pc);
+      // ZX81: The opcode fetch (M1) can be intercepted by the core,
+      //  e.g. by the ULA that forces a NOP on the data bus.
+      var opcode = (core.m1_read) ? core.m1_read(pc) : core.mem_read(pc);
       decode_instruction(opcode);
 
       // T.Busse, Dec-2020: Fix: A HALT does not increase the PC
@@ -3405,6 +3407,16 @@ let cycle_counts_dd = [
       get: () => {return sp;}
    });
 
+   // ZX81: R is used by the ULA as a counter for the maskable interrupt
+   // and I as pointer to the character set.
+   Object.defineProperty(this, "r", {
+      set: (value) => {r = value;},
+      get: () => {return r;}
+   });
+   Object.defineProperty(this, "i", {
+      get: () => {return i;}
+   });
+
    Object.defineProperty(this, "interruptsEnabled", {
       get: () => {return iff1 != 0;}
    });
@@ -0,0 +1,419 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81cli.ts
+ * Description:		Command line: assembles and runs a program in the simulator without vscode.
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import {Labels} from '../labels/labels';
+import {UnifiedPath} from '../misc/unifiedpath';
+import {Utility} from '../misc/utility';
+import {Zx81DisplayFile} from '../misc/zx81displayfile';
+import {Zx81Screenshot} from '../misc/zx81screenshot';
+import {Remote, RemoteBreakpoint} from '../remotes/remotebase';
+import {ZSimHeadless} from '../remotes/zsimulator/zsimheadless';
+import {ZSimRemote} from '../remotes/zsimulator/zsimremote';
+import {Zx81VsyncSound} from '../remotes/zsimulator/zx81vsyncsound';
+
+
+/**
+ * The options of the command line.
+ */
+export interface Zx81CliOptions {
+	// The source file (.asm) or the binary (.P). Optional with a configuration.
+	file?: string;
+	// A launch.json and the name of the configuration (the first one if undefined).
+	config?: string;
+	name?: string;
+	// Overrides zsim.machine.
+	machine?: string;
+	// Overrides zsim.rom.
+	rom?: string;
+	// Overrides zsim.memoryModel.
+	memoryModel?: string;
+	// Overrides zsim.region.
+	region?: string;
+	// Stops after this number of frames.
+	frames?: number;
+	// Stops at these addresses or labels.
+	until: Array<string>;
+	// The maximum duration in seconds.
+	timeout: number;
+	// Dumps the registers.
+	regs: boolean;
+	// Dumps these memory ranges (address and size, expressions or labels).
+	mem: Array<{address: string, size: string}>;
+	// Writes the display file: '-' (text to stdout), a .png or a text file.
+	screen?: string;
+	// Writes what has been printed (ZX Printer): '-' (text to stdout), a .png or a text file.
+	printer?: string;
+	// Writes the sound of the VSYNC/MIC line (.WAV file). Enables zsim.vsyncSound.
+	wav?: string;
+	// The size of a pixel in the PNG.
+	scale: number;
+	// Shows the usage.
+	help: boolean;
+}
+
+
+/**
+ * The command line:
+ *   node zx81cli.js main.asm --frames 100 --regs --mem D_FILE,33 --screen screen.png
+ * The program is assembled, loaded into the simulator and executed from 4082h like
+ * in a debug session, until:
+ * - the number of frames (--frames),
+ * - an address or label (--until),
+ * - the end of the program (return to FFFFh),
+ * - a break: ASSERTION, WPMEM, CPU error,
+ * - or the timeout.
+ * Then the registers, memory ranges, the display, what has been printed and the sound are written.
+ * The exit code is 0 if the execution stopped as expected, 1 otherwise and 2 for errors
+ * (arguments, compilation, files).
+ */
+export class Zx81Cli {
+	// The exit codes.
+	public static readonly EXIT_OK = 0;
+	public static readonly EXIT_FAILED = 1;
+	public static readonly EXIT_ERROR = 2;
+
+	// The usage.
+	protected static readonly USAGE = `Usage: zx81cli [file.asm|file.P] [options]
+Assembles and runs a ZX81 program in the simulator.
+Options:
+  --config <launch.json>    Uses a configuration of a launch.json (the zsim settings)
+  --name <name>             The name of the configuration (default: the first one)
+  --machine <machine>       ZX81, TS1000, TS1500 or LAMBDA8300
+  --rom <file>              Uses this ROM instead of the ROM of the machine
+  --memory-model <model>    1K, 2K, 16K, 32K or 56K
+  --region <region>         PAL (50 Hz) or NTSC (60 Hz)
+  --frames <n>              Stops after n frames (50 or 60 frames per second)
+  --until <address|label>   Stops at the address (can be repeated)
+  --timeout <seconds>       The maximum duration of the execution (default: 60)
+  --regs                    Writes the registers
+  --mem <address>[,<size>]  Writes a memory range (default size: 16, can be repeated)
+  --screen <-|file>         Writes the display: text ('-' for the output, .txt) or .png
+  --printer <-|file>        Writes what has been printed (ZX Printer): text ('-' for the output, .txt) or .png
+  --wav <file>              Writes the sound of the VSYNC/MIC line (.wav)
+  --scale <n>               The size of a pixel in the PNG (default: 1)
+  --help                    Shows this help
+Exit code: 0 stopped as expected, 1 failed (ASSERTION, WPMEM, timeout...), 2 error.`;
+
+
+	/**
+	 * Parses the arguments of the command line.
+	 * @param args The arguments (without node and the script).
+	 * @returns The options.
+	 * Throws an exception if an argument is wrong.
+	 */
+	public static parseArguments(args: Array<string>): Zx81CliOptions {
+		const options: Zx81CliOptions = {until: [], timeout: 60, regs: false, mem: [], scale: 1, help: false};
+		for (let i = 0; i < args.length; i++) {
+			const arg = args[i];
+			// The value of an option
+			const value = (): string => {
+				const value = args[++i];
+				if (value == undefined)
+					throw Error("Missing value for '" + arg + "'.");
+				return value;
+			};
+			// A positive number
+			const number = (): number => {
+				const text = value();
+				const n = Number(text);
+				if (!Number.isInteger(n) || n <= 0)
+					throw Error("'" + arg + "': '" + text + "' is not a positive number.");
+				return n;
+			};
+			switch (arg) {
+				case '--config': options.config = value(); break;
+				case '--name': options.name = value(); break;
+				case '--machine': options.machine = value(); break;
+				case '--rom': options.rom = value(); break;
+				case '--memory-model': options.memoryModel = value(); break;
+				case '--region': options.region = value(); break;
+				case '--frames': options.frames = number(); break;
+				case '--until': options.until.push(value()); break;
+				case '--timeout': options.timeout = number(); break;
+				case '--regs': options.regs = true; break;
+				case '--mem': {
+					const [address, size] = value().split(',');
+					options.mem.push({address, size: size ?? '16'});
+					break;
+				}
+				case '--screen': options.screen = value(); break;
+				case '--printer': options.printer = value(); break;
+				case '--wav': options.wav = value(); break;
+				case '--scale': options.scale = number(); break;
+				case '--help': options.help = true; break;
+				default:
+					if (arg.startsWith('-'))
+						throw Error("Unknown option '" + arg + "'.");
+					if (options.file)
+						throw Error("Only one file can be given ('" + arg + "').");
+					options.file = arg;
+					break;
+			}
+		}
+		if (!options.file && !options.config && !options.help)
+			throw Error("A source file, a binary or a configuration is required.");
+		return options;
+	}
+
+
+	/**
+	 * Returns the configuration (like in a launch.json).
+	 * @param options The options.
+	 * Throws an exception if the configuration does not exist.
+	 */
+	public static getConfiguration(options: Zx81CliOptions): any {
+		let configuration: any = {};
+		if (options.config) {
+			const launch = Utility.readLaunchJson(UnifiedPath.getUnifiedPath(path.resolve(options.config)));
+			const configurations = (launch.configurations ?? []).filter(c => c.type == 'zx81debugger');
+			configuration = options.name ? configurations.find(c => c.name == options.name) : configurations[0];
+			if (!configuration)
+				throw Error("No configuration" + (options.name ? " '" + options.name + "'" : "") + " in '" + options.config + "'.");
+		}
+		if (options.file) {
+			const file = UnifiedPath.getUnifiedPath(path.resolve(options.file));
+			configuration.rootFolder ??= UnifiedPath.dirname(file);
+			delete configuration.source;
+			delete configuration.binary;
+			delete configuration.sld;
+			if (path.extname(file).toUpperCase() == '.P')
+				configuration.binary = file;
+			else
+				configuration.source = file;
+		}
+		if (options.machine) {
+			configuration.zsim ??= {};
+			configuration.zsim.machine = options.machine;
+		}
+		if (options.rom) {
+			configuration.zsim ??= {};
+			configuration.zsim.rom = UnifiedPath.getUnifiedPath(path.resolve(options.rom));
+		}
+		if (options.memoryModel) {
+			configuration.zsim ??= {};
+			configuration.zsim.memoryModel = options.memoryModel;
+		}
+		if (options.region) {
+			configuration.zsim ??= {};
+			configuration.zsim.region = options.region;
+		}
+		if (options.wav) {
+			configuration.zsim ??= {};
+			configuration.zsim.vsyncSound = true;
+		}
+		return configuration;
+	}
+
+
+	/**
+	 * Runs the command line.
+	 * @param args The arguments (without node and the script).
+	 * @returns The exit code.
+	 */
+	public static async main(args: Array<string>): Promise<number> {
+		try {
+			const options = Zx81Cli.parseArguments(args);
+			if (options.help) {
+				console.log(Zx81Cli.USAGE);
+				return Zx81Cli.EXIT_OK;
+			}
+			Utility.setExtensionPath(Zx81Cli.findExtensionPath());
+			return await new Zx81Cli().run(options);
+		}
+		catch (e) {
+			console.error("Error: " + e.message);
+			return Zx81Cli.EXIT_ERROR;
+		}
+	}
+
+
+	/**
+	 * Returns the folder of the extension (with the ROM in data), searched from the folder of this file.
+	 */
+	protected static findExtensionPath(): string {
+		let folder = __dirname;
+		while (!fs.existsSync(path.join(folder, 'data', 'zx81.rom'))) {
+			const parent = path.dirname(folder);
+			if (parent == folder)
+				throw Error("The ROM of the ZX81 (data/zx81.rom) is not found.");
+			folder = parent;
+		}
+		return folder;
+	}
+
+
+	/**
+	 * Assembles, runs and writes the results.
+	 * @param options The options.
+	 * @returns The exit code.
+	 * Throws an exception in case of error (e.g. file not found).
+	 */
+	public async run(options: Zx81CliOptions): Promise<number> {
+		ZSimHeadless.initSettings(Zx81Cli.getConfiguration(options));
+		const headless = new ZSimHeadless();
+		headless.output = text => console.error(text);
+
+		// Assemble
+		const errors = await headless.compile();
+		if (errors.length > 0) {
+			for (const error of errors)
+				console.error(error.position.filename + ':' + error.position.pos.line + ':' + error.position.pos.offset + ': error: ' + error.message);
+			return Zx81Cli.EXIT_ERROR;
+		}
+
+		try {
+			// Load and start like a debug session
+			const zsim: ZSimRemote = await headless.start();
+			await Remote.setLaunchExecAddress();
+			await Remote.getRegistersFromEmulator();
+			const untilAddresses = options.until.map(until => Utility.evalExpression(until, false) & 0xFFFF);
+			for (const address of untilAddresses)
+				await Remote.setBreakpoint({bpId: 0, address, condition: '', lineNr: -1} as RemoteBreakpoint);
+			if (options.wav)
+				zsim.vsyncSound!.startCapture();
+			const frames = options.frames;
+			if (frames != undefined) {
+				zsim.on('vertSync', async () => {
+					if (zsim.getFrameCount() >= frames)
+						await headless.stop('frames');
+				});
+			}
+
+			// Run
+			const reason = await headless.continue(options.timeout);
+			const pc = Remote.getPC();
+			let exitCode = Zx81Cli.EXIT_OK;
+			let status: string;
+			if (headless.stopReason == 'frames')
+				status = frames + " frames executed.";
+			else if (headless.stopReason == 'timeout') {
+				status = "Timeout after " + options.timeout + " s.";
+				exitCode = Zx81Cli.EXIT_FAILED;
+			}
+			else if (untilAddresses.includes(pc))
+				status = "Address reached.";
+			else if (pc == 0xFFFF && untilAddresses.length == 0)
+				status = "End of program.";
+			else if (pc == 0xFFFF) {
+				status = "End of program before the address.";
+				exitCode = Zx81Cli.EXIT_FAILED;
+			}
+			else {
+				status = reason || "Stopped.";
+				exitCode = Zx81Cli.EXIT_FAILED;
+			}
+			const labels = Labels.getLabelsForNumber64k(pc);
+			console.error(status + " PC=" + Utility.getHexString(pc, 4) + "h" + (labels.length > 0 ? " (" + labels.join(', ') + ")" : "")
+				+ ", " + zsim.getFrameCount() + " frames, " + zsim.getPassedTstates() + " T-states.");
+
+			// Results
+			if (options.regs)
+				console.log(this.getRegisters());
+			for (const range of options.mem)
+				console.log(await this.getMemoryDump(range.address, range.size));
+			if (options.screen)
+				await this.writeScreen(options.screen, options.scale);
+			if (options.printer)
+				await this.writePrinter(zsim, options.printer, options.scale);
+			if (options.wav)
+				fs.writeFileSync(options.wav, Zx81VsyncSound.toWav(zsim.vsyncSound!.stopCapture(), Zx81VsyncSound.SAMPLE_RATE));
+			return exitCode;
+		}
+		finally {
+			await headless.dispose();
+		}
+	}
+
+
+	/**
+	 * Returns the registers as text.
+	 */
+	protected getRegisters(): string {
+		const lines = [
+			['PC', 'SP', 'AF', 'BC', 'DE', 'HL'],
+			['IX', 'IY', "AF'", "BC'", "DE'", "HL'"]
+		].map(names => names.map(name => name + '=' + Utility.getHexString(Remote.getRegisterValue(name), 4)).join(' '));
+		lines.push(['I', 'R'].map(name => name + '=' + Utility.getHexString(Remote.getRegisterValue(name), 2)).join(' ') + ' IM=' + Remote.getRegisterValue('IM'));
+		return lines.join('\n');
+	}
+
+
+	/**
+	 * Returns a memory range as text (16 bytes per line).
+	 * @param addressString The address, e.g. "4000h" or "D_FILE".
+	 * @param sizeString The size.
+	 * Throws an exception if the range is wrong.
+	 */
+	protected async getMemoryDump(addressString: string, sizeString: string): Promise<string> {
+		const address = Utility.evalExpression(addressString, false);
+		if (address < 0 || address > 0xFFFF)
+			throw Error("Address (" + address + ") out of range.");
+		const size = Utility.evalExpression(sizeString, false);
+		if (size <= 0 || size > 0x10000)
+			throw Error("Size (" + size + ") out of range.");
+		const data = await Remote.readMemoryDump(address, size);
+		const lines = new Array<string>();
+		for (let offset = 0; offset < size; offset += 16) {
+			const bytes = Array.from(data.subarray(offset, offset + 16), value => Utility.getHexString(value, 2));
+			lines.push(Utility.getHexString((address + offset) & 0xFFFF, 4) + ': ' + bytes.join(' '));
+		}
+		return lines.join('\n');
+	}
+
+
+	/**
+	 * Writes the display file.
+	 * @param screen '-' (text to the output), a .png or a text file.
+	 * @param scale The size of a pixel in the PNG.
+	 */
+	protected async writeScreen(screen: string, scale: number) {
+		const screenshot = new Zx81Screenshot(await Zx81DisplayFile.read());
+		if (screen == '-')
+			process.stdout.write(screenshot.toText());
+		else if (path.extname(screen).toLowerCase() == '.png') {
+			const charset = await Remote.readMemoryDump(Zx81Screenshot.ROM_CHARSET, Zx81Screenshot.CHARSET_SIZE);
+			fs.writeFileSync(screen, screenshot.toPng(charset, scale));
+		}
+		else
+			fs.writeFileSync(screen, screenshot.toText());
+	}
+
+
+	/**
+	 * Writes what has been printed by the ZX Printer.
+	 * @param zsim The simulator.
+	 * @param printer '-' (text to the output), a .png or a text file.
+	 * @param scale The size of a dot in the PNG.
+	 * Throws an exception if the printer is not connected or nothing has been printed (PNG).
+	 */
+	protected async writePrinter(zsim: ZSimRemote, printer: string, scale: number) {
+		if (!zsim.printer)
+			throw Error("The ZX Printer is not connected (zsim.zxPrinter).");
+		if (path.extname(printer).toLowerCase() == '.png') {
+			if (zsim.printer.rows.length == 0)
+				throw Error("Nothing has been printed.");
+			fs.writeFileSync(printer, zsim.printer.toPng(scale));
+			return;
+		}
+		const charset = await Remote.readMemoryDump(Zx81Screenshot.ROM_CHARSET, Zx81Screenshot.CHARSET_SIZE);
+		const text = zsim.printer.toText(charset);
+		if (printer == '-')
+			process.stdout.write(text);
+		else
+			fs.writeFileSync(printer, text);
+	}
+}
+
+
+// Executed from the command line
+if (require.main === module) {
+	Zx81Cli.main(process.argv.slice(2)).then(exitCode => process.exit(exitCode));
+}
@@ -17,8 +17,10 @@ import {MemoryDiffView} from "../views/memorydiffview";
 import {MemoryDumpView} from "../views/memorydumpview";
 import {MemoryDumpViewWord} from "../views/memorydumpviewword";
 import {MemoryRegisterView} from "../views/memoryregisterview";
+import {MemoryDisplayFileView} from '../views/memorydisplayfileview';
 import { Zx81View } from '../views/zx81view';
 import { ZSimRemote } from '../remotes/zsimulator/zsimremote';
+import {Zx81DisplayFile} from '../misc/zx81displayfile';
 
 
 /** A static class that contains the debug console commands to evaluate the memory.
@@ -397,6 +399,34 @@ export class MemoryCommands {
 			await panel.update(true);
 		}
 
+		// Send response with the display file, walked line by line (it can be collapsed)
+		const displayFile = await Zx81DisplayFile.read();
+		let text = 'D_FILE: ' + Utility.getHexString(displayFile.address, 4) + 'h, ' + displayFile.size + ' bytes';
+		if (displayFile.isCollapsed())
+			text += ', collapsed';
+		if (displayFile.lines.length < Zx81DisplayFile.LINES)
+			text += ', only ' + displayFile.lines.length + ' lines found';
+		return text;
+	}
+
+
+	/**
+	 * Shows a memory view of the display file, line by line.
+	 * It walks D_FILE at each update (the display file can be collapsed).
+	 * @param tokens No arguments.
+	 * @returns A Promise with a text to print.
+	 */
+	public static async evalMemViewDisplayFile(tokens: Array<string>): Promise<string> {
+		// Check count of arguments
+		if (tokens.length != 0) {
+			// Error Handling: No arguments
+			throw new Error("No parameters expected.");
+		}
+
+		// Create the view
+		const panel = new MemoryDisplayFileView();
+		await panel.update();
+
 		// Send response
 		return 'OK';
 	}
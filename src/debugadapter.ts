@@ -33,7 +33,7 @@ import {StepHistoryClass} from './remotes/stephistory';
 import {Z80RegisterHoverFormat, Z80Registers, Z80RegistersClass} from './remotes/z80registers';
 import {ZSimRemote} from './remotes/zsimulator/zsimremote';
 import {Settings, SettingsParameters} from './settings/settings';
-import {DisassemblyVar, ImmediateMemoryValue, MemDumpVar, RegistersMainVar, RegistersSecondaryVar, ShallowVar, StackVar, StructVar, SystemVariablesVar} from './variables/shallowvar';
+import {AyRegistersVar, BasicVariablesVar, DisassemblyVar, ImmediateMemoryValue, MemDumpVar, RegistersMainVar, RegistersSecondaryVar, ShallowVar, StackVar, StructVar, SystemVariablesVar} from './variables/shallowvar';
 import {BaseView} from './views/baseview';
 import {TextView} from './views/textview';
 import {SmartDisassembler} from './disassembler/smartdisassembler';
@@ -44,6 +44,9 @@ import {ExceptionBreakpoints} from './exceptionbreakpoints';
 import * as hjoin from '@bartificer/human-join';
 import {MemoryCommands} from './commands/memorycommands';
 import { Zx81View } from './views/zx81view';
+import {Zx81PrinterView} from './views/zx81printerview';
+import {Zx81Basic} from './misc/zx81basic';
+import {Zx81Float} from './misc/zx81float';
 
 
 /**
@@ -483,9 +486,15 @@ export class DebugSessionClass extends DebugSession {
 				new Scope("Registers", this.listVariables.addObject(new RegistersMainVar())),
 				new Scope("Registers 2", this.listVariables.addObject(new RegistersSecondaryVar())),
 				new Scope("System Variables", this.listVariables.addObject(new SystemVariablesVar())),
+				new Scope("BASIC Variables", this.listVariables.addObject(new BasicVariablesVar(this.listVariables))),
 				new Scope("Disassembly", this.listVariables.addObject(this.disassemblyVar)),
 				new Scope("Local Stack", this.listVariables.addObject(this.localStackVar))
 			];
+			// The registers of the sound board
+			if (Settings.launch.remoteType == 'zsim' && Settings.launch.zsim.soundBoard != 'NONE') {
+				const ayVar = new AyRegistersVar(() => (Remote instanceof ZSimRemote) ? Remote.ay : undefined);
+				this.scopes.push(new Scope("AY-3-8912", this.listVariables.addObject(ayVar)));
+			}
 
 			// Register to get a note when debug session becomes active
 			this.debugConsoleSavedText = '';
@@ -589,6 +598,13 @@ export class DebugSessionClass extends DebugSession {
 			});
 		});
 
+		if (Remote instanceof ZSimRemote) {
+			Remote.on('stateRestored', async (reason: string) => {
+				// Went back in the timeline or started a replay
+				await this.stateRestored(reason);
+			});
+		}
+
 		StepHistory.on('revDbgHistory', addresses => {
 			// addresses: The addresses (all) of the reverse history in the right order.
 			this.delayedDecorations.push(() => {
@@ -647,6 +663,10 @@ export class DebugSessionClass extends DebugSession {
 					// Set Program Counter to execAddress
 					await Remote.setLaunchExecAddress();
 
+					// Listing of the BASIC program, for the breakpoints on BASIC lines
+					if (Remote instanceof ZSimRemote)
+						await this.updateBasicListing();
+
 					// Get initial registers
 					await Remote.getRegistersFromEmulator();
 					await Remote.getCallStackFromEmulator();
@@ -670,11 +690,20 @@ export class DebugSessionClass extends DebugSession {
 						}
 					}
 
+					// Type the keys after load (checked by the settings).
+					const keysAfterLaunch = Settings.launch.keysAfterLaunch;
+					if (keysAfterLaunch && Remote instanceof ZSimRemote) {
+						this.debugConsoleAppendLine('-keys ' + keysAfterLaunch);
+						Remote.typeKeys(keysAfterLaunch);
+					}
+
 					if (Remote instanceof ZSimRemote) {
 						// Show the ZX81 Simulator view
 						const zsim = Remote;
 						const view = new Zx81View(zsim);
 						view.update(false);
+						// Show the ZX Printer view when something is printed
+						zsim.on('printed', () => Zx81PrinterView.show(zsim));
 					}
 				}
 				catch(e) {
@@ -999,6 +1028,62 @@ export class DebugSessionClass extends DebugSession {
 	}
 
 
+	/**
+	 * Decodes the BASIC program and writes its listing into the BASIC file.
+	 * @returns A Promise with the BASIC program.
+	 */
+	protected async updateBasicListing(): Promise<Zx81Basic> {
+		const basic = await Zx81Basic.read();
+		Zx81Basic.current = basic;
+		fs.writeFileSync(Zx81Basic.getAbsFilePath(), basic.getText());
+		return basic;
+	}
+
+
+	/**
+	 * Updates the listing of the BASIC program and shows it.
+	 * @returns A Promise with a text to print.
+	 */
+	protected async evalBasic(): Promise<string> {
+		const basic = await this.updateBasicListing();
+		const doc = await vscode.workspace.openTextDocument(Zx81Basic.getAbsFilePath());
+		await vscode.window.showTextDocument(doc);
+		return 'BASIC program at ' + Utility.getHexString(basic.address, 4) + 'h: ' + basic.lines.length + ' lines, ' + basic.size + ' bytes.';
+	}
+
+
+	/**
+	 * Shows the view of the ZX Printer.
+	 * @returns A Promise with a text to print.
+	 * Throws an exception if the printer is not connected.
+	 */
+	protected async evalPrinter(): Promise<string> {
+		if (!(Remote instanceof ZSimRemote))
+			throw Error("The ZX Printer is only available with zsim.");
+		const view = Zx81PrinterView.show(Remote);
+		await view.update();
+		const rows = Remote.printer!.rows.length;
+		return 'ZX Printer: ' + rows + ' rows printed (' + Math.ceil(rows / 8) + ' lines).';
+	}
+
+
+	/**
+	 * Types keys on the keyboard of the ZX81.
+	 * @param tokens The keys, e.g. ["RUN{NEWLINE}{WAIT", "50}"].
+	 * @returns A Promise with a text to print.
+	 * Throws an exception if the keys can't be typed.
+	 */
+	protected async evalKeys(tokens: Array<string>): Promise<string> {
+		if (!(Remote instanceof ZSimRemote))
+			throw Error("The keys can only be typed with zsim.");
+		const keys = tokens.join(' ');
+		if (!keys)
+			throw Error("Keys expected, e.g. '-keys RUN{NEWLINE}'.");
+		Remote.typeKeys(keys);
+		return "Typing '" + keys + "'.";
+	}
+
+
 	/**
 	 * Opens the text document for disasm file.
 	 * If it does not exist, it is created.
@@ -1788,7 +1873,7 @@ export class DebugSessionClass extends DebugSession {
 		const item = this.constExpressionsList.get(args.expression);
 		if (item && item.immediateValue) {
 			// Now set the value.
-			const value = Utility.parseValue(args.value);
+			const value = item.immediateValue.parseValue(args.value);
 			const formattedString = await item.immediateValue.setValue(value);
 			if (formattedString) {
 				response.body = {value: formattedString};
@@ -1865,6 +1950,18 @@ export class DebugSessionClass extends DebugSession {
 		else if (cmd === '-zx81') {
 			output = await MemoryCommands.evalDisplayView();
 		}
+		else if (cmd === '-mvdf') {
+			output = await MemoryCommands.evalMemViewDisplayFile(tokens);
+		}
+		else if (cmd === '-basic') {
+			output = await this.evalBasic();
+		}
+		else if (cmd === '-printer') {
+			output = await this.evalPrinter();
+		}
+		else if (cmd === '-keys') {
+			output = await this.evalKeys(tokens);
+		}
 		else if (cmd === '-mvd') {
 			output = await MemoryCommands.evalMemViewDiff(tokens);
 		}
@@ -1980,7 +2077,7 @@ export class DebugSessionClass extends DebugSession {
 						const labelValue = Utility.evalExpression(expression, true, modulePrefix, lastLabel);
 						if (labelValue != undefined) {
 							// Get content
-							const memDump = await Remote.readMemoryDump(labelValue, 2);
+							const memDump = await Remote.readMemoryDump(labelValue, Zx81Float.SIZE);
 							// Format byte
 							const memByte = memDump[0];
 							const formattedByte = Utility.numberFormattedSync(memByte, 1, Settings.launch.formatting.watchByte, true);
@@ -1993,6 +2090,10 @@ export class DebugSessionClass extends DebugSession {
 								formattedValue = expression + ': ' + addrString;
 							// Second line
 							formattedValue += '\n(' + addrString + ')b=' + formattedByte + '\n(' + addrString + ')w=' + formattedWord;
+							// ZX81 floating point number
+							const memFloat = Utility.getUintFromMemory(memDump, 0, Zx81Float.SIZE);
+							const formattedFloat = Utility.numberFormattedSync(memFloat, Zx81Float.SIZE, Settings.launch.formatting.watchFloat, true);
+							formattedValue += '\n(' + addrString + ')f=' + formattedFloat;
 						}
 						//}
 					}
@@ -2057,6 +2158,7 @@ export class DebugSessionClass extends DebugSession {
 		// If the count is > 1 then an array is displayed. If left then 1 is assumed.
 		// If the type is left, 'b' is assumed, e.g. "LBL_TEXT,,5" will show an array of 5 bytes.
 		// If both are omitted, e.g. "LBL_TEXT" just the byte value contents of LBL_TEXT is shown.
+		// The type 'f' is a ZX81 floating point number (5 bytes), e.g. "MEMBOT,f,6".
 
 		// Get everything before ;
 		let text = expression;
@@ -2102,6 +2204,7 @@ export class DebugSessionClass extends DebugSession {
 		let lblIndex = 0;
 		let elemCount = 1;	// Use 1 as default
 		let elemSize = 1;	// Use 1 as default (if no type/size given)
+		let float = false;
 
 		// First check for module name and local label prefix.
 		const pcAddr = Remote.getPC();
@@ -2116,7 +2219,13 @@ export class DebugSessionClass extends DebugSession {
 			throw Error("Could not parse label: " + labelString);
 
 		// Get size from type
-		if (lblType) {
+		if (lblType.toLowerCase() == 'f') {
+			// ZX81 floating point number
+			float = true;
+			elemSize = Zx81Float.SIZE;
+			lblType = '';
+		}
+		else if (lblType) {
 			elemSize = Utility.evalExpression(lblType, true, modulePrefix, lastLabel);
 			if (isNaN(elemSize))
 				throw Error("Could not parse element size.");
@@ -2155,7 +2264,7 @@ export class DebugSessionClass extends DebugSession {
 			// be inside the struct.
 			elemCount = Labels.getDistanceToNextLabel(distAddr as number) || 1;
 			// Check special case
-			if (!lblType && elemCount === 2) {
+			if (!lblType && !float && elemCount === 2) {
 				// Special case: 1 word. Exchange size and count
 				elemSize = 2;
 				elemCount = 1;
@@ -2196,11 +2305,11 @@ export class DebugSessionClass extends DebugSession {
 			// Check for single value or array (no sub properties)
 			if (elemCount <= 1) {
 				// Create variable
-				immediateValue = new ImmediateMemoryValue(labelValue64k, elemSize, littleEndian);
+				immediateValue = new ImmediateMemoryValue(labelValue64k, elemSize, littleEndian, float);
 			}
 			else {
 				// Simple memdump
-				labelVar = new MemDumpVar(labelValue64k, elemCount, elemSize, littleEndian);
+				labelVar = new MemDumpVar(labelValue64k, elemCount, elemSize, littleEndian, float);
 			}
 		}
 		else {
@@ -2251,7 +2360,10 @@ the value correspondents to a label.
 "-label|-l XXX": Returns the matching labels (XXX) with their values. Allows wildcard "*".
 "-md address size [dec|hex] [word] [little|big]": Memory dump at 'address' with 'size' bytes. Output is in 'hex' (default) or 'dec'imal. Per default data will be grouped in bytes.
   But if chosen, words are output. Last argument is the endianness which is little endian by default.
-"-zx81": Show the ZX81 simulator.
+"-zx81": Show the ZX81 simulator and the address and size of the display file.
+"-basic": Shows the listing of the BASIC program. Breakpoints can be set on the BASIC lines: the program stops when the ROM starts to execute the line.
+"-printer": Shows what the ZX Printer has printed (LPRINT, LLIST, COPY). It can be saved as PNG or as text.
+"-keys keys": Types keys on the keyboard of the ZX81 (zsim). The keywords are typed as on a ZX81, other keys are in braces, e.g. {NEWLINE}, {RUBOUT} or {SHIFT+Q}, {WAIT n} waits n frames. E.g. "-keys RUN{NEWLINE}{WAIT 50}".
 "-msetb address value [repeat]":
 	- address: The address to fill. Can also be a label or expression.
 	- value: The byte value to set.
@@ -2273,6 +2385,7 @@ the value correspondents to a label.
 "-mv address size [address_n size_n]*": Memory view at 'address' with 'size' bytes. Will open a new view to display the memory contents.
 "-mvd address size [address_n size_n]*": Opens a memory view that can be used for comparison. I.e. you start at some time than later you update the view and then you can make a diff and search e.g. for all values that have been decremented by 1.
 "-mvw address size [address_n size_n]* [big]": Memory view at 'address' with 'size' words. Like -mv but display unit is word instead of byte. Normally the display is little endian. This can be changed by adding "big" as last argument.
+"-mvdf": Memory view of the display file (D_FILE), one line per row with its HALT. The lines follow D_FILE and the collapsed display file.
 "-rmv": Shows the memory register view. I.e. a dynamic view with the memory contents the registers point to.
 "-state save|restore|list|clear|clearall [statename]": Saves/restores the current state. I.e. the complete RAM + the registers.
 "-wpadd address [size] [type]": Adds a watchpoint. See below.
@@ -2690,8 +2803,8 @@ E.g. use "-help -view" to put the help text in an own view.
 					response.message = msg;
 				}
 				else {
-					// Convert string to number
-					const value = Utility.evalExpression(valueString, true);
+					// Convert string to value (normally a number)
+					const value = varObj.parseValue(name, valueString);
 					// Set value
 					const formattedString = await varObj.setValue(name, value);
 					// Send response
@@ -3193,6 +3306,17 @@ E.g. use "-help -view" to put the help text in an own view.
 			const errTxt = "Can't load '" + filePath + "': " + e.message;
 			throw new Error(errTxt);
 		}
+		await this.stateRestored('restore');
+	}
+
+
+	/**
+	 * Called after the state of the Remote has been restored
+	 * (by "-state restore", by going back in the timeline of zsim or by replaying a recording).
+	 * Updates the registers, the call stack, the views etc.
+	 * @param reason The reason of the StoppedEvent.
+	 */
+	protected async stateRestored(reason: string): Promise<void> {
 		// Clear history
 		StepHistory.init();
 		// Clear decorations
@@ -3203,7 +3327,7 @@ E.g. use "-help -view" to put the help text in an own view.
 		// Update memory etc.
 		this.update();
 		// Send event
-		this.sendEvent(new StoppedEvent('restore', DebugSessionClass.THREAD_ID));
+		this.sendEvent(new StoppedEvent(reason, DebugSessionClass.THREAD_ID));
 	}
 
 
@@ -20,6 +20,7 @@ import {Utility} from './misc/utility';
 import {PackageInfo} from './info/packageinfo';
 import {registerCommands} from './commands';
 import { registerWelcomeCommands } from './welcome';
+import {Z80UnitTestController} from './z80unittests/z80unittestcontroller';
 
 
 /**
@@ -81,6 +82,9 @@ export function activate(context: vscode.ExtensionContext) {
 
 	// Initialize the Coverage singleton.
 	DecorationClass.Initialize();
+
+	// The unit tests in the Test Explorer
+	new Z80UnitTestController(context);
 }
 
 
@@ -154,6 +158,12 @@ class ZX81ConfigurationProvider implements vscode.DebugConfigurationProvider {
 			return;
 		}
 
+		// The unit tests use the simulator
+		if (Z80UnitTestController.running) {
+			vscode.window.showWarningMessage("The debugger can't be started while the unit tests are running.");
+			return;
+		}
+
 		// Check if (ZX81 Debugger) already running
 		if (!this._server) {
 			// Start port listener on launch of first debug session (random port)
@@ -184,10 +184,14 @@ export class LabelsClass {
 			this.handleIssue(issue);
 		}
 
-		if(mainConfig.sld) {
-			const parser =  new SldLabelParser(this.fileLineNrs, this.lineArrays, this.labelsForNumber64k, this.labelsForAddress, this.numberForLabel, this.labelLocations, this.watchPointLines, this.assertionLines, this.logPointLines, issueHandler);
+		const parser =  new SldLabelParser(this.fileLineNrs, this.lineArrays, this.labelsForNumber64k, this.labelsForAddress, this.numberForLabel, this.labelLocations, this.watchPointLines, this.assertionLines, this.logPointLines, issueHandler);
+
+		// The labels and sources of the ROM (zsim.rom)
+		if (mainConfig.zsim?.romSld)
+			this.loadAsmListFile(parser, mainConfig.zsim.romSld);
+
+		if(mainConfig.sld)
 			this.loadAsmListFile(parser, mainConfig.sld);
-		}
 
 		// Check errors
 		if (this.errorHappened != undefined)
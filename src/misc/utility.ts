@@ -14,10 +14,10 @@ import {Z80RegistersClass} from '../remotes/z80registers';
 import {Remote} from '../remotes/remotebase';
 import * as fs from 'fs';
 import {UnifiedPath} from './unifiedpath';
+import {Zx81Float} from './zx81float';
 import {Log} from '../log';
 import * as vm from 'vm';
 import * as jsonc from 'jsonc-parser';
-import * as vscode from 'vscode';
 
 
 /**
@@ -546,25 +546,6 @@ export class Utility {
 		return res;
 	}
 
-	/**
-	 * Get the URI of an asset.
-	 * @param path The path of the asset inside the assets folder.
-	 * @returns the URI of an asset.
-	 */
-	public static getAssetSrc(path: string): vscode.Uri {
-		return vscode.Uri.file(this.getExtensionPath() + '/assets/' + path);
-	}
-
-	/**
-	 * Get the URI of a ZX81 character.
-	 * @param value The value of the character.
-	 * @returns the URI of an asset.
-	 */
-	public static getZX81ImageSrc(value: number): vscode.Uri {
-		return Utility.getAssetSrc('chars/ZX81-0x' + this.getHexString(value, 2) + '.png');
-	}
-
-
 	/**
 	 * Returns a formatted number.
 	 * Formatting is done according to size and especially the format string.
@@ -579,6 +560,7 @@ export class Utility {
 	 * $(signed) = value as signed, e.g. -59
 	 * $(bits) = value as bits , e.g. 10011011
 	 * $(flags) = value interpreted as status flags (only useful for F and F'), e.g. ZNC
+	 * ${float} = value (5 bytes) as ZX81 floating point number, e.g. 3.14159265. ${f@:float} is the number at the address.
 	 * ${labels} = value as label (or several labels)"
 	 * @param tabSizeArr An array of strings each string contains the max number of characters for each tab. Or null. If null the tab sizes are calculated on the fly.
 	 * @param undefText Text to use if value is undefined. Defaults to "undefined".
@@ -612,8 +594,15 @@ export class Utility {
 			memWord = (b2 << 8) + b1;
 		}
 
+		// Floating point number at the address
+		let memFloat = 0;
+		if (format.includes('${f@:')) {
+			const data = await Remote.readMemoryDump(value, Zx81Float.SIZE);
+			memFloat = Utility.getUintFromMemory(data, 0, Zx81Float.SIZE);
+		}
+
 		// Formatting
-		const valString = Utility.numberFormattedSync(value, size, format, regsAsWell, name, memWord, tabSizeArr);
+		const valString = Utility.numberFormattedSync(value, size, format, regsAsWell, name, memWord, tabSizeArr, memFloat);
 
 		// Return
 		return valString;
@@ -635,15 +624,17 @@ export class Utility {
 	 * $(signed) = value as signed, e.g. -59
 	 * $(bits) = value as bits , e.g. 10011011
 	 * $(flags) = value interpreted as status flags (only useful for F and F'), e.g. ZNC
+	 * ${float} = value (5 bytes) as ZX81 floating point number, e.g. 3.14159265. ${f@:float} is the number at the address.
 	 * ${labels} = value as label (or several labels)"
 	 * @param regsAsWell If true then also matching register names will be returned.
 	 * @param paramName The name, e.g. a register name "A" etc. or a label name. Can be omitted or undefined or ''.
 	 * @param paramWordAtAddress If value is an address and formatting should print that the value is given here.
 	 * The same value (the low byte) is also used for displaying the byte at address. Can be omitted or 0 if unused.
 	 * @param tabSizeArr An array of strings each string contains the max number of characters for each tab. Or null. If null the tab sizes are calculated on the fly.
+	 * @param paramFloatAtAddress The 5 bytes (little endian) of the floating point number at address (${f@:float}). Can be omitted if unused.
 	 * @returns The formatted string.
 	 */
-	public static numberFormattedSync(value: number, size: number, format: string, regsAsWell = false, paramName?: string, paramWordAtAddress?: number, tabSizeArr?: Array<string>): string {
+	public static numberFormattedSync(value: number, size: number, format: string, regsAsWell = false, paramName?: string, paramWordAtAddress?: number, tabSizeArr?: Array<string>, paramFloatAtAddress?: number): string {
 		// Check for defaults
 		const name = paramName || '';
 		const wordAtAddress = paramWordAtAddress || 0;
@@ -679,6 +670,10 @@ export class Utility {
 					usedValue = wordAtAddress;	// use word at address
 					usedSize = 2;
 					break;
+				case 'f@':
+					usedValue = paramFloatAtAddress || 0;	// use floating point number at address
+					usedSize = Zx81Float.SIZE;
+					break;
 				case '':	// no modifier found
 				default:	// in case of 'labels'
 					usedValue = value;	// normal case
@@ -710,6 +705,15 @@ export class Utility {
 					const maxValue = Math.pow(256, usedSize);
 					const halfMaxValue = maxValue / 2;
 					return ((usedValue >= halfMaxValue) ? usedValue - maxValue : usedValue).toString() + restP;
+				case 'float':
+					{
+						// Interpret the 5 bytes as ZX81 floating point number
+						if (usedSize != Zx81Float.SIZE)
+							return '${' + p1 + '???}' + restP;
+						const data = new Uint8Array(Zx81Float.SIZE);
+						Utility.setUintToMemory(usedValue, data, 0, Zx81Float.SIZE);
+						return Zx81Float.format(Zx81Float.read(data)) + restP;
+					}
 				case 'flags':
 					// Interpret byte as Z80 flags:
 					const res = this.getFlagsString(usedValue);
@@ -1436,7 +1440,7 @@ export class Utility {
 		const workspaceFolder = UnifiedPath.dirname(dotVscodeFolder);
 		const workspaceFolderBasename = UnifiedPath.basename(workspaceFolder);
 
-		const substData = launchData.replace(/\${.*}/g, variable => {
+		const substData = launchData.replace(/\$\{[^}]*\}/g, variable => {
 			switch (variable) {
 				case '${workspaceFolder}':
 					return workspaceFolder;
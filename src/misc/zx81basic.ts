@@ -0,0 +1,257 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81basic.ts
+ * Description:		Decodes (detokenizes) the BASIC program of the ZX81.
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import {Remote} from '../remotes/remotebase';
+import {Utility} from './utility';
+import {Zx81Charset} from './zx81charset';
+
+
+/**
+ * A line of the BASIC program.
+ */
+export interface BasicLine {
+	// The line number.
+	number: number;
+	// The address of the line (the line number).
+	address: number;
+	// The size of the line in bytes (line number, length, text and NEWLINE).
+	size: number;
+	// The text of the line, e.g. "10 PRINT "HELLO"".
+	text: string;
+}
+
+
+/**
+ * The BASIC program of the ZX81, from PROG (0x407D) to D_FILE.
+ * Each line is: the line number (2 bytes, big endian), the length of the text
+ * (2 bytes, little endian), the text (tokens and characters) terminated by NEWLINE (0x76).
+ * The numbers are followed by 0x7E and their value (5 bytes, floating point): the value is not shown.
+ * The characters without ASCII equivalent are shown as \hh (hexadecimal code),
+ * the inverse characters are preceded by %.
+ */
+export class Zx81Basic {
+	// The start of the BASIC program.
+	public static readonly PROG = 0x407D;
+
+	// The address of the D_FILE system variable, the end of the BASIC program.
+	public static readonly D_FILE = 0x400C;
+
+	// The address in the ROM (LINE-RUN) just after the line number has been stored
+	// into PPC. DE contains the number of the line that starts to be executed.
+	public static readonly LINE_RUN = 0x0699;
+
+	// The first bytes of the ROM of the ZX81 at LINE_RUN.
+	public static readonly LINE_RUN_BYTES: {[address: number]: Array<number>} = {
+		[Zx81Basic.LINE_RUN]: [0x23, 0x5E, 0x23, 0x56]
+	};
+
+	// The file name used for the listing of the program.
+	protected static readonly FILE_NAME = 'program.bas';
+
+	// The NEWLINE at the end of the lines.
+	protected static readonly NEWLINE = 0x76;
+
+	// The marker of a number (followed by 5 bytes).
+	protected static readonly NUMBER = 0x7E;
+
+	// The REM token.
+	protected static readonly REM = 0xEA;
+
+	// The tokens 0x40-0x42 (functions without argument).
+	protected static readonly TOKENS_40 = ['RND', 'INKEY$', 'PI'];
+
+	// The tokens 0xC0-0xFF.
+	protected static readonly TOKENS_C0 = [
+		'""', 'AT', 'TAB', '?', 'CODE', 'VAL', 'LEN', 'SIN', 'COS', 'TAN', 'ASN', 'ACS', 'ATN', 'LN', 'EXP', 'INT',
+		'SQR', 'SGN', 'ABS', 'PEEK', 'USR', 'STR$', 'CHR$', 'NOT', '**', 'OR', 'AND', '<=', '>=', '<>', 'THEN', 'TO',
+		'STEP', 'LPRINT', 'LLIST', 'STOP', 'SLOW', 'FAST', 'NEW', 'SCROLL', 'CONT', 'DIM', 'REM', 'FOR', 'GOTO', 'GOSUB', 'INPUT', 'LOAD',
+		'LIST', 'LET', 'PAUSE', 'NEXT', 'POKE', 'PRINT', 'PLOT', 'RUN', 'SAVE', 'RAND', 'IF', 'CLS', 'UNPLOT', 'CLEAR', 'RETURN', 'COPY'
+	];
+
+	// The program shown in the listing file (to map the lines of the file to the BASIC lines).
+	public static current: Zx81Basic | undefined;
+
+	// The address of the program.
+	public address: number;
+
+	// The lines of the program.
+	public lines: Array<BasicLine>;
+
+
+	/**
+	 * Parses the BASIC program.
+	 * @param address The address of the program (PROG).
+	 * @param memory The memory of the program, up to D_FILE.
+	 */
+	constructor(address: number, memory: Uint8Array) {
+		this.address = address;
+		this.lines = new Array<BasicLine>();
+		let offset = 0;
+		// A line has at least 5 bytes (number, length and NEWLINE)
+		while (offset + 5 <= memory.length) {
+			const number = (memory[offset] << 8) | memory[offset + 1];
+			// The line numbers are 1-9999, higher values are the end of the program
+			if (number >= 0x4000)
+				break;
+			const length = memory[offset + 2] | (memory[offset + 3] << 8);
+			const size = 4 + length;
+			const data = memory.subarray(offset + 4, Math.min(offset + size, memory.length));
+			this.lines.push({
+				number,
+				address: address + offset,
+				size,
+				text: number + ' ' + Zx81Basic.decodeLine(data)
+			});
+			offset += size;
+		}
+	}
+
+
+	/**
+	 * Reads the BASIC program from the Remote.
+	 * @returns A Promise with the program.
+	 */
+	public static async read(): Promise<Zx81Basic> {
+		const dfilePtr = await Remote.readMemoryDump(Zx81Basic.D_FILE, 2);
+		const dfile = dfilePtr[0] + 256 * dfilePtr[1];
+		const size = Math.max(0, dfile - Zx81Basic.PROG);
+		const memory = await Remote.readMemoryDump(Zx81Basic.PROG, size);
+		return new Zx81Basic(Zx81Basic.PROG, memory);
+	}
+
+
+	/**
+	 * Returns the file path of the listing of the program.
+	 * @returns The absolute file path, e.g. "/.../.tmp/program.bas".
+	 */
+	public static getAbsFilePath(): string {
+		const relPath = Utility.getRelTmpFilePath(Zx81Basic.FILE_NAME);
+		return Utility.getAbsFilePath(relPath);
+	}
+
+
+	/**
+	 * Decodes the text of a line.
+	 * @param data The text of the line (the tokens and characters).
+	 * @returns The text in ASCII.
+	 */
+	public static decodeLine(data: Uint8Array): string {
+		let text = '';
+		let rem = false;
+		for (let i = 0; i < data.length; i++) {
+			const code = data[i];
+			if (code == Zx81Basic.NEWLINE && i == data.length - 1)
+				break;
+			if (code == Zx81Basic.NUMBER && !rem) {
+				// Skip the value of the number
+				i += 5;
+				continue;
+			}
+			const token = Zx81Basic.getToken(code);
+			if (token != undefined) {
+				if (code == 0xC0) {
+					// The quote image
+					text += token;
+					continue;
+				}
+				// The keywords are surrounded by spaces
+				if (text.length > 0 && !text.endsWith(' '))
+					text += ' ';
+				text += token + ' ';
+				if (code == Zx81Basic.REM)
+					rem = true;
+				continue;
+			}
+			text += Zx81Basic.decodeCharacter(code);
+		}
+		return text.trimEnd();
+	}
+
+
+	/**
+	 * Returns the token of a code.
+	 * @param code The code.
+	 * @returns The token (e.g. "PRINT") or undefined if the code is not a token.
+	 */
+	protected static getToken(code: number): string | undefined {
+		if (code >= 0x40 && code < 0x40 + Zx81Basic.TOKENS_40.length)
+			return Zx81Basic.TOKENS_40[code - 0x40];
+		if (code >= 0xC0)
+			return Zx81Basic.TOKENS_C0[code - 0xC0];
+		return undefined;
+	}
+
+
+	/**
+	 * Decodes a character.
+	 * @param code The character code.
+	 * @returns The ASCII character, %c for an inverse character or \hh if there is no ASCII equivalent.
+	 */
+	protected static decodeCharacter(code: number): string {
+		const ch = Zx81Charset.toAscii(code);
+		if (code < 0x40 && Zx81Charset.fromAscii(ch) == code)
+			return ch;
+		if (code >= 0x80 && code < 0xC0 && Zx81Charset.fromAscii(ch) == (code & 0x3F))
+			return '%' + ch;
+		return '\\' + Utility.getHexString(code, 2);
+	}
+
+
+	/**
+	 * Returns the listing of the program.
+	 * One BASIC line per line of text.
+	 */
+	public getText(): string {
+		return this.lines.map(line => line.text).join('\n') + '\n';
+	}
+
+
+	/**
+	 * Returns the size of the program in bytes.
+	 */
+	public get size(): number {
+		return this.lines.reduce((size, line) => size + line.size, 0);
+	}
+
+
+	/**
+	 * Returns the index of a line.
+	 * @param number The line number.
+	 * @returns The index of the line or -1 if the line does not exist.
+	 */
+	public getLineIndex(number: number): number {
+		return this.lines.findIndex(line => line.number == number);
+	}
+
+
+	/**
+	 * Returns the index of the line that contains an address.
+	 * E.g. used for machine code in a REM statement.
+	 * @param address The address.
+	 * @returns The index of the line or -1 if the address is not in a line.
+	 */
+	public getLineIndexForAddress(address: number): number {
+		return this.lines.findIndex(line => address >= line.address && address < line.address + line.size);
+	}
+
+
+	/**
+	 * Returns the condition of a breakpoint on a line.
+	 * The breakpoint is at LINE_RUN where DE is the number of the line.
+	 * @param number The line number.
+	 * @param condition An additional condition (or empty).
+	 * @returns The condition, e.g. "DE==10" or "DE==10 && (A==0)".
+	 */
+	public static getBreakpointCondition(number: number, condition: string | undefined): string {
+		let result = 'DE==' + number;
+		if (condition)
+			result += ' && (' + condition + ')';
+		return result;
+	}
+}
@@ -0,0 +1,317 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81basicvars.ts
+ * Description:		Decodes and modifies the variables of the BASIC program.
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import {Remote} from '../remotes/remotebase';
+import {Utility} from './utility';
+import {Zx81Charset} from './zx81charset';
+import {Zx81Float} from './zx81float';
+
+
+/**
+ * The types of BASIC variables (the 3 upper bits of the first byte).
+ */
+export type BasicVariableType = 'number' | 'string' | 'numberArray' | 'stringArray' | 'for';
+
+
+/**
+ * A variable of the BASIC program.
+ */
+export interface BasicVariable {
+	// The type of the variable.
+	type: BasicVariableType;
+	// The name, e.g. "A", "TOTAL", "A$".
+	name: string;
+	// The address of the variable (the first letter).
+	address: number;
+	// The size of the variable in bytes.
+	size: number;
+	// The address of the value (number), of the characters (string) or of the elements (arrays).
+	valueAddress: number;
+	// The value (number, string or control variable).
+	value?: number | string;
+	// The dimensions of the arrays.
+	dimensions?: Array<number>;
+	// The elements of the arrays (the rows for the arrays of characters).
+	elements?: Array<number | string>;
+	// The limit, the step and the line of a control variable (FOR).
+	limit?: number;
+	step?: number;
+	line?: number;
+}
+
+
+/**
+ * The variables of the BASIC program, from VARS to E_LINE.
+ * The 3 upper bits of the first byte are the type of the variable,
+ * the 5 lower bits the letter of the name:
+ * - 011: number with a name of one letter: letter, value (5 bytes).
+ * - 101: number with a longer name: letters (the last one has bit 7 set), value (5 bytes).
+ * - 010: string: letter, length (2 bytes), characters.
+ * - 100: array of numbers: letter, length (2 bytes), number of dimensions, dimensions (2 bytes each), elements (5 bytes each).
+ * - 110: array of characters: letter, length (2 bytes), number of dimensions, dimensions (2 bytes each), elements (1 byte each).
+ * - 111: control variable of a FOR loop: letter, value, limit, step (5 bytes each), line number (2 bytes).
+ * 0x80 marks the end of the variables.
+ */
+export class Zx81BasicVars {
+	// The address of the VARS system variable.
+	public static readonly VARS = 0x4010;
+
+	// The address of the E_LINE system variable, the end of the variables.
+	public static readonly E_LINE = 0x4014;
+
+	// The system variables pointing after the variables (DEST, E_LINE, CH_ADD, X_PTR, STKBOT, STKEND).
+	// They are moved when the size of a variable changes.
+	protected static readonly POINTERS = [0x4012, 0x4014, 0x4016, 0x4018, 0x401A, 0x401C];
+
+	// The end of the variables.
+	protected static readonly END = 0x80;
+
+	// The address of the variables.
+	public address: number;
+
+	// The variables.
+	public variables: Array<BasicVariable>;
+
+
+	/**
+	 * Parses the variables.
+	 * @param address The address of the variables (VARS).
+	 * @param memory The memory of the variables, up to E_LINE.
+	 */
+	constructor(address: number, memory: Uint8Array) {
+		this.address = address;
+		this.variables = new Array<BasicVariable>();
+		let offset = 0;
+		while (offset < memory.length && memory[offset] != Zx81BasicVars.END) {
+			const variable = Zx81BasicVars.decodeVariable(memory, offset, address + offset);
+			// Truncated
+			if (offset + variable.size > memory.length)
+				break;
+			this.variables.push(variable);
+			offset += variable.size;
+		}
+	}
+
+
+	/**
+	 * Reads the variables from the Remote.
+	 * @returns A Promise with the variables.
+	 */
+	public static async read(): Promise<Zx81BasicVars> {
+		const pointers = await Remote.readMemoryDump(Zx81BasicVars.VARS, 6);
+		const vars = pointers[0] + 256 * pointers[1];
+		const eline = pointers[4] + 256 * pointers[5];
+		const size = Math.max(0, eline - vars);
+		const memory = await Remote.readMemoryDump(vars, size);
+		return new Zx81BasicVars(vars, memory);
+	}
+
+
+	/**
+	 * Returns a variable.
+	 * @param name The name of the variable, e.g. "A$".
+	 * @param arrays true to search an array.
+	 * @returns The variable or undefined.
+	 */
+	public getVariable(name: string, arrays = false): BasicVariable | undefined {
+		return this.variables.find(v => v.name == name && (v.dimensions != undefined) == arrays);
+	}
+
+
+	/**
+	 * Decodes a variable.
+	 * @param memory The memory of the variables.
+	 * @param offset The offset of the variable.
+	 * @param address The address of the variable.
+	 * @returns The variable.
+	 */
+	protected static decodeVariable(memory: Uint8Array, offset: number, address: number): BasicVariable {
+		const first = memory[offset];
+		const letter = Zx81Charset.toAscii((first & 0x1F) + 0x20);
+		const length = memory[offset + 1] | (memory[offset + 2] << 8);
+		switch (first >> 5) {
+			case 0b011:	// Number, one letter
+				return {
+					type: 'number', name: letter, address, size: 1 + Zx81Float.SIZE, valueAddress: address + 1,
+					value: Zx81Float.read(memory, offset + 1)
+				};
+
+			case 0b101: {	// Number, long name
+				let name = letter;
+				let i = offset + 1;
+				while (i < memory.length) {
+					const code = memory[i++];
+					name += Zx81Charset.toAscii(code & 0x3F);
+					if (code & 0x80)
+						break;
+				}
+				const size = i - offset + Zx81Float.SIZE;
+				return {
+					type: 'number', name, address, size, valueAddress: address + size - Zx81Float.SIZE,
+					value: Zx81Float.read(memory, i)
+				};
+			}
+
+			case 0b010:	// String
+				return {
+					type: 'string', name: letter + '$', address, size: 3 + length, valueAddress: address + 3,
+					value: Zx81BasicVars.decodeString(memory.subarray(offset + 3, offset + 3 + length))
+				};
+
+			case 0b100:	// Array of numbers
+			case 0b110: {	// Array of characters
+				const strings = (first >> 5) == 0b110;
+				const count = memory[offset + 3];
+				const dimensions = new Array<number>();
+				for (let i = 0; i < count; i++)
+					dimensions.push(memory[offset + 4 + 2 * i] | (memory[offset + 5 + 2 * i] << 8));
+				const start = offset + 4 + 2 * count;
+				const elements = new Array<number | string>();
+				if (strings) {
+					// One string per row (the last dimension)
+					const rowLength = dimensions[count - 1] ?? 0;
+					const rows = Zx81BasicVars.getCount(dimensions) / (rowLength || 1);
+					for (let i = 0; i < rows && rowLength > 0; i++) {
+						const rowStart = start + i * rowLength;
+						elements.push(Zx81BasicVars.decodeString(memory.subarray(rowStart, rowStart + rowLength)));
+					}
+				}
+				else {
+					const elementsCount = Zx81BasicVars.getCount(dimensions);
+					for (let i = 0; i < elementsCount && start + (i + 1) * Zx81Float.SIZE <= memory.length; i++)
+						elements.push(Zx81Float.read(memory, start + i * Zx81Float.SIZE));
+				}
+				return {
+					type: strings ? 'stringArray' : 'numberArray', name: letter + (strings ? '$' : ''), address,
+					size: 3 + length, valueAddress: address + 4 + 2 * count, dimensions, elements
+				};
+			}
+
+			case 0b111:	// Control variable of a FOR loop
+				return {
+					type: 'for', name: letter, address, size: 1 + 3 * Zx81Float.SIZE + 2, valueAddress: address + 1,
+					value: Zx81Float.read(memory, offset + 1),
+					limit: Zx81Float.read(memory, offset + 1 + Zx81Float.SIZE),
+					step: Zx81Float.read(memory, offset + 1 + 2 * Zx81Float.SIZE),
+					line: memory[offset + 16] | (memory[offset + 17] << 8)
+				};
+
+			default:
+				throw Error("Unknown BASIC variable at " + Utility.getHexString(address, 4) + "h.");
+		}
+	}
+
+
+	/**
+	 * Returns the number of elements of an array.
+	 * @param dimensions The dimensions of the array.
+	 */
+	public static getCount(dimensions: Array<number>): number {
+		return dimensions.reduce((count, dimension) => count * dimension, 1);
+	}
+
+
+	/**
+	 * Returns the subscripts of an element, e.g. "(1,2)".
+	 * @param dimensions The dimensions of the array.
+	 * @param index The index of the element (the last subscript varies first).
+	 */
+	public static getSubscripts(dimensions: Array<number>, index: number): string {
+		const subscripts = new Array<number>(dimensions.length);
+		for (let i = dimensions.length - 1; i >= 0; i--) {
+			subscripts[i] = (index % dimensions[i]) + 1;
+			index = Math.floor(index / dimensions[i]);
+		}
+		return '(' + subscripts.join(',') + ')';
+	}
+
+
+	/**
+	 * Decodes the characters of a string.
+	 * The characters without ASCII equivalent are shown as \hh.
+	 * @param data The characters.
+	 * @returns The string in ASCII.
+	 */
+	public static decodeString(data: Uint8Array): string {
+		let text = '';
+		for (const code of data) {
+			const ch = Zx81Charset.toAscii(code);
+			text += (Zx81Charset.fromAscii(ch) == code) ? ch : '\\' + Utility.getHexString(code, 2);
+		}
+		return text;
+	}
+
+
+	/**
+	 * Encodes a string.
+	 * The characters without ASCII equivalent can be entered as \hh.
+	 * @param text The string in ASCII.
+	 * @returns The characters of the ZX81.
+	 * Throws an exception if a character does not exist on the ZX81.
+	 */
+	public static encodeString(text: string): Uint8Array {
+		const codes = new Array<number>();
+		for (let i = 0; i < text.length; i++) {
+			const match = /^\\([0-9a-fA-F]{2})/.exec(text.substring(i));
+			if (match) {
+				codes.push(parseInt(match[1], 16));
+				i += 2;
+				continue;
+			}
+			const code = Zx81Charset.fromAscii(text[i].toUpperCase());
+			if (code == undefined)
+				throw Error("The character '" + text[i] + "' does not exist on the ZX81.");
+			codes.push(code);
+		}
+		return new Uint8Array(codes);
+	}
+
+
+	/**
+	 * Changes the value of a string variable.
+	 * If the length changes, the memory after the variable is moved (as the ROM does)
+	 * and the system variables pointing after the variables are updated.
+	 * @param variable The string variable.
+	 * @param codes The new characters.
+	 */
+	public static async writeString(variable: BasicVariable, codes: Uint8Array) {
+		const oldLength = variable.size - 3;
+		const delta = codes.length - oldLength;
+		if (delta == 0) {
+			await Remote.writeMemoryDump(variable.valueAddress, codes);
+			return;
+		}
+
+		// Everything from the end of the variable to STKEND is moved
+		const pointers = await Remote.readMemoryDump(Zx81BasicVars.POINTERS[0], 2 * Zx81BasicVars.POINTERS.length);
+		const stkend = pointers[pointers.length - 2] | (pointers[pointers.length - 1] << 8);
+		const end = variable.address + variable.size;
+		// Keep some room for the machine stack (as the ROM does)
+		if (delta > 0 && stkend + delta + 36 > Remote.getRegisterValue('SP'))
+			throw Error("Not enough memory to change the string.");
+		const after = await Remote.readMemoryDump(end, stkend - end);
+		const data = new Uint8Array(2 + codes.length + after.length);
+		data[0] = codes.length & 0xFF;
+		data[1] = codes.length >> 8;
+		data.set(codes, 2);
+		data.set(after, 2 + codes.length);
+		await Remote.writeMemoryDump(variable.address + 1, data);
+
+		// Update the pointers
+		for (let i = 0; i < Zx81BasicVars.POINTERS.length; i++) {
+			const pointer = pointers[2 * i] | (pointers[2 * i + 1] << 8);
+			if (pointer >= end) {
+				const moved = pointer + delta;
+				pointers[2 * i] = moved & 0xFF;
+				pointers[2 * i + 1] = moved >> 8;
+			}
+		}
+		await Remote.writeMemoryDump(Zx81BasicVars.POINTERS[0], pointers);
+	}
+}
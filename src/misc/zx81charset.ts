@@ -0,0 +1,73 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81charset.ts
+ * Description:		Conversion between the ZX81 character set and ASCII.
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+
+
+/**
+ * The ZX81 character set (64 characters, bit 7 for inverse video).
+ * The graphic characters (1-10) have no ASCII equivalent.
+ */
+export class Zx81Charset {
+	// The ASCII equivalent of the 64 characters. '?' is used for the graphic characters.
+	protected static readonly CHARS = ' ??????????"£$:?()><=+-*/;,.0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+	// The graphic characters (1-10).
+	protected static readonly GRAPHICS_FIRST = 0x01;
+	protected static readonly GRAPHICS_LAST = 0x0A;
+
+
+	/**
+	 * Converts a ZX81 character into ASCII.
+	 * @param code The ZX81 character code (0-63, bit 7 for inverse video is ignored).
+	 * @returns The ASCII character, '?' for the graphic characters and the codes above 63.
+	 */
+	public static toAscii(code: number): string {
+		code &= 0x7F;
+		if (code >= Zx81Charset.CHARS.length)
+			return '?';
+		return Zx81Charset.CHARS[code];
+	}
+
+
+	/**
+	 * Converts an ASCII character into a ZX81 character.
+	 * Lower case letters are converted to upper case.
+	 * @param ch The ASCII character.
+	 * @returns The ZX81 character code or undefined if there is no equivalent.
+	 */
+	public static fromAscii(ch: string): number | undefined {
+		if (ch.length != 1)
+			return undefined;
+		ch = ch.toUpperCase();
+		// lastIndexOf: '?' is also used for the graphic characters
+		const code = Zx81Charset.CHARS.lastIndexOf(ch);
+		if (code < 0 || (code >= Zx81Charset.GRAPHICS_FIRST && code <= Zx81Charset.GRAPHICS_LAST))
+			return undefined;
+		return code;
+	}
+
+
+	/**
+	 * Converts a ZX81 name, i.e. characters with the last one in inverse video.
+	 * @param data The memory.
+	 * @param offset The offset of the name in the memory.
+	 * @returns The name in ASCII and its length in bytes.
+	 */
+	public static decodeName(data: Uint8Array, offset: number): {name: string, length: number} {
+		let name = '';
+		let length = 0;
+		while (offset + length < data.length) {
+			const code = data[offset + length++];
+			name += Zx81Charset.toAscii(code);
+			if (code & 0x80)
+				break;
+		}
+		return {name, length};
+	}
+}
@@ -0,0 +1,133 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81displayfile.ts
+ * Description:		Walks the ZX81 display file (D_FILE), collapsed or not.
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import {Remote} from '../remotes/remotebase';
+
+
+/**
+ * A line of the display file.
+ */
+export interface DisplayFileLine {
+	// The address of the first character of the line (after the HALT).
+	address: number;
+	// The number of characters of the line (0 to 32).
+	length: number;
+}
+
+
+/**
+ * The display file of the ZX81.
+ * It starts with a HALT (NEWLINE, 0x76) and each of the 24 lines is terminated by a HALT.
+ * With 16K or more, all the lines have 32 characters. With less memory (1K, 2K),
+ * the display file is collapsed: the lines are shorter (or even empty).
+ */
+export class Zx81DisplayFile {
+	// The address of the D_FILE system variable.
+	public static readonly D_FILE = 0x400C;
+
+	// The number of lines and columns of the display.
+	public static readonly LINES = 24;
+	public static readonly COLUMNS = 32;
+
+	// The maximum size of the display file (not collapsed).
+	public static readonly MAX_SIZE = 1 + Zx81DisplayFile.LINES * (Zx81DisplayFile.COLUMNS + 1);
+
+	// The HALT (NEWLINE) opcode that terminates each line.
+	public static readonly HALT = 0x76;
+
+	// The address of the display file.
+	public address: number;
+
+	// The content of the display file. Its length is the size of the display file.
+	public data: Uint8Array;
+
+	// The lines of the display file.
+	public lines: Array<DisplayFileLine>;
+
+
+	/**
+	 * Parses the display file.
+	 * @param address The address of the display file (the content of D_FILE).
+	 * @param memory The memory starting at the display file. Should contain at least MAX_SIZE bytes.
+	 */
+	constructor(address: number, memory: Uint8Array) {
+		this.address = address;
+		this.lines = new Array<DisplayFileLine>();
+
+		// Skip the first HALT
+		let offset = (memory[0] == Zx81DisplayFile.HALT) ? 1 : 0;
+		while (this.lines.length < Zx81DisplayFile.LINES && offset < memory.length) {
+			// Search the end of the line, not more than 32 characters
+			let length = 0;
+			while (length < Zx81DisplayFile.COLUMNS && offset + length < memory.length && memory[offset + length] != Zx81DisplayFile.HALT)
+				length++;
+			this.lines.push({address: address + offset, length});
+			offset += length;
+			// Skip the HALT at the end of the line
+			if (memory[offset] == Zx81DisplayFile.HALT)
+				offset++;
+		}
+		this.data = memory.slice(0, offset);
+	}
+
+
+	/**
+	 * Reads the display file from the Remote.
+	 * @returns A Promise with the display file.
+	 */
+	public static async read(): Promise<Zx81DisplayFile> {
+		const dfilePtr = await Remote.readMemoryDump(Zx81DisplayFile.D_FILE, 2);
+		const address = dfilePtr[0] + 256 * dfilePtr[1];
+		const size = Math.min(Zx81DisplayFile.MAX_SIZE, 0x10000 - address);
+		const memory = await Remote.readMemoryDump(address, size);
+		return new Zx81DisplayFile(address, memory);
+	}
+
+
+	/**
+	 * Returns the size of the display file.
+	 */
+	public get size(): number {
+		return this.data.length;
+	}
+
+
+	/**
+	 * Returns true if the display file is collapsed, i.e. some lines have less than 32 characters.
+	 */
+	public isCollapsed(): boolean {
+		return this.lines.some(line => line.length < Zx81DisplayFile.COLUMNS);
+	}
+
+
+	/**
+	 * Returns the line and column of an address.
+	 * @param address An address inside the display file.
+	 * @returns The line and column or undefined if the address is not a character (e.g. a HALT).
+	 */
+	public getPosition(address: number): {line: number, column: number} | undefined {
+		for (let line = 0; line < this.lines.length; line++) {
+			const column = address - this.lines[line].address;
+			if (column >= 0 && column < this.lines[line].length)
+				return {line, column};
+		}
+		return undefined;
+	}
+
+
+	/**
+	 * Returns true if the layout (the lines) of the display files are the same.
+	 * @param other The other display file.
+	 */
+	public sameLayout(other: Zx81DisplayFile | undefined): boolean {
+		if (!other || other.address != this.address || other.lines.length != this.lines.length)
+			return false;
+		return this.lines.every((line, i) => line.length == other.lines[i].length);
+	}
+}
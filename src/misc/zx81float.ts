@@ -0,0 +1,104 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81float.ts
+ * Description:		Floating point numbers of the ZX81 (5 bytes).
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+
+
+/**
+ * The floating point numbers of the ZX81 (used by BASIC and the calculator of the ROM).
+ * 5 bytes: the exponent (+128) then the mantissa (4 bytes, big endian).
+ * The mantissa is between 0.5 and 1: its first bit is always 1 and is replaced by the sign.
+ * 0 is represented by 5 zero bytes.
+ */
+export class Zx81Float {
+	// The size of a number in bytes.
+	public static readonly SIZE = 5;
+
+
+	/**
+	 * Reads a number.
+	 * @param data The memory.
+	 * @param offset The offset of the number in the memory.
+	 * @returns The value.
+	 */
+	public static read(data: Uint8Array, offset = 0): number {
+		const exponent = data[offset];
+		if (exponent == 0)
+			return 0;
+		const negative = (data[offset + 1] & 0x80) != 0;
+		// Restore the first bit of the mantissa
+		const mantissa = ((data[offset + 1] | 0x80) * 0x1000000) + (data[offset + 2] << 16) + (data[offset + 3] << 8) + data[offset + 4];
+		const value = mantissa * Math.pow(2, exponent - 128 - 32);
+		return negative ? -value : value;
+	}
+
+
+	/**
+	 * Encodes a number.
+	 * @param value The value.
+	 * @returns The 5 bytes of the number.
+	 * Throws an exception if the value is too big for the ZX81.
+	 */
+	public static write(value: number): Uint8Array {
+		const data = new Uint8Array(Zx81Float.SIZE);
+		if (!isFinite(value))
+			throw Error("Invalid number: " + value);
+		if (value == 0)
+			return data;
+		const negative = value < 0;
+		value = Math.abs(value);
+		// The mantissa is between 0.5 and 1
+		let exponent = Math.floor(Math.log2(value)) + 1;
+		let mantissa = Math.round(value * Math.pow(2, 32 - exponent));
+		// Rounding errors
+		if (mantissa >= 0x100000000) {
+			mantissa = Math.round(mantissa / 2);
+			exponent++;
+		}
+		else if (mantissa < 0x80000000) {
+			mantissa *= 2;
+			exponent--;
+		}
+		// Too small: 0
+		if (exponent + 128 <= 0)
+			return data;
+		if (exponent + 128 > 0xFF)
+			throw Error("Number too big: " + (negative ? '-' : '') + value);
+		data[0] = exponent + 128;
+		data[1] = ((mantissa >>> 24) & 0x7F) | (negative ? 0x80 : 0);
+		data[2] = (mantissa >>> 16) & 0xFF;
+		data[3] = (mantissa >>> 8) & 0xFF;
+		data[4] = mantissa & 0xFF;
+		return data;
+	}
+
+
+	/**
+	 * Parses a number entered by the user, e.g. "-1.5" or "1E-3".
+	 * @param text The number as text.
+	 * @returns The value.
+	 * Throws an exception if the text is not a number.
+	 */
+	public static parse(text: string): number {
+		const value = Number(text);
+		if (text.trim() == '' || isNaN(value))
+			throw Error("Invalid number: " + text);
+		return value;
+	}
+
+
+	/**
+	 * Formats a number.
+	 * The ZX81 has a precision of 9 to 10 digits.
+	 * @param value The value.
+	 * @returns The number as text, e.g. "3.14159265".
+	 */
+	public static format(value: number): string {
+		return parseFloat(value.toPrecision(9)).toString();
+	}
+}
@@ -0,0 +1,184 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81screenshot.ts
+ * Description:		Screenshot of the ZX81 display file as text or PNG.
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import * as zlib from 'zlib';
+import {Zx81Charset} from './zx81charset';
+import {Zx81DisplayFile} from './zx81displayfile';
+
+
+/**
+ * A screenshot of the display file: 24 lines of 32 characters.
+ * The collapsed lines are completed with spaces.
+ * The pixels come from the character patterns (e.g. of the ROM at 1E00h),
+ * so the hi-res graphics (WRX, UDG) are not supported.
+ */
+export class Zx81Screenshot {
+	// The address of the character patterns of the ROM (64 characters of 8 bytes).
+	public static readonly ROM_CHARSET = 0x1E00;
+
+	// The size of the character patterns.
+	public static readonly CHARSET_SIZE = 64 * 8;
+
+	// The size of the screen in pixels.
+	public static readonly WIDTH = Zx81DisplayFile.COLUMNS * 8;
+	public static readonly HEIGHT = Zx81DisplayFile.LINES * 8;
+
+	// The signature of a PNG file.
+	protected static readonly PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+	// The table for the CRC of the PNG chunks.
+	protected static crcTable: Uint32Array | undefined;
+
+	// The characters (24 lines of 32 characters).
+	public characters: Array<Uint8Array>;
+
+
+	/**
+	 * Constructor.
+	 * @param displayFile The display file.
+	 */
+	constructor(displayFile: Zx81DisplayFile) {
+		this.characters = displayFile.lines.map(line => {
+			const characters = new Uint8Array(Zx81DisplayFile.COLUMNS);
+			const offset = line.address - displayFile.address;
+			characters.set(displayFile.data.subarray(offset, offset + line.length));
+			return characters;
+		});
+		while (this.characters.length < Zx81DisplayFile.LINES)
+			this.characters.push(new Uint8Array(Zx81DisplayFile.COLUMNS));
+	}
+
+
+	/**
+	 * Returns the display as text: one line of 32 characters per line of the display.
+	 * The inverse characters are shown like the normal characters, the graphic characters as '?'.
+	 */
+	public toText(): string {
+		return this.characters.map(line => Array.from(line, code => Zx81Charset.toAscii(code)).join('')).join('\n') + '\n';
+	}
+
+
+	/**
+	 * Returns the pixels of the display (one byte per pixel, 0 = white, 1 = black).
+	 * @param charset The character patterns (CHARSET_SIZE bytes).
+	 */
+	public getPixels(charset: Uint8Array): Uint8Array {
+		const pixels = new Uint8Array(Zx81Screenshot.WIDTH * Zx81Screenshot.HEIGHT);
+		this.characters.forEach((line, y) => {
+			line.forEach((code, x) => {
+				const inverse = (code & 0x80) ? 0xFF : 0;
+				for (let row = 0; row < 8; row++) {
+					const pattern = charset[(code & 0x3F) * 8 + row] ^ inverse;
+					const offset = (y * 8 + row) * Zx81Screenshot.WIDTH + x * 8;
+					for (let bit = 0; bit < 8; bit++)
+						pixels[offset + bit] = (pattern >> (7 - bit)) & 1;
+				}
+			});
+		});
+		return pixels;
+	}
+
+
+	/**
+	 * Returns the display as a PNG image (8 bits grayscale).
+	 * @param charset The character patterns (CHARSET_SIZE bytes).
+	 * @param scale The size of a pixel of the ZX81 in the image.
+	 */
+	public toPng(charset: Uint8Array, scale = 1): Buffer {
+		return Zx81Screenshot.pixelsToPng(this.getPixels(charset), Zx81Screenshot.WIDTH, Zx81Screenshot.HEIGHT, scale);
+	}
+
+
+	/**
+	 * Returns a character as a PNG image (8 bits grayscale),
+	 * e.g. to show the character set of another ROM.
+	 * @param charset The character patterns (CHARSET_SIZE bytes).
+	 * @param code The code of the character (bit 7 = inverse).
+	 * @param scale The size of a pixel of the ZX81 in the image.
+	 */
+	public static characterToPng(charset: Uint8Array, code: number, scale = 1): Buffer {
+		const pixels = new Uint8Array(8 * 8);
+		const inverse = (code & 0x80) ? 0xFF : 0;
+		for (let row = 0; row < 8; row++) {
+			const pattern = charset[(code & 0x3F) * 8 + row] ^ inverse;
+			for (let bit = 0; bit < 8; bit++)
+				pixels[row * 8 + bit] = (pattern >> (7 - bit)) & 1;
+		}
+		return Zx81Screenshot.pixelsToPng(pixels, 8, 8, scale);
+	}
+
+
+	/**
+	 * Returns pixels as a PNG image (8 bits grayscale).
+	 * @param pixels The pixels (one byte per pixel, 0 = white, 1 = black).
+	 * @param pixelsWidth The width of the pixels.
+	 * @param pixelsHeight The height of the pixels.
+	 * @param scale The size of a pixel in the image.
+	 */
+	public static pixelsToPng(pixels: Uint8Array, pixelsWidth: number, pixelsHeight: number, scale = 1): Buffer {
+		const width = pixelsWidth * scale;
+		const height = pixelsHeight * scale;
+		// Each line starts with the filter type (0 = none)
+		const data = Buffer.alloc((width + 1) * height);
+		for (let y = 0; y < height; y++) {
+			const offset = y * (width + 1);
+			for (let x = 0; x < width; x++) {
+				const pixel = pixels[Math.floor(y / scale) * pixelsWidth + Math.floor(x / scale)];
+				data[offset + 1 + x] = pixel ? 0x00 : 0xFF;
+			}
+		}
+		const header = Buffer.alloc(13);
+		header.writeUInt32BE(width, 0);
+		header.writeUInt32BE(height, 4);
+		header[8] = 8;	// Bit depth
+		header[9] = 0;	// Grayscale
+		return Buffer.concat([
+			Buffer.from(Zx81Screenshot.PNG_SIGNATURE),
+			Zx81Screenshot.pngChunk('IHDR', header),
+			Zx81Screenshot.pngChunk('IDAT', zlib.deflateSync(data)),
+			Zx81Screenshot.pngChunk('IEND', Buffer.alloc(0))
+		]);
+	}
+
+
+	/**
+	 * Creates a chunk of a PNG file: length, type, data and CRC (of the type and the data).
+	 * @param type E.g. "IHDR".
+	 * @param data The data.
+	 */
+	protected static pngChunk(type: string, data: Buffer): Buffer {
+		const chunk = Buffer.alloc(12 + data.length);
+		chunk.writeUInt32BE(data.length, 0);
+		chunk.write(type, 4, 'ascii');
+		data.copy(chunk, 8);
+		chunk.writeUInt32BE(Zx81Screenshot.crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+		return chunk;
+	}
+
+
+	/**
+	 * Calculates the CRC-32 of the data.
+	 * @param data The data.
+	 */
+	public static crc32(data: Uint8Array): number {
+		if (!Zx81Screenshot.crcTable) {
+			Zx81Screenshot.crcTable = new Uint32Array(256);
+			for (let n = 0; n < 256; n++) {
+				let c = n;
+				for (let k = 0; k < 8; k++)
+					c = (c & 1) ? (0xEDB88320 ^ (c >>> 1)) : (c >>> 1);
+				Zx81Screenshot.crcTable[n] = c;
+			}
+		}
+		let crc = 0xFFFFFFFF;
+		for (const byte of data)
+			crc = Zx81Screenshot.crcTable[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+		return (crc ^ 0xFFFFFFFF) >>> 0;
+	}
+}
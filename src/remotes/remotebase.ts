@@ -23,6 +23,7 @@ import {Opcode, OpcodeFlag} from '../disassembler/core/opcode';
 import {Disassembly, DisassemblyClass} from '../disassembler/disassembly';
 import {Log} from '../log';
 import { UnifiedPath } from '../misc/unifiedpath';
+import {Zx81Basic} from '../misc/zx81basic';
 
 
 /**
@@ -116,6 +117,9 @@ export class RemoteBase extends EventEmitter {
 	/// true if Remote supports break on interrupt (only zsim does).
 	public supportsBreakOnInterrupt = false;
 
+	/// true if the ROM executes the BASIC lines at Zx81Basic.LINE_RUN (zsim checks its ROM).
+	public supportsBasicBreakpoints = true;
+
 	/// A list for the frames (call stack items). Is cached here.
 	protected listFrames: RefList<CallStackFrame>;
 
@@ -246,17 +250,15 @@ export class RemoteBase extends EventEmitter {
 		if(info.errs.length > 0)
 			return info.errs;
 
-		// Get the base name of the source file
-		const basename = UnifiedPath.basename(Settings.launch.source);
 		// Construct a Uint8Array from the machine code array
 		const binary = Uint8Array.from(info.bytes);
 		// Construct the name of the binary file
-		const binPath = Utility.getAbsFilePath(UnifiedPath.changeExtension(basename, '.P'));
+		const binPath = this.getCompiledFilePath('.P');
 		// Save the binary
 		fs.writeFileSync(binPath, binary);
 	
 		// Construct the name of the SLD file
-		const sldPath = Utility.getAbsFilePath(UnifiedPath.changeExtension(basename, '.sld'));
+		const sldPath = this.getCompiledFilePath('.sld');
 		// Save the SLD file (debugging info)
 		fs.writeFileSync(sldPath, info.sld);
 		
@@ -267,6 +269,17 @@ export class RemoteBase extends EventEmitter {
 	}
 
 
+	/**
+	 * Returns the path of a file created by the compilation of the source file.
+	 * @param extension E.g. '.P' or '.sld'.
+	 * @returns The absolute path, e.g. "/.../main.P" for "main.asm".
+	 */
+	public getCompiledFilePath(extension: string): string {
+		const basename = UnifiedPath.basename(Settings.launch.source);
+		return Utility.getAbsFilePath(UnifiedPath.changeExtension(basename, extension));
+	}
+
+
 	/**
 	 * Loads the executable to debug.
 	 * Do not override.
@@ -1103,13 +1116,29 @@ export class RemoteBase extends EventEmitter {
 
 			// Create new breakpoints
 			const currentBps = new Array<RemoteBreakpoint>();
+			const basicPath = Zx81Basic.getAbsFilePath();
 			givenBps.forEach(bp => {
 				let ebp: RemoteBreakpoint|undefined;
 				let error;
 				// Get PC value of that line
 				let addr = this.getAddrForFileAndLine(path, bp.lineNr);
+				// BASIC program?
+				if (path == basicPath) {
+					// Break when the ROM starts to execute the line
+					const line = Zx81Basic.current?.lines[bp.lineNr];
+					if (!this.supportsBasicBreakpoints) {
+						error = "The BASIC breakpoints are disabled: the ROM is not the ROM of the ZX81 at LINE-RUN.";
+					}
+					else if (line) {
+						const condition = Zx81Basic.getBreakpointCondition(line.number, bp.condition);
+						ebp = {bpId: 0, filePath: path, lineNr: bp.lineNr, address: Zx81Basic.LINE_RUN, condition, log: bp.log};
+					}
+					else {
+						error = "No BASIC line. Please use \"-basic\" to update " + path;
+					}
+				}
 				// Check if valid line
-				if (addr >= 0) {
+				else if (addr >= 0) {
 					// Now search last line with that pc
 					const file = this.getFileAndLineForAddress(addr);
 					// Check if right file
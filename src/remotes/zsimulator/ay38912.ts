@@ -0,0 +1,373 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			ay38912.ts
+ * Description:		Simulation of the sound chip AY-3-8912 of the sound boards (ZonX, Quicksilva).
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import {MemBuffer, Serializable} from '../../misc/membuffer';
+import {SimulatedMemory} from './simulatedmemory';
+import {Z80Ports} from './z80ports';
+
+
+/**
+ * The sound chip AY-3-8912 (3 tone channels, a noise generator and an envelope).
+ * The chip is clocked at half the CPU frequency (1.625 MHz for a ZX81).
+ * It is advanced with the T-states of the CPU and generates the samples
+ * (mono, SAMPLE_RATE, 0 to 1) that are taken by the ZX81 view to be played.
+ * The sound boards select a register and write (or read) it:
+ * - ZonX: OUT (CFh) or OUT (DFh) selects the register, OUT (0Fh) or OUT (1Fh)
+ *   writes it, IN (CFh) or IN (DFh) reads it.
+ * - Quicksilva: memory mapped, a write to 7FFFh selects the register,
+ *   a write to 7FFEh writes it.
+ */
+export class Ay38912 implements Serializable {
+	// The sample rate of the generated sound.
+	public static readonly SAMPLE_RATE = 22050;
+
+	// The names of the registers (R14 and R15 are the I/O ports, not connected).
+	public static readonly REGISTER_NAMES = [
+		"Tone A fine", "Tone A coarse", "Tone B fine", "Tone B coarse", "Tone C fine", "Tone C coarse",
+		"Noise period", "Mixer", "Volume A", "Volume B", "Volume C",
+		"Envelope fine", "Envelope coarse", "Envelope shape"
+	];
+
+	// The bits used by each register.
+	protected static readonly REGISTER_MASKS = [0xFF, 0x0F, 0xFF, 0x0F, 0xFF, 0x0F, 0x1F, 0xFF, 0x1F, 0x1F, 0x1F, 0xFF, 0xFF, 0x0F, 0xFF, 0xFF];
+
+	// The amplitudes of the 16 volumes (logarithmic).
+	protected static readonly VOLUMES = [0, 0.0137, 0.0205, 0.0291, 0.0423, 0.0618, 0.0847, 0.1369,
+		0.1691, 0.2647, 0.3527, 0.4499, 0.5704, 0.6873, 0.8482, 1];
+
+	// The maximum number of samples kept when they are not taken (1 second).
+	protected static readonly MAX_SAMPLES = Ay38912.SAMPLE_RATE;
+
+	// The registers.
+	public registers: Uint8Array;
+
+	// The selected register.
+	public selected: number;
+
+	// The T-states of the CPU for one sample.
+	protected tstatesPerSample: number;
+
+	// The steps of the generators (at 1/8 of the chip clock) for one sample.
+	protected stepsPerSample: number;
+
+	// The T-states not yet converted to samples and the fraction of step not yet done.
+	protected tstates: number;
+	protected stepFraction: number;
+
+	// The tone generators (A, B, C): counters and outputs.
+	protected toneCounters: Array<number>;
+	protected toneOutputs: Array<number>;
+
+	// The noise generator: counter, shift register (17 bits) and output.
+	protected noiseCounter: number;
+	protected noiseShift: number;
+	protected noiseOutput: number;
+
+	// The envelope generator.
+	protected envelopeCounter: number;
+	protected envelopeStep: number;
+	protected envelopeAttack: number;
+	protected envelopeHold: boolean;
+	protected envelopeAlternate: boolean;
+	protected envelopeHolding: boolean;
+
+	// The samples generated and not yet taken (a ring buffer: the oldest are
+	// overwritten if they are not taken) and the index of the next one.
+	protected samples: Float32Array;
+	protected samplesCount: number;
+	protected samplesIndex: number;
+
+
+	/**
+	 * Constructor.
+	 * @param cpuFrequency The CPU frequency (the chip is clocked at half of it).
+	 */
+	constructor(cpuFrequency: number) {
+		this.registers = new Uint8Array(16);
+		this.selected = 0;
+		this.tstatesPerSample = cpuFrequency / Ay38912.SAMPLE_RATE;
+		this.stepsPerSample = cpuFrequency / 2 / 8 / Ay38912.SAMPLE_RATE;
+		this.samples = new Float32Array(Ay38912.MAX_SAMPLES);
+		this.samplesCount = 0;
+		this.samplesIndex = 0;
+		this.resetGenerators();
+	}
+
+
+	/**
+	 * Connects the chip to the ports of the ZonX sound board.
+	 * @param ports The ports.
+	 */
+	public connectZonX(ports: Z80Ports) {
+		ports.registerGenericOutPortFunction((port: number, value: number) => {
+			switch (port & 0xFF) {
+				case 0xCF:
+				case 0xDF:
+					this.selectRegister(value);
+					break;
+				case 0x0F:
+				case 0x1F:
+					this.writeData(value);
+					break;
+			}
+		});
+		ports.registerGenericInPortFunction((port: number) => {
+			const low = port & 0xFF;
+			if (low == 0xCF || low == 0xDF)
+				return this.readData();
+			return undefined;
+		});
+	}
+
+
+	/**
+	 * Connects the chip to the memory (Quicksilva sound board).
+	 * @param memory The memory.
+	 */
+	public connectQuicksilva(memory: SimulatedMemory) {
+		memory.deviceWriteListener = (addr64k: number, value: number) => {
+			if (addr64k == 0x7FFF)
+				this.selectRegister(value);
+			else if (addr64k == 0x7FFE)
+				this.writeData(value);
+		};
+	}
+
+
+	/**
+	 * Selects a register.
+	 * @param value The number of the register (0-15).
+	 */
+	public selectRegister(value: number) {
+		this.selected = value & 0x0F;
+	}
+
+
+	/**
+	 * Writes the selected register.
+	 * @param value The value.
+	 */
+	public writeData(value: number) {
+		this.setRegister(this.selected, value);
+	}
+
+
+	/**
+	 * Reads the selected register.
+	 */
+	public readData(): number {
+		return this.registers[this.selected];
+	}
+
+
+	/**
+	 * Sets a register. Writing the envelope shape restarts the envelope.
+	 * @param index The number of the register (0-15).
+	 * @param value The value (the unused bits are cleared).
+	 */
+	public setRegister(index: number, value: number) {
+		this.registers[index] = value & Ay38912.REGISTER_MASKS[index];
+		if (index == 13)
+			this.startEnvelope();
+	}
+
+
+	/**
+	 * Returns the period of a tone channel.
+	 * @param channel 0 (A), 1 (B) or 2 (C).
+	 */
+	public getTonePeriod(channel: number): number {
+		return this.registers[2 * channel] | (this.registers[2 * channel + 1] << 8);
+	}
+
+
+	/**
+	 * Returns the frequency of a tone channel in Hz.
+	 * @param channel 0 (A), 1 (B) or 2 (C).
+	 */
+	public getToneFrequency(channel: number): number {
+		return Ay38912.SAMPLE_RATE * this.stepsPerSample / 2 / Math.max(1, this.getTonePeriod(channel));
+	}
+
+
+	/**
+	 * Advances the chip. Called after each instruction.
+	 * @param tStates The T-states of the instruction.
+	 */
+	public tick(tStates: number) {
+		this.tstates += tStates;
+		while (this.tstates >= this.tstatesPerSample) {
+			this.tstates -= this.tstatesPerSample;
+			this.generateSample();
+		}
+	}
+
+
+	/**
+	 * Returns the samples generated since the last call.
+	 * @returns The samples (0 to 1) at SAMPLE_RATE.
+	 */
+	public takeSamples(): Float32Array {
+		const samples = new Float32Array(this.samplesCount);
+		const start = this.samplesIndex - this.samplesCount;
+		if (start < 0)
+			samples.set(this.samples.subarray(start + this.samples.length));
+		samples.set(this.samples.subarray(Math.max(start, 0), this.samplesIndex), Math.max(-start, 0));
+		this.samplesCount = 0;
+		return samples;
+	}
+
+
+	/**
+	 * Resets the generators (not the registers).
+	 */
+	protected resetGenerators() {
+		this.tstates = 0;
+		this.stepFraction = 0;
+		this.toneCounters = [0, 0, 0];
+		this.toneOutputs = [0, 0, 0];
+		this.noiseCounter = 0;
+		this.noiseShift = 1;
+		this.noiseOutput = 0;
+		this.envelopeCounter = 0;
+		this.startEnvelope();
+	}
+
+
+	/**
+	 * Starts the envelope with the shape of register 13.
+	 */
+	protected startEnvelope() {
+		const shape = this.registers[13];
+		this.envelopeAttack = (shape & 0x04) ? 0x0F : 0;
+		if (shape & 0x08) {
+			this.envelopeHold = (shape & 0x01) != 0;
+			this.envelopeAlternate = (shape & 0x02) != 0;
+		}
+		else {
+			// Shapes 0-7: one cycle, then 0
+			this.envelopeHold = true;
+			this.envelopeAlternate = (this.envelopeAttack != 0);
+		}
+		this.envelopeStep = 0x0F;
+		this.envelopeHolding = false;
+	}
+
+
+	/**
+	 * Moves the envelope to the next step.
+	 */
+	protected stepEnvelope() {
+		if (this.envelopeHolding)
+			return;
+		this.envelopeStep--;
+		if (this.envelopeStep < 0) {
+			if (this.envelopeHold) {
+				if (this.envelopeAlternate)
+					this.envelopeAttack ^= 0x0F;
+				this.envelopeHolding = true;
+				this.envelopeStep = 0;
+			}
+			else {
+				if (this.envelopeAlternate)
+					this.envelopeAttack ^= 0x0F;
+				this.envelopeStep = 0x0F;
+			}
+		}
+	}
+
+
+	/**
+	 * Generates one sample: the average of the output during the sample.
+	 */
+	protected generateSample() {
+		const regs = this.registers;
+		this.stepFraction += this.stepsPerSample;
+		const steps = Math.floor(this.stepFraction);
+		this.stepFraction -= steps;
+
+		const mixer = regs[7];
+		// A tone period of 0 is like 1, the noise counts at half the rate of the tones
+		// and the envelope at 1/32.
+		const noisePeriod = 2 * Math.max(1, regs[6]);
+		const envelopePeriod = 32 * Math.max(1, regs[11] | (regs[12] << 8));
+		let sum = 0;
+		for (let step = 0; step < steps; step++) {
+			for (let channel = 0; channel < 3; channel++) {
+				if (++this.toneCounters[channel] >= Math.max(1, this.getTonePeriod(channel))) {
+					this.toneCounters[channel] = 0;
+					this.toneOutputs[channel] ^= 1;
+				}
+			}
+			if (++this.noiseCounter >= noisePeriod) {
+				this.noiseCounter = 0;
+				if ((this.noiseShift + 1) & 0x02)
+					this.noiseOutput ^= 1;
+				if (this.noiseShift & 0x01)
+					this.noiseShift ^= 0x24000;
+				this.noiseShift >>= 1;
+			}
+			if (++this.envelopeCounter >= envelopePeriod) {
+				this.envelopeCounter = 0;
+				this.stepEnvelope();
+			}
+
+			// Mix: a channel is on if its tone (or the disabled tone) and its noise (or the disabled noise) are on
+			const envelopeVolume = this.envelopeStep ^ this.envelopeAttack;
+			for (let channel = 0; channel < 3; channel++) {
+				const tone = this.toneOutputs[channel] | ((mixer >> channel) & 0x01);
+				const noise = this.noiseOutput | ((mixer >> (channel + 3)) & 0x01);
+				if (tone & noise) {
+					const volume = regs[8 + channel];
+					sum += Ay38912.VOLUMES[(volume & 0x10) ? envelopeVolume : (volume & 0x0F)];
+				}
+			}
+		}
+
+		// Keep the last second if the samples are not taken
+		this.samples[this.samplesIndex] = (steps > 0) ? sum / (3 * steps) : 0;
+		this.samplesIndex = (this.samplesIndex + 1) % Ay38912.MAX_SAMPLES;
+		if (this.samplesCount < Ay38912.MAX_SAMPLES)
+			this.samplesCount++;
+	}
+
+
+	/**
+	 * Returns the size the serialized object would consume.
+	 */
+	public getSerializedSize(): number {
+		// Create a MemBuffer to calculate the size.
+		const memBuffer = new MemBuffer();
+		// Serialize object to obtain size
+		this.serialize(memBuffer);
+		// Get size
+		const size = memBuffer.getSize();
+		return size;
+	}
+
+
+	/**
+	 * Serializes the object: the registers.
+	 */
+	public serialize(memBuffer: MemBuffer) {
+		memBuffer.writeArrayBuffer(this.registers.buffer as ArrayBuffer);
+		memBuffer.write8(this.selected);
+	}
+
+
+	/**
+	 * Deserializes the object. The generators restart.
+	 */
+	public deserialize(memBuffer: MemBuffer) {
+		this.registers.set(memBuffer.readArrayBuffer());
+		this.selected = memBuffer.read8();
+		this.resetGenerators();
+		this.samplesCount = 0;
+	}
+}
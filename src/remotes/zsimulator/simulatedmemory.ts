@@ -50,13 +50,89 @@ export class SimulatedMemory implements Serializable {
 	// Note: as watchpoints are areas, several addresses might share the same SimWatchpoint.
 	protected watchPointMemory: Array<SimWatchpoint>;
 
+	// The size of the ROM.
+	protected static readonly ROM_SIZE = 0x2000;
+
+	// The size of a page of the memory map.
+	protected static readonly PAGE_SIZE = 0x400;
+
+	// For each 1K page of the address space, the address of the page in 'memory'.
+	// Not all the address lines are decoded, so the ROM and the RAM are mirrored.
+	protected pageAddresses: Array<number>;
+
+	// For each 1K page of the address space, true if the page can be written by the CPU (RAM).
+	protected pageWritable: Array<boolean>;
+
+	// If set, called for each byte changed by the CPU or by writeBlock (e.g. the LOAD trap, LAST_K or the debugger),
+	// e.g. to record the history for reverse debugging.
+	public writeListener: ((addr64k: number, oldValue: number, newValue: number) => void) | undefined;
+
+	// If set, called for each byte written by the CPU, e.g. for the memory mapped devices (Quicksilva sound board).
+	public deviceWriteListener: ((addr64k: number, value: number) => void) | undefined;
+
 	/**
 	 * Constructor.
+	 * @param memoryModel The memory model, i.e. the size of the RAM in K:
+	 * - 1, 2, 16: the ROM is selected by A14 low, the RAM by A14 high. I.e. the ROM is
+	 *   mirrored at 8K, 32K and 40K and the RAM is mirrored up to 16K and at 48K.
+	 * - 32: RAM from 16K to 48K, mirrored at 48K.
+	 * - 56: RAM from 8K to 64K.
+	 * - 0 (default): no memory model, the memory is flat and everything above the ROM is RAM.
+	 * @param ram8K true to add RAM from 8K to 16K (in place of the ROM mirror), e.g. for a UDG board.
+	 * @param romPath The ROM file (up to 8K). Throws an exception if it does not exist or is too big.
+	 * By default the ROM of the ZX81 (if it exists).
 	 */
-	constructor() {
+	constructor(memoryModel = 0, ram8K = false, romPath?: string) {
 		this.memory = new Uint8Array(64 * 1024);
-		const romData = this.readRomFile(Utility.getExtensionPath() + '/data/zx81.rom');
-		if(romData) this.memory.set(romData);
+		const romData = this.readRomFile(romPath ?? Utility.getExtensionPath() + '/data/zx81.rom');
+		if (romData) {
+			if (romPath && romData.length > SimulatedMemory.ROM_SIZE)
+				throw Error("The ROM file '" + romPath + "' is bigger than 8K.");
+			this.memory.set(romData);
+		}
+		else if (romPath)
+			throw Error("The ROM file '" + romPath + "' does not exist.");
+
+		// Memory map
+		const pageCount = 0x10000 / SimulatedMemory.PAGE_SIZE;
+		this.pageAddresses = new Array<number>(pageCount);
+		this.pageWritable = new Array<boolean>(pageCount);
+		for (let page = 0; page < pageCount; page++) {
+			const address = page * SimulatedMemory.PAGE_SIZE;
+			const rom = address & (SimulatedMemory.ROM_SIZE - 1);
+			switch (memoryModel) {
+				case 0:
+					this.setPage(page, address, address >= SimulatedMemory.ROM_SIZE);
+					break;
+				case 1:
+				case 2:
+				case 16:
+					if (address & 0x4000)
+						this.setPage(page, 0x4000 | (address & (memoryModel * 1024 - 1)), true);
+					else
+						this.setPage(page, rom, false);
+					break;
+				case 32:
+					if (address < 0x4000)
+						this.setPage(page, rom, false);
+					else if (address < 0xC000)
+						this.setPage(page, address, true);
+					else
+						this.setPage(page, address - 0x8000, true);
+					break;
+				case 56:
+					if (address < SimulatedMemory.ROM_SIZE)
+						this.setPage(page, rom, false);
+					else
+						this.setPage(page, address, true);
+					break;
+				default:
+					throw Error("Memory model " + memoryModel + "K not supported.");
+			}
+			// RAM at 8K (and its mirror at 40K if the ROM is mirrored there)
+			if (ram8K && (address & 0x6000) == 0x2000 && !this.pageWritable[page])
+				this.setPage(page, 0x2000 | (address & 0x1FFF), true);
+		}
 
 		// Breakpoints
 		this.clearHit();
@@ -153,6 +229,39 @@ export class SimulatedMemory implements Serializable {
 	}
 
 
+	/**
+	 * Sets a page of the memory map.
+	 * @param page The page (0-63).
+	 * @param address The address of the page in 'memory'.
+	 * @param writable true for RAM.
+	 */
+	protected setPage(page: number, address: number, writable: boolean) {
+		this.pageAddresses[page] = address;
+		this.pageWritable[page] = writable;
+	}
+
+
+	/**
+	 * Returns the address that is really accessed.
+	 * E.g. with 1K of RAM, 0x4400 is the same as 0x4000.
+	 * @param addr64k The 64k address.
+	 * @returns The address in this.memory.
+	 */
+	protected mapAddress(addr64k: number): number {
+		const page = addr64k >> 10;
+		return this.pageAddresses[page] | (addr64k & (SimulatedMemory.PAGE_SIZE - 1));
+	}
+
+
+	/**
+	 * Returns true if the CPU can write at the address (i.e. RAM).
+	 * @param addr64k The 64k address.
+	 */
+	public isWritable(addr64k: number): boolean {
+		return this.pageWritable[addr64k >> 10];
+	}
+
+
 	// Read 1 byte.
 	// This is used by the Z80 CPU.
 	// Note: no special check is done reading UNUSED memory. As this cannot be
@@ -170,7 +279,7 @@ export class SimulatedMemory implements Serializable {
 		}
 
 		// Read
-		return this.memory[addr64k];
+		return this.memory[this.mapAddress(addr64k)];
 	}
 
 	// Write 1 byte.
@@ -187,9 +296,17 @@ export class SimulatedMemory implements Serializable {
 			}
 		}
 
+		// Memory mapped devices
+		this.deviceWriteListener?.(addr64k, val);
+
 		// Don't write if non-writable, e.g. ROM
-		if(addr64k >= 0x2000)
-			this.memory[addr64k] = val;
+		if(this.pageWritable[addr64k >> 10]) {
+			const index = this.mapAddress(addr64k);
+			const oldValue = this.memory[index];
+			if (this.writeListener && oldValue != val)
+				this.writeListener(addr64k, oldValue, val);
+			this.memory[index] = val;
+		}
 	}
 
 	// Reads a value from the memory. Value can span over several bytes.
@@ -204,7 +321,7 @@ export class SimulatedMemory implements Serializable {
 
 		for (let i = size; i > 0; i--) {
 			// Read
-			const val8 = this.memory[addr64k];
+			const val8 = this.memory[this.mapAddress(addr64k)];
 			// Store
 			value += val8 * shift;
 			// Next
@@ -251,7 +368,8 @@ export class SimulatedMemory implements Serializable {
 	 */
 	public readBlock(startAddr64k: number, size: number): Uint8Array {
 		const data = new Uint8Array(size);
-		data.set(this.memory.slice(startAddr64k, startAddr64k + size));
+		for (let i = 0; i < size; i++)
+			data[i] = this.memory[this.mapAddress((startAddr64k + i) & 0xFFFF)];
 		return data;
 	}
 
@@ -264,8 +382,16 @@ export class SimulatedMemory implements Serializable {
 	public writeBlock(startAddr64k: number, data: Buffer | Uint8Array) {
 		if (!(data instanceof Uint8Array))
 			data = new Uint8Array(data);
-		
-		this.memory.set(data, startAddr64k);
+
+		// Note: the ROM can also be written (not by the CPU), e.g. to patch it.
+		for (let i = 0; i < data.length; i++) {
+			const addr64k = (startAddr64k + i) & 0xFFFF;
+			const index = this.mapAddress(addr64k);
+			const oldValue = this.memory[index];
+			if (this.writeListener && oldValue != data[i])
+				this.writeListener(addr64k, oldValue, data[i]);
+			this.memory[index] = data[i];
+		}
 	}
 
 	/**
@@ -276,6 +402,6 @@ export class SimulatedMemory implements Serializable {
 	protected readRomFile(filePath: string): Uint8Array | null {
 		if(!fs.statSync(filePath, {throwIfNoEntry: false})) return null;
 		const romBuffer = fs.readFileSync(filePath);
-		return new Uint8Array(romBuffer.buffer);
+		return new Uint8Array(romBuffer);
 	}
 }
@@ -14,6 +14,7 @@ import {MemBuffer, Serializable} from '../../misc/membuffer'
 import {Settings} from '../../settings/settings';
 import * as Z80 from '../../3rdparty/z80.js/Z80.js';
 import {SimulatedMemory} from './simulatedmemory';
+import {Zx81Ula} from './zx81ula';
 
 
 /**
@@ -27,13 +28,13 @@ export class Z80Cpu implements Serializable {
 	// Time until next interrupt.
 	protected remainingInterruptTstates: number;
 
-	// Time for interrupt in T-States
+	// Time for interrupt in T-States. With the ULA, the length of a frame.
 	protected INTERRUPT_TIME_AS_T_STATES: number;
 
 	// For calculation of the CPU load.
-	// Summarizes all instruction besides HALT.
+	// Summarizes all instruction besides HALT (and, with the ULA, besides the display).
 	protected cpuLoadTstates: number;
-	// Summarizes all instruction including HALT.
+	// Summarizes all instruction including HALT and the wait states.
 	public cpuWithHaltTstates: number;
 	// cpuLoadTstates divided by cpuTotalTstates.
 	public cpuLoad: number;
@@ -50,6 +51,11 @@ export class Z80Cpu implements Serializable {
 	// Set to true if a ZX81 like interrupt should be generated.
 	protected vsyncInterrupt: boolean;
 
+	// The SP after the NMI (i.e. with the return address on the stack) while the NMI
+	// routine (and the display in SLOW mode) is executed. undefined otherwise.
+	// The NMI routine is finished when the return address is popped.
+	protected nmiSp: number | undefined;
+
 	// At the moment just a constant. CPU frequency.
 	public cpuFreq: number;
 
@@ -59,6 +65,9 @@ export class Z80Cpu implements Serializable {
 	// Ports
 	public ports: Z80Ports;
 
+	// The ULA generating the display (NMI, display file execution). Optional.
+	public ula: Zx81Ula | undefined;
+
 	// Used to indicate an error in peripherals, i.e. an error in the custom javascript code.
 	// Will make the program break.
 	// undefined = no error
@@ -74,14 +83,19 @@ export class Z80Cpu implements Serializable {
 	 * @param ports The Z80 ports.
 	 * @param vertInterruptFunc An optional function that is called on a vertical interrupt.
 	 * Can be used by the caller to sync the display.
+	 * @param ula An optional ULA. If given, the NMI, the maskable interrupt (R register)
+	 * and the execution of the display file are simulated as on a real ZX81.
 	 */
-	constructor(memory: SimulatedMemory, ports: Z80Ports, vertInterruptFunc = () => {}) {
+	constructor(memory: SimulatedMemory, ports: Z80Ports, vertInterruptFunc = () => {}, ula?: Zx81Ula) {
 		this.vertInterruptFunc = vertInterruptFunc;
 		this.error = undefined;
 		this.memory = memory;
 		this.ports = ports;
+		this.ula = ula;
 		this.cpuFreq = Settings.launch.zsim.cpuFrequency;	// e.g. 3250000.0 for 3.25MHz.
-		this.INTERRUPT_TIME_AS_T_STATES = 0.02 * this.cpuFreq;  // 20ms * 3.25 MHz
+		// With the ULA, a frame is made of scan lines, otherwise 20ms (PAL) or 16.7ms (NTSC) * 3.25 MHz
+		const frameTime = (Settings.launch.zsim.region == 'NTSC') ? 1 / 60 : 1 / 50;
+		this.INTERRUPT_TIME_AS_T_STATES = ula ? ula.getFrameTstates() : frameTime * this.cpuFreq;
 		this.remainingInterruptTstates = this.INTERRUPT_TIME_AS_T_STATES;
 		/*
 		IM 0: Executes an instruction that is placed on the data bus by a peripheral.
@@ -95,10 +109,12 @@ export class Z80Cpu implements Serializable {
 		this.cpuLoadRangeCounter = 0;
 		this.cpuLoadRange = Settings.launch.zsim.cpuLoadInterruptRange;
 		this.vsyncInterrupt = Settings.launch.zsim.vsyncInterrupt;
+		this.nmiSp = undefined;
 
 		// Initialize Z80, call constructor
 		this.z80 = new (Z80.Z80 as any)({
 			mem_read: (address) => {return memory.read8(address);},
+			m1_read: ula ? (address) => {return ula.m1Read(address, this.getRefreshAddress());} : undefined,
 			mem_write: (address, val) => {
 				memory.write8(address, val);
 			},
@@ -133,18 +149,32 @@ export class Z80Cpu implements Serializable {
 	 * The return value is used for regularly updating the ZSimulationView.
 	 * And this is required even if interrupts are off. Or even if
 	 * there is only Z80 simulation without ZX81.
+	 * With the ULA, the T-states include the wait states and the time spent
+	 * for the display is not counted in the CPU load.
 	 */
 	public execute(): number {
 		const z80 = this.z80;
+		const ula = this.ula;
+		const inNmi = (this.nmiSp != undefined);
 
 		// Handle instruction
-		const tStates = z80.run_instruction();
+		let tStates = z80.run_instruction();
 		let accumulatedTstates = tStates;
 
 		// Statistics
 		if (z80.halted) {
 			// HALT instruction
-			if (z80.interruptsEnabled && this.vsyncInterrupt) {
+			if (ula) {
+				// The ZX81 relies on the fact that HALT executes NOPs (and increments R)
+				// until an interrupt: the NMI in SLOW mode or the maskable interrupt
+				// at the end of each line of the display.
+				if (tStates == 1) {
+					tStates = 4;
+					accumulatedTstates = 4;
+					z80.r = (z80.r & 0x80) | ((z80.r + 1) & 0x7F);
+				}
+			}
+			else if (z80.interruptsEnabled && this.vsyncInterrupt) {
 				// HALT instructions are treated specially:
 				// If a HALT is found the t-states to the next interrupt are calculated.
 				// The t-states are added and the interrupt is executed immediately.
@@ -158,8 +188,8 @@ export class Z80Cpu implements Serializable {
 				this.cpuLoadTstates += tStates;
 			}
 		}
-		else {
-			// No HALT: Count everything besides the HALT instruction and add to cpu-load.
+		else if (!inNmi) {
+			// No HALT: Count everything besides the HALT instruction and the display and add to cpu-load.
 			this.cpuLoadTstates += tStates;
 		}
 
@@ -167,16 +197,47 @@ export class Z80Cpu implements Serializable {
 			this.error = `Stack underflow, SP: ${this.sp}`;
 		}
 
+		if (ula) {
+			// End of the NMI routine (and of the display)?
+			if (inNmi && z80.sp > this.nmiSp!)
+				this.nmiSp = undefined;
+			// Horizontal sync: NMI if the NMI generator is on (SLOW mode)
+			if (ula.tick(accumulatedTstates)) {
+				// WAIT: if the CPU is not halted, it waits until the end of the NMI pulse
+				if (!z80.halted) {
+					const waitTstates = ula.getNmiWaitTstates();
+					ula.tick(waitTstates);
+					accumulatedTstates += waitTstates;
+				}
+				z80.interrupt(true, 0);
+				if (this.nmiSp == undefined)
+					this.nmiSp = z80.sp;
+			}
+			// A6 low during the refresh triggers the maskable interrupt.
+			// Used by the ROM to count the scan lines while the display file is executed.
+			// Note: the refresh address is the value of R before its increment.
+			if (((z80.r - 1) & 0x40) == 0 && z80.interruptsEnabled) {
+				z80.interrupt(false, 0xFF);
+				ula.interruptAcknowledge();
+			}
+		}
+
 		// Add t-states
 		this.cpuTstatesCounter += accumulatedTstates;
 		this.cpuWithHaltTstates += accumulatedTstates;
+
 		// Interrupt
-		this.remainingInterruptTstates -= tStates;
+		this.remainingInterruptTstates -= accumulatedTstates;
 		if (this.remainingInterruptTstates <= 0) {
 			// Interrupt
 			this.remainingInterruptTstates = this.INTERRUPT_TIME_AS_T_STATES;
+			// Is the display generated by the program (or the ROM) itself?
+			if (ula?.checkVsync()) {
+				// Yes, the vertical sync is generated by the ULA, only update the statistics
+				this.updateCpuLoad();
+			}
 			// Really generate interrupt?
-			if (this.vsyncInterrupt) {
+			else if (this.vsyncInterrupt) {
 				// Inform e.g. ZSimulationView about interrupt, for synching of the display
 				this.vertInterruptFunc();
 				// And generate
@@ -222,6 +283,14 @@ export class Z80Cpu implements Serializable {
 		r.l = value & 0xFF;
 		this.z80.setState(r);
 	}
+	get de() {
+		const r = this.z80.getState();
+		return (r.d << 8) | r.e;
+	}
+	get hl() {
+		const r = this.z80.getState();
+		return (r.h << 8) | r.l;
+	}
 
 	set ix(value) {
 		const r = this.z80.getState();
@@ -361,6 +430,14 @@ export class Z80Cpu implements Serializable {
 	public generateInterrupt(non_maskable: boolean, data: number) {
 		this.z80.interrupt(non_maskable, data);
 		// Measure CPU load
+		this.updateCpuLoad();
+	}
+
+
+	/**
+	 * Measures the CPU load. Called once per frame.
+	 */
+	protected updateCpuLoad() {
 		this.cpuLoadRangeCounter++;
 		if (this.cpuLoadRangeCounter >= this.cpuLoadRange) {
 			if (this.cpuWithHaltTstates > 0) {
@@ -373,6 +450,17 @@ export class Z80Cpu implements Serializable {
 	}
 
 
+	/**
+	 * Returns the refresh address of the current M1 cycle: I (high byte) and R (low byte).
+	 * Note: R is already incremented when the opcode is read, the refresh address is the
+	 * value before the increment.
+	 */
+	protected getRefreshAddress(): number {
+		const r = this.z80.r;
+		return (this.z80.i << 8) | (r & 0x80) | ((r - 1) & 0x7F);
+	}
+
+
 	/**
 	 * Converts the Z80 flags object into a number.
 	 */
@@ -620,6 +708,7 @@ export class Z80Cpu implements Serializable {
 		this.cpuTstatesCounter = memBuffer.readNumber();
 
 		// Reset statistics
+		this.nmiSp = undefined;
 		this.cpuLoadTstates = 0;
 		this.cpuWithHaltTstates = 0;
 		this.cpuLoad = 1.0;	// Start with full load
@@ -20,6 +20,9 @@ export class Z80Ports {
 	protected genericOutPortFuncs: Array<(port: number, value: number) => void>;
 	protected genericInPortFuncs: Array<(port: number) => (number|undefined)>;
 
+	// Functions that can modify the value read from a port, e.g. the EAR input (tape).
+	protected inPortFilterFuncs: Array<(port: number, value: number) => number>;
+
 	// It is possible to add behavior when writing to a specific port.
 	// This map maps port addresses to functions that are executed on a port write.
 	// If no function is mapped the value is send to 'generalOutPortFunc'.
@@ -38,6 +41,7 @@ export class Z80Ports {
 		this.defaultPortIn = defaultPortIn;
 		this.genericOutPortFuncs = [];
 		this.genericInPortFuncs = [];
+		this.inPortFilterFuncs = [];
 		this.outPortMap = new Map<number, (port: number, value: number) => void>();
 		this.inPortMap = new Map<number, (port: number) => number>();
 	}
@@ -65,6 +69,17 @@ export class Z80Ports {
 	}
 
 
+	/**
+	 * Registers a function that can modify the value read from any port,
+	 * e.g. to set the bit of the EAR input (tape).
+	 * The functions are called after the value has been read.
+	 * @param func The function to execute if a port is read. Returns the modified value.
+	 */
+	public registerInPortFilterFunction(func: (port: number, value: number) => number) {
+		this.inPortFilterFuncs.push(func);
+	}
+
+
 	/**
 	 * Registers a function for a write to a specific port address.
 	 * @param port The port address
@@ -115,6 +130,10 @@ export class Z80Ports {
 		// Otherwise return default
 		if (value == undefined)
 			value = this.defaultPortIn;
+
+		// Modify the value, e.g. the EAR input
+		for (const func of this.inPortFilterFuncs)
+			value = func(port, value);
 		return value;
 	}
 
@@ -11,6 +11,7 @@
 import {CpuHistoryClass} from '../cpuhistory';
 import {HistoryInstructionInfo} from '../decodehistinfo';
 import {Settings} from '../../settings/settings';
+import {SimulatedMemory} from './simulatedmemory';
 
 
 /**
@@ -31,19 +32,110 @@ import {Settings} from '../../settings/settings';
  * if history-buffer > maxSize:
  * |-----|------------|-------------------------|
  * 0     h.Index      h.writeIndex    h.length=maxSize
+ *
+ * The memory writes of each instruction are recorded alongside the history
+ * (memoryDeltas, same indices). They are undone when stepping back and redone
+ * when stepping forward, so the memory is the one of the history position.
+ * The writes that are not done by the CPU (e.g. the LOAD trap, LAST_K or
+ * the debugger) are recorded with the last instruction. A write while stepping
+ * back can't be redone over: the history is dropped and the memory goes back to the present.
  */
 export class ZSimCpuHistory extends CpuHistoryClass {
 
-	// The write index.
-	protected historyWriteIndex: number;
+	// The write index. -1 until the history is initialized
+	// (the memory is written before, e.g. the top of the stack).
+	protected historyWriteIndex = -1;
+
+	// The memory of the simulator (to undo and redo the writes).
+	protected memory: SimulatedMemory | undefined;
+
+	// For each history element, the bytes written by the instruction:
+	// address, previous value and new value (3 numbers per byte).
+	// undefined if the instruction did not write into the memory.
+	protected memoryDeltas: Array<Array<number> | undefined>;
+
+	// true while the writes are undone or redone (they are not recorded).
+	protected restoring = false;
 
 
 	/**
 	 * Init.
 	 */
 	public init() {
+		// Go back to the present memory if in step back mode
+		if (this.memoryDeltas)
+			this.clear();
 		super.init();
 		this.historyWriteIndex = -1;
+		this.memoryDeltas = new Array<Array<number> | undefined>();
+	}
+
+
+	/**
+	 * Records the writes into the memory.
+	 * @param memory The memory of the simulator.
+	 */
+	public attachMemory(memory: SimulatedMemory) {
+		this.memory = memory;
+		memory.writeListener = (addr64k: number, oldValue: number, newValue: number) => this.recordMemoryWrite(addr64k, oldValue, newValue);
+	}
+
+
+	/**
+	 * Records a write into the memory.
+	 * The write belongs to the last pushed history element, i.e. the instruction being executed.
+	 * @param addr64k The address.
+	 * @param oldValue The previous value.
+	 * @param newValue The written value.
+	 */
+	public recordMemoryWrite(addr64k: number, oldValue: number, newValue: number) {
+		if (this.restoring)
+			return;
+		const index = this.historyWriteIndex;
+		if (index < 0)
+			return;
+		if (this.historyIndex >= 0) {
+			// Written while stepping back (e.g. in a memory view)
+			this.init();
+			return;
+		}
+		let deltas = this.memoryDeltas[index];
+		if (!deltas) {
+			deltas = new Array<number>();
+			this.memoryDeltas[index] = deltas;
+		}
+		deltas.push(addr64k, oldValue, newValue);
+	}
+
+
+	/**
+	 * Restores the memory as it was before the instruction of a history element.
+	 * @param index The index of the history element.
+	 */
+	protected undoMemoryWrites(index: number) {
+		const deltas = this.memoryDeltas[index];
+		if (!deltas || !this.memory)
+			return;
+		// In reverse order
+		this.restoring = true;
+		for (let i = deltas.length - 3; i >= 0; i -= 3)
+			this.memory.writeBlock(deltas[i], new Uint8Array([deltas[i + 1]]));
+		this.restoring = false;
+	}
+
+
+	/**
+	 * Writes again into the memory what the instruction of a history element wrote.
+	 * @param index The index of the history element.
+	 */
+	protected redoMemoryWrites(index: number) {
+		const deltas = this.memoryDeltas[index];
+		if (!deltas || !this.memory)
+			return;
+		this.restoring = true;
+		for (let i = 0; i < deltas.length; i += 3)
+			this.memory.writeBlock(deltas[i], new Uint8Array([deltas[i + 2]]));
+		this.restoring = false;
 	}
 
 
@@ -51,6 +143,9 @@ export class ZSimCpuHistory extends CpuHistoryClass {
 	 * The internal simulator (because it's internal) has a special way to store the history.
 	 */
 	public clear() {
+		// Go back to the present memory
+		while (this.historyIndex >= 0)
+			this.getNextRegisters();
 		//(async () => {
 		this.historyIndex = -1;
 		if(this.revDbgHistory)
@@ -79,6 +174,7 @@ export class ZSimCpuHistory extends CpuHistoryClass {
 				return undefined;
 		}
 		this.historyIndex = index;
+		this.undoMemoryWrites(index);
 		const regs = this.history[index];
 		return regs;
 	}
@@ -90,6 +186,8 @@ export class ZSimCpuHistory extends CpuHistoryClass {
 	 */
 	public getNextRegisters(): HistoryInstructionInfo | undefined {
 		let index = this.historyIndex;
+		if (index >= 0)
+			this.redoMemoryWrites(index);
 		if (index == this.historyWriteIndex) {
 			this.historyIndex = -1;
 			return undefined;
@@ -128,10 +226,12 @@ export class ZSimCpuHistory extends CpuHistoryClass {
 			// Copy object deep, overwrite oldObj
 			const oldObj: Uint16Array = this.history[index];
 			oldObj.set(line);
+			this.memoryDeltas[index] = undefined;
 		}
 		else {
 			// Not yet reached, so grow the array
 			this.history.push(line);
+			this.memoryDeltas.push(undefined);
 			this.historyWriteIndex++;
 		}
 	}
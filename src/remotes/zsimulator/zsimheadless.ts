@@ -0,0 +1,151 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zsimheadless.ts
+ * Description:		Runs the simulator without a debug session (unit tests, command line).
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import {CompilationError} from '@andrivet/z80-assembler';
+import {Utility} from '../../misc/utility';
+import {CpuHistoryClass} from '../cpuhistory';
+import {Remote} from '../remotebase';
+import {RemoteFactory} from '../remotefactory';
+import {Z80RegistersClass} from '../z80registers';
+import {Settings, SettingsParameters} from '../../settings/settings';
+import {ZSimRemote} from './zsimremote';
+
+
+/**
+ * The simulator without the debug adapter and without vscode.
+ * Does what the debug adapter does at the launch: settings, compilation,
+ * labels, WPMEM and ASSERTIONs.
+ * The simulator, the settings and the labels are global (Remote, Settings, Labels),
+ * so only one simulator can be used at a time and not during a debug session.
+ */
+export class ZSimHeadless {
+	// Called with the text of the logpoints and warnings of the simulator.
+	public output: ((text: string) => void) | undefined;
+
+	// Why the simulator was stopped (see 'stop'), undefined if it was not.
+	public stopReason: string | undefined;
+
+
+	/**
+	 * Initializes the settings from a configuration (launch.json).
+	 * The simulator is always used and the reverse debugging, the code coverage,
+	 * the timeline and the speed limit are disabled to run as fast as possible.
+	 * @param configuration The configuration.
+	 * Throws an exception if the settings are wrong.
+	 */
+	public static initSettings(configuration: SettingsParameters) {
+		configuration = JSON.parse(JSON.stringify(configuration));
+		configuration.remoteType = 'zsim';
+		Settings.launch = Settings.Init(configuration);
+		Settings.CheckSettings();
+		Utility.setRootPath(Settings.launch.rootFolder);
+		Settings.launch.history.reverseDebugInstructionCount = 0;
+		Settings.launch.history.codeCoverageEnabled = false;
+		Settings.launch.zsim.snapshotInterval = 0;
+		Settings.launch.zsim.limitSpeed = false;
+	}
+
+
+	/**
+	 * Compiles the source file (if there is no binary) and reads the labels.
+	 * Afterwards the binary is set in the settings: the simulators created by 'start' load it.
+	 * @returns The compilation errors (empty if successful).
+	 * Throws an exception if the files can't be read.
+	 */
+	public async compile(): Promise<CompilationError[]> {
+		this.createRemote();
+		try {
+			await Remote.init();
+			const errors = await Remote.compileCode();
+			if (errors.length > 0)
+				return errors;
+			if (!Settings.launch.binary)
+				Settings.launch.binary = Remote.getCompiledFilePath('.P');
+			Remote.readListFiles(Settings.launch);
+		}
+		finally {
+			await this.dispose();
+		}
+		return [];
+	}
+
+
+	/**
+	 * Creates a new simulator with the program loaded, WPMEM and ASSERTIONs enabled.
+	 * @returns The simulator (also the global Remote).
+	 */
+	public async start(): Promise<ZSimRemote> {
+		this.stopReason = undefined;
+		this.createRemote();
+		await Remote.init();
+		await Remote.initWpmemAssertionLogpoints();
+		await Remote.enableAssertionBreakpoints(true);
+		await Remote.enableWPMEM(true);
+		await Remote.getRegistersFromEmulator();
+		return Remote as ZSimRemote;
+	}
+
+
+	/**
+	 * Runs the simulator until a break (breakpoint, ASSERTION, WPMEM, end of the program),
+	 * a call of 'stop' or a timeout.
+	 * @param timeout The maximum duration in seconds.
+	 * @returns The reason of the break, e.g. "Assertion failed: 4 == 5".
+	 * 'stopReason' is "timeout" after a timeout.
+	 */
+	public async continue(timeout: number): Promise<string> {
+		if (this.stopReason)
+			return '';
+		const timer = setTimeout(async () => await this.stop('timeout'), timeout * 1000);
+		try {
+			Remote.startProcessing();
+			const reason = await Remote.continue();
+			Remote.stopProcessing();
+			return reason;
+		}
+		finally {
+			clearTimeout(timer);
+		}
+	}
+
+
+	/**
+	 * Stops the simulator (if not already stopped).
+	 * @param reason Why, e.g. "cancel". Stored in 'stopReason'.
+	 */
+	public async stop(reason: string) {
+		if (this.stopReason || !Remote)
+			return;
+		this.stopReason = reason;
+		await Remote.pause();
+	}
+
+
+	/**
+	 * Stops and removes the simulator.
+	 */
+	public async dispose() {
+		if (!Remote)
+			return;
+		await Remote.disconnect();
+		RemoteFactory.removeRemote();
+	}
+
+
+	/**
+	 * Creates a new simulator (global Remote) with new registers.
+	 */
+	protected createRemote() {
+		Z80RegistersClass.createRegisters();
+		CpuHistoryClass.setCpuHistory(undefined);
+		RemoteFactory.createRemote('zsim');
+		Remote.on('debug_console', message => this.output?.(message));
+		Remote.on('warning', message => this.output?.(message));
+	}
+}
@@ -0,0 +1,185 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zsimrecording.ts
+ * Description:		Recording of the inputs (keyboard, joystick) of the simulator for a deterministic replay.
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import {RomPatch, ZSimType} from '../../settings/settings';
+
+
+/**
+ * A change of an input port.
+ */
+export interface ZSimInputEvent {
+	// The T-states passed since the start of the simulation when the port changed.
+	tstates: number;
+	// The number of frames since the start of the simulation (for information).
+	frame: number;
+	// The port, e.g. 0xFEFE (keyboard) or 0x1F (Kempston joystick).
+	port: number;
+	// The new value of the port.
+	value: number;
+}
+
+
+/**
+ * The settings of the simulator the state depends on
+ * (e.g. the AY is only serialized with a sound board).
+ */
+export interface ZSimRecordingConfig {
+	machine: string;
+	// The hash of the contents of the ROM (not its path).
+	rom: string;
+	romPatches: Array<RomPatch>;
+	memoryModel: string;
+	chrGenerator: string;
+	wrx: boolean;
+	region: string;
+	soundBoard: string;
+	joystick: string;
+	zxPrinter: boolean;
+}
+
+
+/**
+ * A recording: the state of the simulator at the start (snapshot)
+ * and the changes of the input ports against the T-states.
+ * Replaying the changes at the same T-states from the same state gives the same execution.
+ * The file is a JSON file, the state is compressed and encoded in base64.
+ */
+export class ZSimRecording {
+	// The version of the file format.
+	protected static readonly VERSION = 1;
+
+	// The settings of the simulator (the state depends on them).
+	public config: ZSimRecordingConfig;
+
+	// The number of frames at the start.
+	public frame: number;
+
+	// The T-states at the start.
+	public tstates: number;
+
+	// The T-states at the end of the recording.
+	public endTstates: number;
+
+	// The values of the ports of the keyboard at the start.
+	public keys: Array<number>;
+
+	// The serialized state at the start.
+	public state: Uint8Array;
+
+	// The changes of the ports, in the order of the T-states.
+	public events: Array<ZSimInputEvent>;
+
+
+	/**
+	 * Constructor.
+	 * @param config The settings of the simulator.
+	 * @param frame The number of frames at the start.
+	 * @param tstates The T-states at the start.
+	 * @param state The serialized state at the start.
+	 * @param keys The values of the ports of the keyboard at the start.
+	 */
+	constructor(config: ZSimRecordingConfig, frame: number, tstates: number, state: Uint8Array, keys: Array<number>) {
+		this.config = config;
+		this.frame = frame;
+		this.tstates = tstates;
+		this.endTstates = tstates;
+		this.state = state;
+		this.keys = keys;
+		this.events = new Array<ZSimInputEvent>();
+	}
+
+
+	/**
+	 * Returns the settings of the simulator the state depends on.
+	 * @param zsim The zsim configuration.
+	 * @param rom The contents of the ROM (without the patches).
+	 */
+	public static getConfig(zsim: ZSimType, rom: Uint8Array): ZSimRecordingConfig {
+		const {machine, romPatches, memoryModel, chrGenerator, wrx, region, soundBoard, joystick, zxPrinter} = zsim;
+		const romHash = crypto.createHash('sha256').update(rom).digest('hex');
+		return {machine, rom: romHash, romPatches, memoryModel, chrGenerator, wrx, region, soundBoard, joystick, zxPrinter};
+	}
+
+
+	/**
+	 * Checks that the recording can be replayed with the settings of the simulator.
+	 * @param config The settings of the simulator.
+	 * Throws an exception if a setting is different.
+	 */
+	public checkConfig(config: ZSimRecordingConfig) {
+		for (const setting in this.config) {
+			const value = this.config[setting];
+			if (JSON.stringify(value) == JSON.stringify(config[setting]))
+				continue;
+			if (setting == 'rom')
+				throw Error("The recording was made with another ROM (the contents of 'zsim.rom' are different).");
+			throw Error("The recording was made with 'zsim." + setting + "' " + JSON.stringify(value) + " (not " + JSON.stringify(config[setting]) + ").");
+		}
+	}
+
+
+	/**
+	 * Adds a change of a port.
+	 * @param tstates The T-states.
+	 * @param frame The number of frames.
+	 * @param port The port.
+	 * @param value The new value of the port.
+	 */
+	public add(tstates: number, frame: number, port: number, value: number) {
+		this.events.push({tstates, frame, port, value});
+		this.endTstates = tstates;
+	}
+
+
+	/**
+	 * Saves the recording.
+	 * @param filePath The file.
+	 */
+	public save(filePath: string) {
+		const data = {
+			version: ZSimRecording.VERSION,
+			config: this.config,
+			frame: this.frame,
+			tstates: this.tstates,
+			endTstates: this.endTstates,
+			keys: this.keys,
+			state: zlib.deflateRawSync(this.state).toString('base64'),
+			events: this.events.map(e => [e.tstates, e.frame, e.port, e.value])
+		};
+		fs.writeFileSync(filePath, JSON.stringify(data));
+	}
+
+
+	/**
+	 * Loads a recording.
+	 * @param filePath The file.
+	 * @returns The recording.
+	 * Throws an exception if the file can't be read or is not a recording.
+	 */
+	public static load(filePath: string): ZSimRecording {
+		let data;
+		try {
+			data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+		}
+		catch (e) {
+			throw Error("Can't read the recording '" + filePath + "': " + e.message);
+		}
+		if (data.version != ZSimRecording.VERSION || typeof data.config != 'object' || typeof data.state != 'string' || !Array.isArray(data.events))
+			throw Error("'" + filePath + "' is not a recording.");
+		const state = new Uint8Array(zlib.inflateRawSync(Buffer.from(data.state, 'base64')));
+		const recording = new ZSimRecording(data.config, data.frame, data.tstates, state, data.keys);
+		for (const [tstates, frame, port, value] of data.events)
+			recording.add(tstates, frame, port, value);
+		recording.endTstates = data.endTstates;
+		return recording;
+	}
+}
@@ -8,6 +8,7 @@
  * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
  * 					DeZog Copyright (C) 2023 Maziac
  */
+import * as fs from 'fs';
 import {DzrpRemote} from '../dzrp/dzrpremote';
 import {Z80_REG, Z80Registers} from '../z80registers';
 import {Z80Ports} from './z80ports';
@@ -19,7 +20,20 @@ import {MemBuffer} from '../../misc/membuffer';
 import {CodeCoverageArray} from './codecovarray';
 import {CpuHistoryClass, CpuHistory, DecodeStandardHistoryInfo} from '../cpuhistory';
 import {ZSimCpuHistory} from './zsimcpuhistory';
+import {ZSimSnapshots} from './zsimsnapshots';
+import {Zx81Keyboard} from './zx81keyboard';
+import {ZSimRecording} from './zsimrecording';
 import {SimulatedMemory} from './simulatedmemory';
+import {Zx81Ula} from './zx81ula';
+import {Zx81Machines} from './zx81machines';
+import {Zx81Basic} from '../../misc/zx81basic';
+import {Zx81TapeTraps} from './zx81tapetraps';
+import {Zx81Tape} from './zx81tape';
+import {Zx81Printer} from './zx81printer';
+import {Ay38912} from './ay38912';
+import {Zx81VsyncSound} from './zx81vsyncsound';
+import {Zx81Joystick} from './zx81joystick';
+import {Zx81KeyTyper} from './zx81keytyper';
 import {GenericBreakpoint} from '../../genericwatchpoint';
 import {Z80RegistersStandardDecoder} from '../z80registersstandarddecoder';
 
@@ -34,6 +48,37 @@ export class ZSimRemote extends DzrpRemote {
 	public z80Cpu: Z80Cpu;
 	public memory: SimulatedMemory;
 	public ports: Z80Ports;
+	public ula: Zx81Ula;
+
+	// The ROM file (zsim.rom or the ROM of the machine).
+	protected romPath: string;
+
+	// The contents of the ROM, without the patches (a recording is replayed with the same ROM).
+	protected romData: Uint8Array;
+
+	// Traps LOAD and SAVE to use .P files.
+	protected tapeTraps: Zx81TapeTraps;
+
+	// The tape deck connected to the EAR input.
+	public tape: Zx81Tape;
+
+	// The keyboard.
+	public keyboard: Zx81Keyboard;
+
+	// Types the texts of the 'type' command on the keyboard.
+	public typer: Zx81KeyTyper;
+
+	// The joystick interface (if any).
+	public joystick: Zx81Joystick | undefined;
+
+	// The ZX Printer (if connected).
+	public printer: Zx81Printer | undefined;
+
+	// The sound chip of the sound board (if any).
+	public ay: Ay38912 | undefined;
+
+	// The sound of the VSYNC/MIC line (if enabled).
+	public vsyncSound: Zx81VsyncSound | undefined;
 
 	// Stores the code coverage.
 	protected codeCoverage: CodeCoverageArray;
@@ -62,13 +107,31 @@ export class ZSimRemote extends DzrpRemote {
 	// Can be enabled through commands to break when an interrupt occurs.
 	protected breakOnInterrupt: boolean;
 
-	// Number of FRAMES (System variable, counts the frames displayed on the television)
-	// Decremented
-	protected frames = 0;
-
 	// Address of the FRAMES sytem variable
 	private readonly ADDR_FRAMES = 16436;
 
+	// The automatic snapshots (timeline). undefined if disabled.
+	public snapshots: ZSimSnapshots | undefined;
+
+	// The number of frames since the start of the simulation.
+	protected frameCount = 0;
+
+	// Set at the vertical sync when a snapshot has to be taken.
+	protected snapshotRequested = false;
+
+	// Restores a state (snapshot, recording) before the next instruction
+	// when requested while the CPU is running. undefined if none.
+	protected pendingRestore: (() => void) | undefined;
+
+	// The recording of the inputs in progress. undefined if none.
+	public recording: ZSimRecording | undefined;
+
+	// The recording being replayed. undefined if none.
+	public replay: ZSimRecording | undefined;
+
+	// The index of the next event to replay.
+	public replayIndex = 0;
+
 
 	/// Constructor.
 	constructor() {
@@ -109,8 +172,20 @@ export class ZSimRemote extends DzrpRemote {
 	/**
 	 * Configures the machine.
 	 * Loads the roms and sets up bank switching.
-	 * @param zsim The zsim configuration, e.g. the memory model:
-	 * - "ZX81": ROM and RAM as of the ZX81.
+	 * @param zsim The zsim configuration, e.g. the machine, the ROM (rom, romPatches), the memory model:
+	 * - "1K", "2K", "16K": ROM and RAM as of the ZX81 with a RAM pack. The ROM and the RAM are mirrored.
+	 * - "32K": RAM from 16K to 48K.
+	 * - "56K": RAM from 8K to 64K.
+	 * And the hi-res options:
+	 * - chrGenerator: "ROM", "UDG" (RAM at 8K) or "CHR128" (RAM at 8K, 128 characters).
+	 * - wrx: the RAM responds to the refresh address (WRX hi-res).
+	 * And tapeDir: the directory of the .P files for LOAD and SAVE,
+	 * tapeFile: the tape (.P, .TZX or .WAV) inserted in the tape deck.
+	 * And zxPrinter: a ZX Printer is connected,
+	 * soundBoard: the sound board with an AY-3-8912 (ZonX or Quicksilva),
+	 * vsyncSound: the VSYNC/MIC line is sampled (sound of the games).
+	 * And joystick: the joystick interface (Kempston or cursor keys),
+	 * keyMap: the map of the keys of the host to the keys of the ZX81.
 	 */
 	protected configureMachine(zsim: ZSimType) {
 		// For restoring the state
@@ -121,20 +196,107 @@ export class ZSimRemote extends DzrpRemote {
 		// Create ports for paging
 		this.ports = new Z80Ports(0xFF);
 
-		// Create memory
-		this.memory = new SimulatedMemory();
+		// Create memory with the ROM of the machine (or zsim.rom) and its patches
+		const machine = Zx81Machines.get(zsim.machine);
+		this.romPath = zsim.rom || Zx81Machines.getRomPath(machine);
+		this.memory = new SimulatedMemory(parseInt(zsim.memoryModel), zsim.chrGenerator != 'ROM', this.romPath);
+		this.romData = this.memory.readBlock(0, 0x2000);
+		for (const patch of zsim.romPatches)
+			this.memory.writeBlock(patch.address, new Uint8Array(patch.bytes));
+		// Reverse debugging: the memory writes are recorded with the history
+		if (CpuHistory instanceof ZSimCpuHistory)
+			CpuHistory.attachMemory(this.memory);
 		this.serializeObjects.push(this.memory);
 
+		// Create the ULA. When the program (or the ROM) generates the display,
+		// the vertical sync comes from the ULA and FRAMES is updated by the ROM.
+		this.ula = new Zx81Ula(this.memory, this.ports, () => {
+			this.countFrame();
+			this.emit('vertSync');
+		});
+		this.ula.wrx = zsim.wrx;
+		this.ula.ntsc = (zsim.region == 'NTSC');
+		this.ula.chr128 = (zsim.chrGenerator == 'CHR128');
+		this.serializeObjects.push(this.ula);
+
 		// Create a Z80 CPU to emulate Z80 behavior
 		this.z80Cpu = new Z80Cpu(this.memory, this.ports, () => {
 			this.updateFrames();
+			this.countFrame();
 			this.emit('vertSync');
-		});
+		}, this.ula);
+
+		// LOAD and SAVE
+		this.tapeTraps = new Zx81TapeTraps(this.memory, zsim.tapeDir);
+
+		// Keyboard
+		this.keyboard = new Zx81Keyboard(this.ports, this.memory, machine.keys);
+		this.keyboard.setKeyMap(zsim.keyMap);
+		this.serializeObjects.push(this.keyboard);
+		this.typer = new Zx81KeyTyper(this.keyboard, this.ula.getFrameTstates());
+		this.checkRomHooks();
+
+		// Joystick
+		this.joystick = undefined;
+		if (zsim.joystick != 'NONE') {
+			this.joystick = new Zx81Joystick(zsim.joystick, this.ports, this.keyboard);
+			this.serializeObjects.push(this.joystick);
+		}
+
+		// Tape deck
+		this.tape = new Zx81Tape(this.ports, zsim.cpuFrequency);
+		if (zsim.tapeFile)
+			this.tape.load(zsim.tapeFile);
+		this.serializeObjects.push(this.tape);
+
+		// ZX Printer
+		this.printer = undefined;
+		if (zsim.zxPrinter) {
+			this.printer = new Zx81Printer(this.ports);
+			this.printer.rowListener = () => this.emit('printed');
+			this.serializeObjects.push(this.printer);
+		}
+
+		// Sound board
+		this.ay = undefined;
+		if (zsim.soundBoard != 'NONE') {
+			this.ay = new Ay38912(zsim.cpuFrequency);
+			if (zsim.soundBoard == 'ZONX')
+				this.ay.connectZonX(this.ports);
+			else
+				this.ay.connectQuicksilva(this.memory);
+			this.serializeObjects.push(this.ay);
+		}
+		this.vsyncSound = zsim.vsyncSound ? new Zx81VsyncSound(zsim.cpuFrequency) : undefined;
+
+		// Timeline
+		this.frameCount = 0;
+		this.snapshots = (zsim.snapshotInterval > 0) ? new ZSimSnapshots(zsim.snapshotCount) : undefined;
 
 		this.initTopOfStack()
 
 	}
 
+	/**
+	 * Disables the hooks in the ROM (LOAD and SAVE, BASIC breakpoints, keys typed)
+	 * if the routines of the ROM of the ZX81 are not at their addresses, e.g. with
+	 * another ROM (zsim.rom) or patches (zsim.romPatches).
+	 */
+	protected checkRomHooks() {
+		const disabled = new Array<string>();
+		this.tapeTraps.enabled = Zx81Machines.matchesRom(this.memory, Zx81TapeTraps.ROM_BYTES);
+		if (!this.tapeTraps.enabled)
+			disabled.push("LOAD and SAVE of .P files");
+		this.supportsBasicBreakpoints = Zx81Machines.matchesRom(this.memory, Zx81Basic.LINE_RUN_BYTES);
+		if (!this.supportsBasicBreakpoints)
+			disabled.push("BASIC breakpoints");
+		this.typer.waitRom = Zx81Machines.matchesRom(this.memory, Zx81KeyTyper.ROM_BYTES);
+		if (!this.typer.waitRom)
+			disabled.push("typed keys waiting for the ROM");
+		if (disabled.length > 0)
+			this.emit('warning', "The ROM is not the ROM of the ZX81, disabled: " + disabled.join(', ') + ".");
+	}
+
 	/**
 	 * Initialize the CPU stack.
 	 * Initialise la pile du CPU.
@@ -150,10 +312,181 @@ export class ZSimRemote extends DzrpRemote {
 
 	protected updateFrames() {
 		// Bit 15 is 1. Bits 0 to 14 are decremented for each frame sent to the TV.
-		this.frames -= 1;
-		if(this.frames < 0) this.frames = 0x7FFF;
-		this.memory.write8(this.ADDR_FRAMES, this.frames % 256);
-		this.memory.write8(this.ADDR_FRAMES + 1, (this.frames / 256) % 128 + 128);
+		// Decremented from the value in memory: it is also changed by the ROM and restored with the state.
+		const data = this.memory.readBlock(this.ADDR_FRAMES, 2);
+		let frames = ((data[0] | (data[1] << 8)) & 0x7FFF) - 1;
+		if(frames < 0) frames = 0x7FFF;
+		this.memory.write8(this.ADDR_FRAMES, frames % 256);
+		this.memory.write8(this.ADDR_FRAMES + 1, (frames >> 8) + 128);
+	}
+
+	/**
+	 * Counts the frames (vertical syncs) and requests a snapshot
+	 * every 'snapshotInterval' frames.
+	 */
+	protected countFrame() {
+		this.frameCount++;
+		if (this.snapshots && this.frameCount % Settings.launch.zsim.snapshotInterval == 0)
+			this.snapshotRequested = true;
+	}
+
+	/**
+	 * Takes a snapshot for the timeline.
+	 */
+	protected takeSnapshot() {
+		this.snapshotRequested = false;
+		this.snapshots?.add(this.frameCount, this.passedTstates, this.serializeState());
+	}
+
+	/**
+	 * Restores a state (snapshot, recording).
+	 * If the CPU is running, this is done before the next instruction
+	 * and the execution continues from there.
+	 * If the CPU is stopped, this is done immediately and 'stateRestored' is emitted
+	 * so that the debugger updates the registers, the call stack etc.
+	 * @param restore The function restoring the state.
+	 * @param reason The reason given with 'stateRestored', e.g. 'timeline'.
+	 */
+	protected restoreState(restore: () => void, reason: string) {
+		if (!this.stopCpu) {
+			this.pendingRestore = restore;
+			return;
+		}
+		restore();
+		this.emit('stateRestored', reason);
+	}
+
+	/**
+	 * Goes back to a snapshot of the timeline.
+	 * The snapshots after it are removed.
+	 * @param index The index of the snapshot, 0 is the oldest.
+	 */
+	public restoreSnapshot(index: number) {
+		if (!this.snapshots)
+			throw Error("The timeline is disabled ('zsim.snapshotInterval').");
+		// Check that it exists
+		this.snapshots.get(index);
+		this.restoreState(() => this.applySnapshot(index), 'timeline');
+	}
+
+	/**
+	 * Restores the state of a snapshot and removes the snapshots after it.
+	 * The history of the instructions is cleared (it is the one of the abandoned future).
+	 * @param index The index of the snapshot, 0 is the oldest.
+	 */
+	protected applySnapshot(index: number) {
+		const snapshots = this.snapshots!;
+		const snapshot = snapshots.get(index);
+		this.deserializeState(snapshots.getState(index));
+		this.frameCount = snapshot.frame;
+		this.passedTstates = snapshot.tstates;
+		this.snapshotRequested = false;
+		snapshots.removeAfter(index);
+		CpuHistory?.init();
+	}
+
+	/**
+	 * Starts to record the inputs (keyboard and Kempston joystick).
+	 * The recording starts with a snapshot of the current state.
+	 */
+	public startRecording() {
+		if (this.replay)
+			throw Error("Can't record while replaying.");
+		const recording = new ZSimRecording(ZSimRecording.getConfig(Settings.launch.zsim, this.romData), this.frameCount, this.passedTstates,
+			this.serializeState(), this.keyboard.getPorts());
+		const listener = (port: number, value: number) => recording.add(this.passedTstates, this.frameCount, port, value);
+		this.keyboard.portListener = listener;
+		if (this.joystick)
+			this.joystick.portListener = listener;
+		this.recording = recording;
+	}
+
+	/**
+	 * Stops to record the inputs.
+	 * @returns The recording.
+	 */
+	public stopRecording(): ZSimRecording {
+		const recording = this.recording;
+		if (!recording)
+			throw Error("No recording in progress.");
+		recording.endTstates = this.passedTstates;
+		this.keyboard.portListener = undefined;
+		if (this.joystick)
+			this.joystick.portListener = undefined;
+		this.recording = undefined;
+		return recording;
+	}
+
+	/**
+	 * Replays a recording: restores its state and changes the ports
+	 * at the same T-states as when it was recorded.
+	 * The keys and the joystick of the host are ignored until the end of the replay.
+	 * @param recording The recording.
+	 * Throws an exception if the recording was made with other settings (e.g. the memory model).
+	 */
+	public startReplay(recording: ZSimRecording) {
+		if (this.recording)
+			throw Error("Can't replay while recording.");
+		recording.checkConfig(ZSimRecording.getConfig(Settings.launch.zsim, this.romData));
+		this.restoreState(() => {
+			this.deserializeState(recording.state);
+			this.frameCount = recording.frame;
+			this.passedTstates = recording.tstates;
+			this.snapshotRequested = false;
+			// The timeline and the history are the ones of another execution
+			this.snapshots?.clear();
+			CpuHistory?.init();
+			this.keyboard.setPorts(recording.keys);
+			this.keyboard.locked = true;
+			if (this.joystick)
+				this.joystick.locked = true;
+			this.replay = recording;
+			this.replayIndex = 0;
+		}, 'replay');
+	}
+
+	/**
+	 * Stops the replay. The keys and the joystick of the host are used again.
+	 */
+	public stopReplay() {
+		this.replay = undefined;
+		this.keyboard.locked = false;
+		this.keyboard.releaseAll();
+		if (this.joystick) {
+			this.joystick.locked = false;
+			this.joystick.releaseAll();
+		}
+	}
+
+	/**
+	 * Types keys on the keyboard (after the keys being typed).
+	 * @param text The keys, e.g. 'RUN{NEWLINE}{WAIT 50}'. See Zx81KeyTyper.
+	 * Throws an exception if the text can't be typed or while replaying.
+	 */
+	public typeKeys(text: string) {
+		if (this.replay)
+			throw Error("Can't type while replaying.");
+		this.typer.type(text);
+	}
+
+	/**
+	 * Changes the ports of the events of the replay whose time has come.
+	 * Called before each instruction.
+	 */
+	protected replayEvents() {
+		const replay = this.replay!;
+		const events = replay.events;
+		while (this.replayIndex < events.length && events[this.replayIndex].tstates <= this.passedTstates) {
+			const {port, value} = events[this.replayIndex++];
+			if (port == Zx81Joystick.KEMPSTON_PORT)
+				this.joystick?.setState(value);
+			else
+				this.keyboard.setPort(port, value);
+		}
+		if (this.replayIndex >= events.length && this.passedTstates >= replay.endTstates) {
+			this.stopReplay();
+			this.emit('debug_console', "Replay finished.");
+		}
 	}
 
 
@@ -335,6 +668,7 @@ export class ZSimRemote extends DzrpRemote {
 	 */
 	protected async z80CpuContinue(bp1: number, bp2: number): Promise<void> {
 		const limitSpeed = Settings.launch.zsim.limitSpeed;
+		const limitSpeedFrameTime = 1000 / this.getFrameRate();
 		let limitSpeedPrevTime = Date.now();
 		let limitSpeedPrevTstates = this.passedTstates;
 
@@ -356,6 +690,10 @@ export class ZSimRemote extends DzrpRemote {
 						break;
 					}
 
+					// Replay the recorded inputs
+					if (this.replay)
+						this.replayEvents();
+
 					// Store current registers and opcode
 					const prevPc = this.z80Cpu.pc;
 					if (CpuHistory)
@@ -367,6 +705,20 @@ export class ZSimRemote extends DzrpRemote {
 					// For custom code: Increase passed t-states
 					this.passedTstates += tStates;
 
+					// Advance the tape
+					this.tape.tick(tStates);
+
+					// Type the keys
+					this.typer.tick(tStates, this.z80Cpu.pc);
+
+					// Generate the sound
+					this.ay?.tick(tStates);
+					this.vsyncSound?.tick(tStates, this.ula.vsync);
+
+					// Timeline: snapshot at the vertical sync
+					if (this.snapshotRequested)
+						this.takeSnapshot();
+
 					// Store the pc for coverage (previous pcLong)
 					this.codeCoverage?.storeAddress(pc);
 
@@ -380,6 +732,13 @@ export class ZSimRemote extends DzrpRemote {
 
 					pc = this.z80Cpu.pc;
 
+					// LOAD or SAVE from/to a .P file (unless the tape deck is playing)
+					const tapeText = this.tape.playing ? undefined : this.tapeTraps.execute(this.z80Cpu);
+					if (tapeText) {
+						this.emit('debug_console', tapeText);
+						pc = this.z80Cpu.pc;
+					}
+
 					// Check if any real breakpoint is hit
 					// Note: Because of step-out this needs to be done before the other check.
 					const bpInner = this.tmpBreakpoints.get(pc);
@@ -492,7 +851,7 @@ export class ZSimRemote extends DzrpRemote {
 				const currentTime = Date.now();
 				const usedTime = currentTime - limitSpeedPrevTime;
 				// Check for too small values to get a better accuracy
-				if (usedTime > 20) { // 20 ms
+				if (usedTime > limitSpeedFrameTime) { // 1 frame
 					const usedTstates = this.passedTstates - limitSpeedPrevTstates;
 					const targetTime = 1000 * usedTstates / this.z80Cpu.cpuFreq;
 					let remainingTime = targetTime - usedTime;
@@ -512,6 +871,13 @@ export class ZSimRemote extends DzrpRemote {
 			// Give other tasks a little time and continue
 			await Utility.timeout(1);
 
+			// Restore a state (requested while running)
+			if (this.pendingRestore) {
+				const restore = this.pendingRestore;
+				this.pendingRestore = undefined;
+				restore();
+			}
+
 			// Check if additional time is required for the webview.
 			// Mainly required for custom code.
 			while (this.timeoutRequest) {
@@ -580,10 +946,17 @@ export class ZSimRemote extends DzrpRemote {
 		// Create mem buffer for reading
 		const memBuffer = MemBuffer.from(data.buffer);
 
+		// Reverse debugging: go back to the present memory before it is replaced
+		if (CpuHistory instanceof ZSimCpuHistory)
+			CpuHistory.clear();
+
 		// Deserialize objects
 		for (const obj of this.serializeObjects)
 			obj.deserialize(memBuffer);
 
+		// The keys being typed belong to the abandoned execution
+		this.typer.cancel();
+
 		// Update the simulation view
 		this.emit('restored');
 
@@ -641,6 +1014,39 @@ export class ZSimRemote extends DzrpRemote {
 	}
 
 
+	/**
+	 * Returns the number of frames since the start of the simulation.
+	 */
+	public getFrameCount(): number {
+		return this.frameCount;
+	}
+
+
+	/**
+	 * Returns the number of frames per second (ca. 50 in PAL, 60 in NTSC).
+	 */
+	public getFrameRate(): number {
+		return this.z80Cpu.cpuFreq / this.ula.getFrameTstates();
+	}
+
+
+	/**
+	 * Returns the sound generated since the last call: the sound board
+	 * and the VSYNC/MIC line mixed (at the same sample rate).
+	 * @returns The samples or undefined if there is no sound.
+	 */
+	public takeSoundSamples(): Float32Array | undefined {
+		const ay = this.ay?.takeSamples();
+		const vsync = this.vsyncSound?.takeSamples();
+		if (!ay || !vsync)
+			return ay ?? vsync;
+		const samples = new Float32Array(Math.max(ay.length, vsync.length));
+		samples.set(ay);
+		vsync.forEach((sample, i) => samples[i] += sample);
+		return samples;
+	}
+
+
 	/**
 	 * Returns the current CPU frequency
 	 * @returns The CPU frequency in Hz (e.g. 3250000 for 3.25MHz) or 0 if not supported.
@@ -655,7 +1061,7 @@ export class ZSimRemote extends DzrpRemote {
 
 	/**
 	 * Executes a few zsim specific commands, e.g. for testing the custom javascript code.
-	 * @param cmd E.g. 'out 0x9000 0xFE', 'in 0x8000', 'tstates set 1000' or 'tstates add 1000'.
+	 * @param cmd E.g. 'out 0x9000 0xFE', 'in 0x8000', 'tstates', 'tstates set 1000' or 'tstates add 1000'.
 	 * @returns A Promise with a return string, i.e. the decoded response.
 	 */
 	public async dbgExec(cmd: string): Promise<string> {
@@ -668,6 +1074,11 @@ export class ZSimRemote extends DzrpRemote {
 				response = `zsim specific commands:
 out port value: Output 'value' to 'port'. E.g. "zsim out 0x9000 0xFE"
 in port: Print input value from 'port'. E.g. "zsim in 0x8000"
+rom: print the ROM file and the patches applied. E.g. "zsim rom"
+wav start: start to capture the sound of the VSYNC/MIC line (zsim.vsyncSound). E.g. "zsim wav start"
+wav stop file: stop the capture and write it to a .WAV file (relative to the root folder). E.g. "zsim wav stop sound.wav"
+type text: type a text on the keyboard, e.g. the keywords, {NEWLINE}, {RUBOUT} or {WAIT frames}. E.g. "zsim type LOAD \"\"{NEWLINE}"
+tstates: print the t-states and the time since the start, the frames and the CPU load (without the display). E.g. "zsim tstates"
 tstates set value: set t-states to 'value', then create a tick event. E.g. "zsim tstates set 1000"
 tstates add value: add 'value' to t-states, then create a tick event. E.g. "zsim tstates add 1000"
 `;
@@ -700,7 +1111,41 @@ tstates add value: add 'value' to t-states, then create a tick event. E.g. "zsim
 				response = "Read port " + Utility.getHexString(port, 4) + "h: " + Utility.getHexString(value, 2) + "h";
 				return response;
 			}
+			if (cmd_name == "rom") {
+				response = "ROM: " + this.romPath;
+				for (const patch of Settings.launch.zsim.romPatches)
+					response += "\nPatch '" + (patch.name ?? '') + "': " + patch.bytes.length + " bytes at " + Utility.getHexString(patch.address, 4) + "h";
+				return response;
+			}
+			if (cmd_name == "wav") {
+				if (!this.vsyncSound)
+					throw Error("The sound of the VSYNC/MIC line is not enabled (zsim.vsyncSound).");
+				const subcmd = tokens[0];
+				if (subcmd == "start" && tokens.length == 1) {
+					this.vsyncSound.startCapture();
+					return "Capturing the sound.";
+				}
+				if (subcmd == "stop" && tokens.length == 2) {
+					const samples = this.vsyncSound.stopCapture();
+					const filePath = Utility.getAbsFilePath(tokens[1], Settings.launch.rootFolder);
+					fs.writeFileSync(filePath, Zx81VsyncSound.toWav(samples, Zx81VsyncSound.SAMPLE_RATE));
+					return "Wrote " + (samples.length / Zx81VsyncSound.SAMPLE_RATE).toFixed(1) + " s of sound to " + filePath + ".";
+				}
+				throw Error("Expected 'start' or 'stop file'.");
+			}
+			if (cmd_name == "type") {
+				const text = cmd.substring(cmd.indexOf("type") + 4).trim();
+				if (!text)
+					throw Error("Text expected.");
+				this.typeKeys(text);
+				return "Typing '" + text + "'.";
+			}
 			if (cmd_name == "tstates") {
+				if (tokens.length == 0) {
+					const time = this.passedTstates / this.z80Cpu.cpuFreq;
+					response = "T-states: " + this.passedTstates + " (" + time.toFixed(3) + " s), frames: " + this.frameCount + ", CPU load: " + Math.round(100 * this.z80Cpu.cpuLoad) + "%";
+					return response;
+				}
 				// Check count of arguments
 				if (tokens.length != 2) {
 					throw new Error("Wrong number of arguments.");
@@ -0,0 +1,133 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zsimsnapshots.ts
+ * Description:		Ring buffer of the automatic snapshots of the simulator (timeline).
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import * as zlib from 'zlib';
+
+
+/**
+ * A snapshot of the simulator.
+ */
+export interface ZSimSnapshot {
+	// The number of frames since the start of the simulation.
+	frame: number;
+	// The T-states passed since the start of the simulation.
+	tstates: number;
+	// The serialized state (CPU, memory, ULA), compressed.
+	data: Buffer;
+}
+
+
+/**
+ * The snapshots taken automatically every N frames.
+ * The states are compressed (most of the memory of a ZX81 is empty).
+ * Once the maximum count is reached, the oldest snapshot is replaced.
+ * The snapshots are ordered from the oldest (index 0) to the youngest.
+ */
+export class ZSimSnapshots {
+	// The maximum number of snapshots.
+	protected maxCount: number;
+
+	// The snapshots (ring buffer).
+	protected snapshots: Array<ZSimSnapshot>;
+
+	// The index of the oldest snapshot in the ring buffer.
+	protected first: number;
+
+
+	/**
+	 * Constructor.
+	 * @param maxCount The maximum number of snapshots.
+	 */
+	constructor(maxCount: number) {
+		this.maxCount = maxCount;
+		this.clear();
+	}
+
+
+	/**
+	 * Removes all snapshots.
+	 */
+	public clear() {
+		this.snapshots = new Array<ZSimSnapshot>();
+		this.first = 0;
+	}
+
+
+	/**
+	 * Returns the number of snapshots.
+	 */
+	public get count(): number {
+		return this.snapshots.length;
+	}
+
+
+	/**
+	 * Adds a snapshot. Replaces the oldest one if the buffer is full.
+	 * @param frame The number of frames since the start of the simulation.
+	 * @param tstates The T-states passed since the start of the simulation.
+	 * @param state The serialized state.
+	 */
+	public add(frame: number, tstates: number, state: Uint8Array) {
+		const snapshot = {frame, tstates, data: zlib.deflateRawSync(state)};
+		if (this.snapshots.length < this.maxCount) {
+			this.snapshots.push(snapshot);
+			return;
+		}
+		this.snapshots[this.first] = snapshot;
+		this.first = (this.first + 1) % this.maxCount;
+	}
+
+
+	/**
+	 * Returns a snapshot.
+	 * @param index The index of the snapshot, 0 is the oldest.
+	 * @returns The snapshot (data still compressed).
+	 */
+	public get(index: number): ZSimSnapshot {
+		if (index < 0 || index >= this.snapshots.length)
+			throw Error("Snapshot " + index + " does not exist.");
+		return this.snapshots[(this.first + index) % this.snapshots.length];
+	}
+
+
+	/**
+	 * Returns the serialized state of a snapshot.
+	 * @param index The index of the snapshot, 0 is the oldest.
+	 * @returns The state (uncompressed).
+	 */
+	public getState(index: number): Uint8Array {
+		return new Uint8Array(zlib.inflateRawSync(this.get(index).data));
+	}
+
+
+	/**
+	 * Returns the frames of all the snapshots, from the oldest to the youngest.
+	 */
+	public getFrames(): Array<number> {
+		const frames = new Array<number>();
+		for (let i = 0; i < this.snapshots.length; i++)
+			frames.push(this.get(i).frame);
+		return frames;
+	}
+
+
+	/**
+	 * Removes the snapshots after a snapshot.
+	 * Used when going back to a snapshot: the snapshots after it
+	 * belong to a future that will not happen anymore.
+	 * @param index The index of the snapshot to keep last.
+	 */
+	public removeAfter(index: number) {
+		const kept = new Array<ZSimSnapshot>();
+		for (let i = 0; i <= index && i < this.snapshots.length; i++)
+			kept.push(this.get(i));
+		this.snapshots = kept;
+		this.first = 0;
+	}
+}
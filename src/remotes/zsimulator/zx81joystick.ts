@@ -0,0 +1,158 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81joystick.ts
+ * Description:		Simulation of the joystick interfaces of the ZX81 (Kempston, cursor keys).
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import {MemBuffer, Serializable} from '../../misc/membuffer';
+import {Z80Ports} from './z80ports';
+import {Zx81Keyboard} from './zx81keyboard';
+
+
+/**
+ * A joystick interface:
+ * - KEMPSTON: IN (1Fh) returns the directions and the fire button (1 = on):
+ *   bit 0 = right, 1 = left, 2 = down, 3 = up, 4 = fire.
+ * - CURSOR: the directions are the keys 5 (left), 6 (down), 7 (up) and 8 (right)
+ *   and the fire button is the key 0, as on the keyboard.
+ * The joystick is moved by the host (gamepad or arrow keys of the ZX81 view).
+ * The changes of the Kempston interface are recorded like the half rows of the keyboard
+ * (port 1Fh), the cursor interface changes the ports of the keyboard.
+ */
+export class Zx81Joystick implements Serializable {
+	// The directions and the fire button.
+	public static readonly DIRECTIONS = ['up', 'down', 'left', 'right', 'fire'];
+
+	// The bits of the Kempston interface.
+	protected static readonly KEMPSTON_BITS: {[direction: string]: number} = {
+		right: 0x01, left: 0x02, down: 0x04, up: 0x08, fire: 0x10
+	};
+
+	// The port of the Kempston interface.
+	public static readonly KEMPSTON_PORT = 0x1F;
+
+	// The keys of the cursor interface.
+	protected static readonly CURSOR_KEYS: {[direction: string]: string} = {
+		left: '5', down: '6', up: '7', right: '8', fire: '0'
+	};
+
+	// The interface: "KEMPSTON" or "CURSOR".
+	public readonly type: string;
+
+	// The keyboard (for the cursor interface).
+	protected keyboard: Zx81Keyboard;
+
+	// The directions and the fire button that are on (the bits of the Kempston interface).
+	protected state: number;
+
+	// If true, the host is ignored (e.g. while replaying a recording).
+	public locked = false;
+
+	// Called when the state of the Kempston interface changes (e.g. to record it).
+	public portListener: ((port: number, value: number) => void) | undefined;
+
+
+	/**
+	 * Constructor.
+	 * @param type The interface: "KEMPSTON" or "CURSOR".
+	 * @param ports The ports. The Kempston interface registers its function for 1Fh.
+	 * @param keyboard The keyboard (for the cursor interface).
+	 */
+	constructor(type: string, ports: Z80Ports, keyboard: Zx81Keyboard) {
+		this.type = type;
+		this.keyboard = keyboard;
+		this.state = 0;
+		if (type == 'KEMPSTON') {
+			ports.registerGenericInPortFunction((port: number) =>
+				((port & 0xFF) == Zx81Joystick.KEMPSTON_PORT) ? this.state : undefined);
+		}
+	}
+
+
+	/**
+	 * Returns the directions and the fire button that are on
+	 * (the bits of the Kempston interface).
+	 */
+	public getState(): number {
+		return this.state;
+	}
+
+
+	/**
+	 * Moves the joystick or presses the fire button. Ignored if locked.
+	 * @param direction "up", "down", "left", "right" or "fire".
+	 * @param on true: on, false: off.
+	 * Throws an exception if the direction does not exist.
+	 */
+	public setDirection(direction: string, on: boolean) {
+		if (this.locked)
+			return;
+		const bit = Zx81Joystick.KEMPSTON_BITS[direction];
+		if (!bit)
+			throw Error("Unknown joystick direction: " + direction);
+		const state = on ? this.state | bit : this.state & ~bit;
+		if (state == this.state)
+			return;
+		if (this.type == 'CURSOR') {
+			this.state = state;
+			this.keyboard.changeKeys([Zx81Joystick.CURSOR_KEYS[direction]], on);
+		}
+		else {
+			this.setState(state);
+		}
+	}
+
+
+	/**
+	 * Sets the directions and the fire button of the Kempston interface
+	 * (even if locked, e.g. to replay a recording).
+	 * @param state The bits of the Kempston interface.
+	 */
+	public setState(state: number) {
+		this.state = state;
+		this.portListener?.(Zx81Joystick.KEMPSTON_PORT, state);
+	}
+
+
+	/**
+	 * Releases the joystick and the fire button.
+	 */
+	public releaseAll() {
+		for (const direction of Zx81Joystick.DIRECTIONS)
+			this.setDirection(direction, false);
+	}
+
+
+	/**
+	 * Returns the size the serialized object would consume.
+	 */
+	public getSerializedSize(): number {
+		// Create a MemBuffer to calculate the size.
+		const memBuffer = new MemBuffer();
+		// Serialize object to obtain size
+		this.serialize(memBuffer);
+		// Get size
+		const size = memBuffer.getSize();
+		return size;
+	}
+
+
+	/**
+	 * Serializes the object: the directions and the fire button.
+	 * The keys of the cursor interface are serialized with the keyboard.
+	 */
+	public serialize(memBuffer: MemBuffer) {
+		memBuffer.write8(this.state);
+	}
+
+
+	/**
+	 * Deserializes the object.
+	 */
+	public deserialize(memBuffer: MemBuffer) {
+		this.state = memBuffer.read8();
+	}
+}
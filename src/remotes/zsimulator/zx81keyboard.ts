@@ -0,0 +1,321 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81keyboard.ts
+ * Description:		Simulation of the keyboard of the ZX81.
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import {MemBuffer, Serializable} from '../../misc/membuffer';
+import {SimulatedMemory} from './simulatedmemory';
+import {Z80Ports} from './z80ports';
+
+
+/**
+ * The keyboard of the ZX81: 8 half rows of 5 keys.
+ * A half row is read with the port xxFE, the upper byte selects the half row.
+ * The 5 lower bits are the keys (0 = pressed).
+ *
+ *   Port    bit 0   1   2   3   4
+ *   FEFE    Shift   Z   X   C   V
+ *   FDFE        A   S   D   F   G
+ *   FBFE        Q   W   E   R   T
+ *   F7FE        1   2   3   4   5
+ *   EFFE        0   9   8   7   6
+ *   DFFE        P   O   I   U   Y
+ *   BFFE  NEWLINE   L   K   J   H
+ *   7FFE    SPACE   .   M   N   B
+ *
+ * LAST_K is also updated when a key changes, so that the key is seen
+ * even if the ROM does not scan the keyboard at this moment.
+ *
+ * The keys of the host (KeyboardEvent.code, i.e. the position of the key)
+ * are mapped to one or more keys of the ZX81, e.g. "Backspace" to "SHIFT+0"
+ * (RUBOUT). The map can be changed for other layouts (AZERTY, QWERTZ).
+ * Shift of the host is passed through (SHIFT is added) unless the key with
+ * Shift has its own entry, e.g. "Shift+Digit1" to "1" on an AZERTY keyboard.
+ * A key of the ZX81 pressed by several keys of the host (e.g. SHIFT) is
+ * released with the last of them.
+ */
+export class Zx81Keyboard implements Serializable {
+	// The ports of the half rows.
+	public static readonly PORTS = [0xFEFE, 0xFDFE, 0xFBFE, 0xF7FE, 0xEFFE, 0xDFFE, 0xBFFE, 0x7FFE];
+
+	// The address of the LAST_K system variable.
+	protected static readonly LAST_K = 0x4025;
+
+	// The keys of the ZX81: half row (upper byte of the port) and bit.
+	public static readonly KEYS: {[key: string]: [number, number]} = {
+		SHIFT: [0xFE, 0], Z: [0xFE, 1], X: [0xFE, 2], C: [0xFE, 3], V: [0xFE, 4],
+		A: [0xFD, 0], S: [0xFD, 1], D: [0xFD, 2], F: [0xFD, 3], G: [0xFD, 4],
+		Q: [0xFB, 0], W: [0xFB, 1], E: [0xFB, 2], R: [0xFB, 3], T: [0xFB, 4],
+		'1': [0xF7, 0], '2': [0xF7, 1], '3': [0xF7, 2], '4': [0xF7, 3], '5': [0xF7, 4],
+		'0': [0xEF, 0], '9': [0xEF, 1], '8': [0xEF, 2], '7': [0xEF, 3], '6': [0xEF, 4],
+		P: [0xDF, 0], O: [0xDF, 1], I: [0xDF, 2], U: [0xDF, 3], Y: [0xDF, 4],
+		NEWLINE: [0xBF, 0], L: [0xBF, 1], K: [0xBF, 2], J: [0xBF, 3], H: [0xBF, 4],
+		SPACE: [0x7F, 0], '.': [0x7F, 1], M: [0x7F, 2], N: [0x7F, 3], B: [0x7F, 4]
+	};
+
+	// The default map of the keys of the host (KeyboardEvent.code) to the keys of the ZX81 (US layout).
+	// KeyA to KeyZ and Digit0 to Digit9 are added by the constructor.
+	public static readonly DEFAULT_KEY_MAP: {[key: string]: string} = {
+		Enter: 'NEWLINE', NumpadEnter: 'NEWLINE', Space: 'SPACE', Period: '.',
+		Backspace: 'SHIFT+0', ArrowLeft: 'SHIFT+5', ArrowDown: 'SHIFT+6', ArrowUp: 'SHIFT+7', ArrowRight: 'SHIFT+8'
+	};
+
+	// The memory (for LAST_K).
+	protected memory: SimulatedMemory;
+
+	// The keyboard matrix of the machine (the half row and the bit of each key).
+	protected keys: {[key: string]: [number, number]};
+
+	// The values of the half rows (port <-> value).
+	protected rows: Map<number, number>;
+
+	// The keys of the host (KeyboardEvent.code) <-> the keys of the ZX81, e.g. "Backspace" <-> ["SHIFT", "0"].
+	// With Shift of the host: "Shift+" and the code, e.g. "Shift+Digit1" <-> ["1"].
+	protected keyMap: Map<string, Array<string>>;
+
+	// The keys of the host that are pressed <-> the keys of the ZX81 they press.
+	protected hostKeys: Map<string, Array<string>>;
+
+	// The keys of the ZX81 that are pressed <-> the number of times they are pressed
+	// (e.g. SHIFT by two keys of the host).
+	protected pressCounts: Map<string, number>;
+
+	// If true, the keys of the host are ignored (e.g. while replaying a recording).
+	public locked = false;
+
+	// Called when the value of a port changes (e.g. to record the keys).
+	public portListener: ((port: number, value: number) => void) | undefined;
+
+
+	/**
+	 * Constructor.
+	 * @param ports The ports. The half rows are registered.
+	 * @param memory The memory (for LAST_K).
+	 * @param keys The keyboard matrix of the machine (by default the one of the ZX81).
+	 */
+	constructor(ports: Z80Ports, memory: SimulatedMemory, keys = Zx81Keyboard.KEYS) {
+		this.memory = memory;
+		this.keys = keys;
+		this.rows = new Map<number, number>();
+		this.hostKeys = new Map<string, Array<string>>();
+		this.pressCounts = new Map<string, number>();
+		for (const port of Zx81Keyboard.PORTS) {
+			this.rows.set(port, 0xFF);
+			ports.registerSpecificInPortFunction(port, (port: number) => this.rows.get(port)!);
+		}
+		this.setKeyMap({});
+	}
+
+
+	/**
+	 * Parses keys of the ZX81 separated by '+', e.g. "SHIFT+0".
+	 * @param keys The keys. The letters can be lowercase.
+	 * @returns The keys, SHIFT first, e.g. ["SHIFT", "0"].
+	 * Throws an exception if a key does not exist.
+	 */
+	public static parseKeys(keys: string): Array<string> {
+		const result = keys.split('+').map(key => key.trim().toUpperCase());
+		for (const key of result) {
+			if (!Zx81Keyboard.KEYS[key])
+				throw Error("Unknown ZX81 key '" + key + "' in '" + keys + "'. Allowed are A-Z, 0-9, SHIFT, NEWLINE, SPACE and '.'.");
+		}
+		return result.sort((a, b) => (b == 'SHIFT' ? 1 : 0) - (a == 'SHIFT' ? 1 : 0));
+	}
+
+
+	/**
+	 * Sets the map of the keys of the host to the keys of the ZX81.
+	 * @param keyMap The keys of the host (KeyboardEvent.code, with "Shift+" for Shift) and the keys
+	 * of the ZX81, e.g. {"KeyQ": "A", "Backspace": "SHIFT+0", "Shift+Digit1": "1"}. They replace the default ones.
+	 * Throws an exception if a key of the ZX81 does not exist.
+	 */
+	public setKeyMap(keyMap: {[key: string]: string}) {
+		const map = new Map<string, Array<string>>();
+		for (const key of Object.keys(Zx81Keyboard.KEYS)) {
+			if (key >= 'A' && key <= 'Z' && key.length == 1)
+				map.set('Key' + key, [key]);
+			else if (key >= '0' && key <= '9')
+				map.set('Digit' + key, [key]);
+		}
+		const maps = [Zx81Keyboard.DEFAULT_KEY_MAP, keyMap];
+		for (const keys of maps) {
+			for (const key in keys)
+				map.set(key, Zx81Keyboard.parseKeys(keys[key]));
+		}
+		this.keyMap = map;
+	}
+
+
+	/**
+	 * Returns the value of a half row.
+	 * @param port The port of the half row, e.g. 0xFEFE.
+	 */
+	public getPort(port: number): number {
+		const value = this.rows.get(port);
+		if (value == undefined)
+			throw Error("Port " + port.toString(16).toUpperCase() + "h is not a port of the keyboard.");
+		return value;
+	}
+
+
+	/**
+	 * Returns the values of all the half rows (in the order of PORTS).
+	 */
+	public getPorts(): Array<number> {
+		return Zx81Keyboard.PORTS.map(port => this.rows.get(port)!);
+	}
+
+
+	/**
+	 * Sets the values of all the half rows, without updating LAST_K.
+	 * @param values The values in the order of PORTS.
+	 */
+	public setPorts(values: Array<number>) {
+		Zx81Keyboard.PORTS.forEach((port, i) => this.rows.set(port, values[i] ?? 0xFF));
+		this.hostKeys.clear();
+		this.pressCounts.clear();
+	}
+
+
+	/**
+	 * Changes the value of a half row and updates LAST_K.
+	 * @param port The port of the half row, e.g. 0xFEFE.
+	 * @param value The value (5 lower bits, 0 = pressed).
+	 */
+	public setPort(port: number, value: number) {
+		const previous = this.getPort(port);
+		if (value == previous)
+			return;
+		this.rows.set(port, value);
+		this.updateLastK(port, previous, value);
+		this.portListener?.(port, value);
+	}
+
+
+	/**
+	 * Updates LAST_K (2 bytes) after a change of a half row:
+	 * - Key pressed: the half row and the bit (shifted by 1, bit 0 = Shift).
+	 * - Key released: FFFFh.
+	 * Shift alone does not change LAST_K.
+	 * @param port The port of the half row.
+	 * @param previous The previous value.
+	 * @param value The new value.
+	 */
+	protected updateLastK(port: number, previous: number, value: number) {
+		let pressed = previous & ~value & 0x1F;
+		if (port == 0xFEFE)
+			pressed &= ~0x01;	// Shift
+		if (pressed) {
+			let n_bit = 0;
+			while (!(pressed & (1 << n_bit)))
+				n_bit++;
+			const shift = (this.rows.get(0xFEFE)! & 0x01) == 0;
+			this.memory.writeBlock(Zx81Keyboard.LAST_K, new Uint8Array([port >> 8, ~(1 << (n_bit + 1)) & (shift ? 0xFE : 0xFF)]));
+		}
+		else if (~previous & value & 0x1F) {
+			this.memory.writeBlock(Zx81Keyboard.LAST_K, new Uint8Array([0xFF, 0xFF]));
+		}
+	}
+
+
+	/**
+	 * Called on key press or key release (keys of the host).
+	 * A key is released as it was pressed, even if Shift has changed since.
+	 * @param key E.g. "Digit2", "KeyQ", "Enter", "Space" or "Backspace".
+	 * @param shift true if Shift is pressed with the key.
+	 * @param on true: pressed, false: released.
+	 */
+	public keyChanged(key: string, shift: boolean, on: boolean) {
+		if (this.locked)
+			return;
+		if (!on) {
+			const keys = this.hostKeys.get(key);
+			if (keys) {
+				this.hostKeys.delete(key);
+				this.changeKeys(keys, false);
+			}
+			return;
+		}
+		// Ignore the repeated key presses
+		if (this.hostKeys.has(key))
+			return;
+		let keys = shift ? this.keyMap.get('Shift+' + key) : undefined;
+		if (!keys) {
+			keys = this.keyMap.get(key);
+			if (!keys)
+				return;
+			if (shift && !keys.includes('SHIFT'))
+				keys = ['SHIFT', ...keys];
+		}
+		this.hostKeys.set(key, keys);
+		this.changeKeys(keys, true);
+	}
+
+
+	/**
+	 * Presses or releases keys of the ZX81 (even if locked).
+	 * A key pressed several times is released when it has been released as many times.
+	 * @param keys The keys, e.g. ["SHIFT", "0"]. SHIFT first.
+	 * @param on true: pressed, false: released.
+	 */
+	public changeKeys(keys: Array<string>, on: boolean) {
+		// When pressed, Shift first so that LAST_K has the shifted key. When released, Shift last.
+		const ordered = on ? keys : [...keys].reverse();
+		for (const key of ordered) {
+			const count = Math.max((this.pressCounts.get(key) ?? 0) + (on ? 1 : -1), 0);
+			this.pressCounts.set(key, count);
+			if (!on && count > 0)
+				continue;
+			const [row, n_bit] = this.keys[key];
+			const port = (row << 8) | 0xFE;
+			const bit = 1 << n_bit;
+			const value = this.getPort(port);
+			this.setPort(port, on ? value & ~bit : value | bit);
+		}
+	}
+
+
+	/**
+	 * Releases all the keys.
+	 */
+	public releaseAll() {
+		for (const port of Zx81Keyboard.PORTS)
+			this.setPort(port, 0xFF);
+		this.hostKeys.clear();
+		this.pressCounts.clear();
+	}
+
+
+	/**
+	 * Returns the size the serialized object would consume.
+	 */
+	public getSerializedSize(): number {
+		// Create a MemBuffer to calculate the size.
+		const memBuffer = new MemBuffer();
+		// Serialize object to obtain size
+		this.serialize(memBuffer);
+		// Get size
+		const size = memBuffer.getSize();
+		return size;
+	}
+
+
+	/**
+	 * Serializes the object: the half rows.
+	 */
+	public serialize(memBuffer: MemBuffer) {
+		memBuffer.writeArrayBuffer(new Uint8Array(this.getPorts()).buffer);
+	}
+
+
+	/**
+	 * Deserializes the object.
+	 */
+	public deserialize(memBuffer: MemBuffer) {
+		this.setPorts(Array.from(memBuffer.readArrayBuffer()));
+	}
+}
@@ -0,0 +1,326 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81keytyper.ts
+ * Description:		Types a text on the keyboard of the ZX81 (e.g. LOAD "" and NEWLINE).
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import {Zx81Keyboard} from './zx81keyboard';
+
+
+/**
+ * A key stroke: the keys pressed together (e.g. ["SHIFT", "P"])
+ * or a number of frames to wait ({WAIT 50}).
+ */
+export type Zx81KeyStroke = Array<string> | number;
+
+/**
+ * Types a text on the keyboard of the ZX81: the text is converted into
+ * key strokes that are pressed and released one after the other.
+ * The keywords are typed as on a ZX81:
+ * - At the start of a line (after the line number) or after THEN, the cursor is K:
+ *   the keywords of the keys (e.g. LOAD is J).
+ * - The shifted keywords (e.g. AND, THEN, STOP) and symbols (e.g. ", <=, **) with SHIFT.
+ * - The functions (e.g. USR, CODE, INKEY$) with FUNCTION (SHIFT+NEWLINE) and the key.
+ * The spaces outside of the strings are not typed (the ZX81 adds them).
+ * A line feed or {NEWLINE} is NEWLINE. Other keys are in braces, e.g. {RUBOUT},
+ * {EDIT}, {GRAPHICS}, {LEFT} or keys of the ZX81 such as {SHIFT+Q}.
+ * {WAIT n} waits n frames before the next key, e.g. RUN{NEWLINE}{WAIT 50}.
+ *
+ * The ROM reads a key only when it waits for it (KEY-INPUT), not e.g. while it
+ * lists the program after NEWLINE: a key is pressed when the ROM waits for it
+ * and released when the ROM has read it. A program that reads the keyboard
+ * itself (e.g. a game) does not wait in the ROM: the keys are pressed and released
+ * after MAX_FRAMES (MAX_BUSY_FRAMES after a key read by the ROM, e.g. RUN,
+ * unless there is a {WAIT n}). It is also the case if the ROM is not the one of
+ * the ZX81 at KEY-INPUT (waitRom is false).
+ */
+export class Zx81KeyTyper {
+	// The minimum frames a key is pressed, then released (the ROM debounces the keys).
+	protected static readonly PRESS_FRAMES = 3;
+	protected static readonly RELEASE_FRAMES = 5;
+
+	// The maximum frames to wait for the ROM to wait for a key or to read it.
+	protected static readonly MAX_FRAMES = 25;
+
+	// The maximum frames to wait for the ROM to wait for a key after it has read one
+	// (e.g. while it lists the program or runs a line).
+	protected static readonly MAX_BUSY_FRAMES = 250;
+
+	// The addresses in the ROM (KEY-INPUT) of the loop waiting for a key and just after it (the key is read).
+	protected static readonly WAIT_KEY = 0x04CF;
+	protected static readonly KEY_READ = 0x04D3;
+
+	// The first bytes of the ROM of the ZX81 at these addresses.
+	public static readonly ROM_BYTES: {[address: number]: Array<number>} = {
+		[Zx81KeyTyper.WAIT_KEY]: [0xCB, 0x46, 0x28, 0xFC],
+		[Zx81KeyTyper.KEY_READ]: [0xED, 0x4B, 0x25, 0x40]
+	};
+
+	// The keywords of the K cursor.
+	protected static readonly K_KEYWORDS: {[keyword: string]: string} = {
+		NEW: 'A', SCROLL: 'B', CONT: 'C', DIM: 'D', REM: 'E', FOR: 'F', GOTO: 'G', GOSUB: 'H', INPUT: 'I',
+		LOAD: 'J', LIST: 'K', LET: 'L', PAUSE: 'M', NEXT: 'N', POKE: 'O', PRINT: 'P', PLOT: 'Q', RUN: 'R',
+		SAVE: 'S', RAND: 'T', IF: 'U', CLS: 'V', UNPLOT: 'W', CLEAR: 'X', RETURN: 'Y', COPY: 'Z'
+	};
+
+	// The keywords and symbols typed with SHIFT.
+	protected static readonly SHIFTED: {[keyword: string]: string} = {
+		STOP: 'A', LPRINT: 'S', SLOW: 'D', FAST: 'F', LLIST: 'G', OR: 'W', STEP: 'E', AND: '2', THEN: '3', TO: '4',
+		'**': 'H', '<=': 'R', '<>': 'T', '>=': 'Y',
+		'"': 'P', '$': 'U', '(': 'I', ')': 'O', ':': 'Z', ';': 'X', '?': 'C', '/': 'V', '*': 'B',
+		'<': 'N', '>': 'M', ',': '.', '£': 'SPACE', '-': 'J', '+': 'K', '=': 'L'
+	};
+
+	// The functions (typed with FUNCTION).
+	protected static readonly FUNCTIONS: {[keyword: string]: string} = {
+		SIN: 'Q', COS: 'W', TAN: 'E', INT: 'R', RND: 'T', 'STR$': 'Y', 'CHR$': 'U', CODE: 'I', PEEK: 'O', TAB: 'P',
+		ASN: 'A', ACS: 'S', ATN: 'D', SGN: 'F', ABS: 'G', SQR: 'H', VAL: 'J', LEN: 'K', USR: 'L',
+		LN: 'Z', EXP: 'X', AT: 'C', 'INKEY$': 'B', NOT: 'N', PI: 'M'
+	};
+
+	// The keys in braces that are not keys of the ZX81.
+	protected static readonly SPECIAL_KEYS: {[name: string]: string} = {
+		RUBOUT: 'SHIFT+0', EDIT: 'SHIFT+1', LEFT: 'SHIFT+5', DOWN: 'SHIFT+6', UP: 'SHIFT+7', RIGHT: 'SHIFT+8',
+		GRAPHICS: 'SHIFT+9', FUNCTION: 'SHIFT+NEWLINE', BREAK: 'SPACE'
+	};
+
+	// The keyboard.
+	protected keyboard: Zx81Keyboard;
+
+	// The T-states of a frame.
+	protected tstatesPerFrame: number;
+
+	// The key strokes not yet typed.
+	protected strokes: Array<Zx81KeyStroke>;
+
+	// The keys currently pressed or undefined.
+	protected pressed: Array<string> | undefined;
+
+	// The T-states since the key was pressed or released.
+	protected tstates: number;
+
+	// true if the ROM has read the key pressed (or the last key).
+	protected read: boolean;
+
+	// false if the ROM is not the one of the ZX81 at KEY-INPUT: the keys are typed without waiting for it.
+	public waitRom = true;
+
+
+	/**
+	 * Constructor.
+	 * @param keyboard The keyboard.
+	 * @param tstatesPerFrame The T-states of a frame (the keys are pressed during a few frames).
+	 */
+	constructor(keyboard: Zx81Keyboard, tstatesPerFrame: number) {
+		this.keyboard = keyboard;
+		this.tstatesPerFrame = tstatesPerFrame;
+		this.strokes = [];
+		this.pressed = undefined;
+		this.tstates = 0;
+		this.read = false;
+	}
+
+
+	/**
+	 * Converts a text into key strokes.
+	 * @param text The text, e.g. 'LOAD ""{NEWLINE}'. The letters can be lowercase.
+	 * @returns The key strokes, e.g. [["J"], ["SHIFT", "P"], ["SHIFT", "P"], ["NEWLINE"]].
+	 * Throws an exception if the text can't be typed.
+	 */
+	public static parse(text: string): Array<Zx81KeyStroke> {
+		const strokes = new Array<Zx81KeyStroke>();
+		// The cursor: K (keywords) or L, the line number and the string
+		let kCursor = true;
+		let lineStart = true;
+		let inString = false;
+		const wordRegex = /[A-Z]+\$?/iy;
+		let i = 0;
+		while (i < text.length) {
+			const c = text[i];
+			if (c == '{') {
+				const end = text.indexOf('}', i);
+				if (end < 0)
+					throw Error("Missing '}' in '" + text + "'.");
+				const name = text.substring(i + 1, end).trim().toUpperCase();
+				if (name.startsWith('WAIT')) {
+					const frames = name.substring(4).trim();
+					if (!/^\d+$/.test(frames))
+						throw Error("A number of frames is expected in '" + text.substring(i, end + 1) + "'.");
+					strokes.push(parseInt(frames));
+					i = end + 1;
+					continue;
+				}
+				i = end + 1;
+				const keys = Zx81KeyTyper.SPECIAL_KEYS[name] ?? name;
+				strokes.push(Zx81Keyboard.parseKeys(keys));
+				if (name == 'NEWLINE') {
+					kCursor = true;
+					lineStart = true;
+					inString = false;
+				}
+				continue;
+			}
+			if (c == '\n' || c == '\r') {
+				// \r\n is one NEWLINE
+				if (!(c == '\n' && text[i - 1] == '\r'))
+					strokes.push(['NEWLINE']);
+				kCursor = true;
+				lineStart = true;
+				inString = false;
+				i++;
+				continue;
+			}
+			if (c == '"')
+				inString = !inString;
+			else if (!inString) {
+				// The spaces are not typed
+				if (c == ' ' || c == '\t') {
+					i++;
+					continue;
+				}
+				// The line number does not change the cursor
+				if (lineStart && c >= '0' && c <= '9') {
+					strokes.push([c]);
+					i++;
+					continue;
+				}
+				// Keywords and variables
+				wordRegex.lastIndex = i;
+				const match = wordRegex.exec(text);
+				if (match) {
+					const word = match[0].toUpperCase();
+					if (kCursor && Zx81KeyTyper.K_KEYWORDS[word]) {
+						strokes.push([Zx81KeyTyper.K_KEYWORDS[word]]);
+						kCursor = false;
+					}
+					else if (Zx81KeyTyper.SHIFTED[word]) {
+						strokes.push(['SHIFT', Zx81KeyTyper.SHIFTED[word]]);
+						kCursor = (word == 'THEN');
+					}
+					else if (Zx81KeyTyper.FUNCTIONS[word]) {
+						strokes.push(['SHIFT', 'NEWLINE'], [Zx81KeyTyper.FUNCTIONS[word]]);
+						kCursor = false;
+					}
+					else {
+						// A variable: the letters (and the $ as a symbol)
+						const letters = word.replace('$', '');
+						for (const letter of letters)
+							strokes.push([letter]);
+						kCursor = false;
+						lineStart = false;
+						i += letters.length;
+						continue;
+					}
+					lineStart = false;
+					i += word.length;
+					continue;
+				}
+				// Symbols of 2 characters
+				const symbol = Zx81KeyTyper.SHIFTED[text.substring(i, i + 2)];
+				if (symbol) {
+					strokes.push(['SHIFT', symbol]);
+					kCursor = false;
+					lineStart = false;
+					i += 2;
+					continue;
+				}
+			}
+			strokes.push(Zx81KeyTyper.getCharacterKeys(c));
+			kCursor = false;
+			lineStart = false;
+			i++;
+		}
+		return strokes;
+	}
+
+
+	/**
+	 * Returns the keys of a character.
+	 * @param c The character, e.g. "A", "1", "." or "$".
+	 * @returns The keys, e.g. ["A"] or ["SHIFT", "U"].
+	 * Throws an exception if the character is not on the keyboard.
+	 */
+	protected static getCharacterKeys(c: string): Array<string> {
+		const key = (c == ' ') ? 'SPACE' : c.toUpperCase();
+		if (key == 'SPACE' || (key.length == 1 && Zx81Keyboard.KEYS[key]))
+			return [key];
+		const shifted = Zx81KeyTyper.SHIFTED[c];
+		if (shifted)
+			return ['SHIFT', shifted];
+		throw Error("The character '" + c + "' is not on the keyboard of the ZX81.");
+	}
+
+
+	/**
+	 * Types a text after the text being typed.
+	 * @param text The text, e.g. 'LOAD ""{NEWLINE}'. See 'parse'.
+	 * Throws an exception if the text can't be typed.
+	 */
+	public type(text: string) {
+		this.strokes.push(...Zx81KeyTyper.parse(text));
+	}
+
+
+	/**
+	 * Returns true if a text is being typed.
+	 */
+	public isTyping(): boolean {
+		return this.pressed != undefined || this.strokes.length > 0;
+	}
+
+
+	/**
+	 * Stops typing: the key pressed is released and the rest of the text is lost.
+	 */
+	public cancel() {
+		if (this.pressed)
+			this.keyboard.changeKeys(this.pressed, false);
+		this.pressed = undefined;
+		this.strokes = [];
+		this.tstates = 0;
+	}
+
+
+	/**
+	 * Presses and releases the keys. Called after each instruction.
+	 * @param tStates The T-states of the instruction.
+	 * @param pc The program counter (to know when the ROM waits for a key and reads it).
+	 */
+	public tick(tStates: number, pc: number) {
+		if (!this.isTyping())
+			return;
+		this.tstates += tStates;
+		const frames = this.tstates / this.tstatesPerFrame;
+		if (this.pressed) {
+			if (this.waitRom && pc == Zx81KeyTyper.KEY_READ)
+				this.read = true;
+			if (frames < Zx81KeyTyper.PRESS_FRAMES || (!this.read && frames < Zx81KeyTyper.MAX_FRAMES))
+				return;
+			this.keyboard.changeKeys(this.pressed, false);
+			this.pressed = undefined;
+		}
+		else {
+			const stroke = this.strokes[0];
+			if (typeof stroke == 'number') {
+				// Wait, then the next key does not wait for the ROM after a key it has read
+				if (frames < stroke)
+					return;
+				this.strokes.shift();
+				this.read = false;
+			}
+			else {
+				const maxFrames = this.read ? Zx81KeyTyper.MAX_BUSY_FRAMES : Zx81KeyTyper.MAX_FRAMES;
+				if (frames < Zx81KeyTyper.RELEASE_FRAMES || ((!this.waitRom || pc != Zx81KeyTyper.WAIT_KEY) && frames < maxFrames))
+					return;
+				this.strokes.shift();
+				this.pressed = stroke;
+				this.keyboard.changeKeys(stroke, true);
+				this.read = false;
+			}
+		}
+		this.tstates = 0;
+	}
+}
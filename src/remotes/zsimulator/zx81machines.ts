@@ -0,0 +1,107 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81machines.ts
+ * Description:		The machines simulated by zsim: the ZX81 and its clones.
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import * as fs from 'fs';
+import {Utility} from '../../misc/utility';
+import {SimulatedMemory} from './simulatedmemory';
+import {Zx81Keyboard} from './zx81keyboard';
+
+
+/**
+ * A machine compatible with the ZX81.
+ */
+export interface Zx81Machine {
+	// The name of the machine, e.g. "Timex Sinclair 1000".
+	title: string;
+	// The file of the ROM (in the data folder of the extension).
+	rom: string;
+	// The memory model by default (zsim.memoryModel).
+	memoryModel: string;
+	// The region by default (zsim.region).
+	region: string;
+	// The character set shown by the ZX81 view: 'ZX81' (the images of the characters of the ZX81)
+	// or 'ROM' (the images are drawn from the character patterns of the ROM).
+	charset: string;
+	// The keyboard matrix: the half row (upper byte of the port) and the bit of each key.
+	keys: {[key: string]: [number, number]};
+}
+
+
+/**
+ * The machines (zsim.machine). They all have the ULA and the memory map of the ZX81.
+ * They differ by the ROM (and its character set), the RAM, the region and the keyboard:
+ * - ZX81: 1K of RAM (16K with the RAM pack, the default), PAL.
+ * - TS1000: the ZX81 of Timex Sinclair with 2K of RAM, NTSC.
+ * - TS1500: 16K of RAM, NTSC.
+ * - LAMBDA8300: a clone with its own ROM and character set, 2K of RAM, PAL.
+ *   Its keys are wired at the same half rows as on the ZX81, the ROM gives them other keywords.
+ *   The ROM is not distributed with the extension.
+ */
+export class Zx81Machines {
+	// The machines by name.
+	public static readonly MACHINES: {[name: string]: Zx81Machine} = {
+		ZX81: {title: "ZX81", rom: 'zx81.rom', memoryModel: '16K', region: 'PAL', charset: 'ZX81', keys: Zx81Keyboard.KEYS},
+		TS1000: {title: "Timex Sinclair 1000", rom: 'zx81.rom', memoryModel: '2K', region: 'NTSC', charset: 'ZX81', keys: Zx81Keyboard.KEYS},
+		TS1500: {title: "Timex Sinclair 1500", rom: 'zx81.rom', memoryModel: '16K', region: 'NTSC', charset: 'ZX81', keys: Zx81Keyboard.KEYS},
+		LAMBDA8300: {title: "Lambda 8300", rom: 'lambda8300.rom', memoryModel: '2K', region: 'PAL', charset: 'ROM', keys: Zx81Keyboard.KEYS}
+	};
+
+
+	/**
+	 * Returns the names of the machines, e.g. "TS1000".
+	 */
+	public static getNames(): Array<string> {
+		return Object.keys(Zx81Machines.MACHINES);
+	}
+
+
+	/**
+	 * Returns a machine.
+	 * @param name The name, e.g. "TS1000".
+	 * Throws an exception if the machine does not exist.
+	 */
+	public static get(name: string): Zx81Machine {
+		const machine = Zx81Machines.MACHINES[name];
+		if (!machine)
+			throw Error("Machine '" + name + "' does not exist. Allowed are " + Zx81Machines.getNames().join(', ') + ".");
+		return machine;
+	}
+
+
+	/**
+	 * Returns the absolute path of the ROM of a machine.
+	 * @param machine The machine.
+	 * Throws an exception if the ROM does not exist (e.g. the ROM of the Lambda 8300 is not distributed).
+	 */
+	public static getRomPath(machine: Zx81Machine): string {
+		const folder = Utility.getExtensionPath() + '/data/';
+		const romPath = folder + machine.rom;
+		if (!fs.existsSync(romPath))
+			throw Error("The ROM of the " + machine.title + " ('" + machine.rom + "') is not distributed with the extension. Copy it to '" + folder + "' or set 'zsim.rom'.");
+		return romPath;
+	}
+
+
+	/**
+	 * Returns true if the memory contains the bytes of the ROM of the ZX81 at
+	 * the addresses hooked by the simulator (e.g. LOAD and SAVE).
+	 * Another ROM (zsim.rom) or patches (zsim.romPatches) may have moved the routines.
+	 * @param memory The memory with the ROM and its patches.
+	 * @param romBytes The first bytes of the ROM of the ZX81 at each address.
+	 */
+	public static matchesRom(memory: SimulatedMemory, romBytes: {[address: number]: Array<number>}): boolean {
+		for (const address in romBytes) {
+			const bytes = romBytes[address];
+			const data = memory.readBlock(parseInt(address), bytes.length);
+			if (bytes.some((value, i) => data[i] != value))
+				return false;
+		}
+		return true;
+	}
+}
@@ -0,0 +1,222 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81printer.ts
+ * Description:		Simulation of the ZX Printer (port FB).
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import {MemBuffer, Serializable} from '../../misc/membuffer';
+import {Zx81Charset} from '../../misc/zx81charset';
+import {Zx81Screenshot} from '../../misc/zx81screenshot';
+import {Z80Ports} from './z80ports';
+
+
+/**
+ * The ZX Printer, selected by A2 low (e.g. port FB).
+ * OUT: bit 7 = stylus on (black dot), bit 2 = motor off, bit 1 = slow motor.
+ * IN: bit 0 = encoder (the stylus is on the next dot), bit 6 = 0 (printer present),
+ * bit 7 = start of a line (the stylus reaches the paper).
+ * The printer follows the program instead of the time: when the motor runs,
+ * the first read of a line returns bit 7 and each following read returns
+ * bit 0 and moves the stylus to the next dot. The dot is black if the stylus
+ * is on when the stylus leaves it. A line (one row of pixels) is 256 dots.
+ * This is what the ROM (COPY, LPRINT, LLIST) does. The speed of the paper
+ * (slow motor) is not simulated.
+ */
+export class Zx81Printer implements Serializable {
+	// The number of dots of a row.
+	public static readonly WIDTH = 256;
+
+	// The value of the unused bits when reading the port.
+	protected static readonly UNUSED_BITS = 0x3E;
+
+	// The rows printed (one byte per pixel, 0 = white, 1 = black).
+	public rows: Array<Uint8Array>;
+
+	// Called when a row has been printed.
+	public rowListener: (() => void) | undefined;
+
+	// true if the motor runs.
+	protected motor: boolean;
+
+	// true if the stylus is on.
+	protected stylus: boolean;
+
+	// The dot of the stylus: -2 before the start of the line, -1 at the start of the line.
+	protected position: number;
+
+	// The row being printed.
+	protected row: Uint8Array;
+
+
+	/**
+	 * Constructor.
+	 * @param ports The ports. The printer registers its functions for A2 low.
+	 */
+	constructor(ports: Z80Ports) {
+		this.rows = [];
+		this.motor = false;
+		this.stylus = false;
+		this.position = -2;
+		this.row = new Uint8Array(Zx81Printer.WIDTH);
+		ports.registerGenericOutPortFunction((port: number, value: number) => this.out(port, value));
+		ports.registerGenericInPortFunction((port: number) => this.in(port));
+	}
+
+
+	/**
+	 * Called on each OUT: the stylus and the motor.
+	 * @param port The port address.
+	 * @param value The value written.
+	 */
+	protected out(port: number, value: number) {
+		if (port & 0x04)
+			return;
+		this.stylus = (value & 0x80) != 0;
+		this.motor = (value & 0x04) == 0;
+		// Stopped in the middle of a line
+		if (!this.motor && this.position >= 0)
+			this.endRow();
+	}
+
+
+	/**
+	 * Called on each IN: the start of a line or the encoder.
+	 * @param port The port address.
+	 * @returns The value read or undefined if the port is not the printer.
+	 */
+	protected in(port: number): number | undefined {
+		if (port & 0x04)
+			return undefined;
+		if (!this.motor)
+			return Zx81Printer.UNUSED_BITS;
+		// Start of a line
+		if (this.position == -2) {
+			this.position = -1;
+			return Zx81Printer.UNUSED_BITS | 0x80;
+		}
+		// The stylus leaves the dot and moves to the next one
+		if (this.position >= 0 && this.stylus)
+			this.row[this.position] = 1;
+		this.position++;
+		if (this.position == Zx81Printer.WIDTH)
+			this.endRow();
+		return Zx81Printer.UNUSED_BITS | 0x01;
+	}
+
+
+	/**
+	 * Adds the row being printed to the paper.
+	 */
+	protected endRow() {
+		this.rows.push(this.row);
+		this.row = new Uint8Array(Zx81Printer.WIDTH);
+		this.position = -2;
+		this.rowListener?.();
+	}
+
+
+	/**
+	 * Removes the paper (the rows printed).
+	 */
+	public clear() {
+		this.rows = [];
+	}
+
+
+	/**
+	 * Returns the pixels of the paper (one byte per pixel, 0 = white, 1 = black).
+	 * The width is WIDTH, the height the number of rows.
+	 */
+	public getPixels(): Uint8Array {
+		const pixels = new Uint8Array(Zx81Printer.WIDTH * this.rows.length);
+		this.rows.forEach((row, y) => pixels.set(row, y * Zx81Printer.WIDTH));
+		return pixels;
+	}
+
+
+	/**
+	 * Returns the paper as a PNG image.
+	 * @param scale The size of a dot in the image.
+	 */
+	public toPng(scale = 1): Buffer {
+		return Zx81Screenshot.pixelsToPng(this.getPixels(), Zx81Printer.WIDTH, this.rows.length, scale);
+	}
+
+
+	/**
+	 * Returns the paper as text. The rows are decoded by groups of 8
+	 * (one line of 32 characters) with the character patterns.
+	 * The inverse characters are shown like the normal characters, the unknown
+	 * patterns (e.g. graphics) and the graphic characters as '?'.
+	 * @param charset The character patterns (e.g. of the ROM at 1E00h).
+	 */
+	public toText(charset: Uint8Array): string {
+		// The characters by pattern (8 bytes), the normal characters first
+		const codes = new Map<string, number>();
+		for (const inverse of [0, 0xFF]) {
+			for (let code = 0; code < 64; code++) {
+				const pattern = Array.from(charset.subarray(code * 8, code * 8 + 8), byte => byte ^ inverse).join(',');
+				if (!codes.has(pattern))
+					codes.set(pattern, code | (inverse & 0x80));
+			}
+		}
+
+		const lines = new Array<string>();
+		for (let y = 0; y < this.rows.length; y += 8) {
+			let line = '';
+			for (let x = 0; x < Zx81Printer.WIDTH; x += 8) {
+				const pattern = new Array<number>();
+				for (let row = y; row < y + 8; row++) {
+					let byte = 0;
+					for (let bit = 0; bit < 8; bit++)
+						byte = (byte << 1) | (this.rows[row]?.[x + bit] ?? 0);
+					pattern.push(byte);
+				}
+				const code = codes.get(pattern.join(','));
+				line += (code == undefined) ? '?' : Zx81Charset.toAscii(code);
+			}
+			lines.push(line.trimEnd());
+		}
+		return lines.map(line => line + '\n').join('');
+	}
+
+
+	/**
+	 * Returns the size the serialized object would consume.
+	 */
+	public getSerializedSize(): number {
+		// Create a MemBuffer to calculate the size.
+		const memBuffer = new MemBuffer();
+		// Serialize object to obtain size
+		this.serialize(memBuffer);
+		// Get size
+		const size = memBuffer.getSize();
+		return size;
+	}
+
+
+	/**
+	 * Serializes the object: the motor, the stylus and the row being printed.
+	 * The paper (the rows printed) is not part of the state.
+	 */
+	public serialize(memBuffer: MemBuffer) {
+		memBuffer.writeBoolean(this.motor);
+		memBuffer.writeBoolean(this.stylus);
+		memBuffer.writeNumber(this.position);
+		memBuffer.writeArrayBuffer(this.row.buffer as ArrayBuffer);
+	}
+
+
+	/**
+	 * Deserializes the object.
+	 */
+	public deserialize(memBuffer: MemBuffer) {
+		this.motor = memBuffer.readBoolean();
+		this.stylus = memBuffer.readBoolean();
+		this.position = memBuffer.readNumber();
+		this.row = new Uint8Array(memBuffer.readArrayBuffer());
+	}
+}
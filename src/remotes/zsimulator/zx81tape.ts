@@ -0,0 +1,545 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81tape.ts
+ * Description:		Simulation of a tape deck connected to the EAR input of the ZX81.
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import * as fs from 'fs';
+import {MemBuffer, Serializable} from '../../misc/membuffer';
+import {UnifiedPath} from '../../misc/unifiedpath';
+import {Utility} from '../../misc/utility';
+import {Zx81Charset} from '../../misc/zx81charset';
+import {Z80Ports} from './z80ports';
+
+
+/**
+ * The signal of a tape: the durations (in T-states) of the levels.
+ * The levels alternate, starting with low (silence).
+ */
+class TapeSignal {
+	// The durations of the levels. Even indexes are low, odd indexes are high.
+	public durations: Array<number> = [0];
+
+	// The current level (at the end of the signal).
+	public level = false;
+
+
+	/**
+	 * Adds a level.
+	 * @param level The level (true = high).
+	 * @param duration The duration in T-states.
+	 */
+	public add(level: boolean, duration: number) {
+		if (level != this.level) {
+			this.durations.push(0);
+			this.level = level;
+		}
+		this.durations[this.durations.length - 1] += duration;
+	}
+
+
+	/**
+	 * Adds a pulse: the level is inverted.
+	 * @param duration The duration in T-states.
+	 */
+	public pulse(duration: number) {
+		this.add(!this.level, duration);
+	}
+}
+
+
+/**
+ * A tape deck connected to the EAR input (bit 7 of port FE).
+ * The tape is a .P file (the pulses are generated as the ROM SAVE does),
+ * a .TZX file or a .WAV file. It is played against the T-states of the CPU
+ * so that the loaders (the ROM or custom/turbo loaders) can be debugged.
+ * When a tape is inserted, bit 7 of all the even ports is the level of the
+ * signal (0 when the tape is stopped).
+ */
+export class Zx81Tape implements Serializable {
+	// The durations of the ZX81 signal in seconds: a pulse is 150 µs high and
+	// 150 µs low, a bit is followed by 1300 µs of silence.
+	protected static readonly PULSE = 150e-6;
+	protected static readonly GAP = 1300e-6;
+
+	// The number of pulses for a bit 0 and for a bit 1.
+	protected static readonly PULSES_0 = 4;
+	protected static readonly PULSES_1 = 9;
+
+	// The silence before and after a program generated from a .P file (in seconds).
+	protected static readonly LEADER = 1;
+
+	// The T-states of the TZX files are for a 3.5 MHz clock.
+	protected static readonly TZX_FREQUENCY = 3500000;
+
+	// The CPU frequency, used to convert the durations into T-states.
+	protected cpuFrequency: number;
+
+	// The path of the tape file or undefined if there is no tape.
+	public filePath: string | undefined;
+
+	// The durations (in T-states) of the levels, starting with low.
+	protected durations: Array<number>;
+
+	// The total length of the tape in T-states.
+	protected length: number;
+
+	// The index of the current level.
+	protected index: number;
+
+	// The T-states remaining for the current level.
+	protected remaining: number;
+
+	// The T-states elapsed since the start of the tape.
+	protected elapsed: number;
+
+	// true if the tape is playing.
+	public playing: boolean;
+
+
+	/**
+	 * Constructor.
+	 * @param ports The ports. The tape sets bit 7 (EAR) of the even ports.
+	 * @param cpuFrequency The CPU frequency in Hz.
+	 */
+	constructor(ports: Z80Ports, cpuFrequency: number) {
+		this.cpuFrequency = cpuFrequency;
+		this.filePath = undefined;
+		this.durations = [0];
+		this.length = 0;
+		this.playing = false;
+		this.rewind();
+		ports.registerInPortFilterFunction((port: number, value: number) => this.in(port, value));
+	}
+
+
+	/**
+	 * Called on each IN. Sets bit 7 of the even ports to the level of the signal.
+	 * @param port The port address.
+	 * @param value The value read.
+	 * @returns The value with the EAR bit.
+	 */
+	protected in(port: number, value: number): number {
+		if (this.filePath == undefined || (port & 0x01) != 0)
+			return value;
+		return this.level ? value | 0x80 : value & 0x7F;
+	}
+
+
+	/**
+	 * Returns the level of the signal (true = high).
+	 */
+	public get level(): boolean {
+		return this.playing && (this.index & 0x01) != 0;
+	}
+
+
+	/**
+	 * Inserts a tape. The tape is rewound and stopped.
+	 * Throws an exception if the file can't be read or has an invalid format.
+	 * @param filePath The path of a .P, .TZX or .WAV file.
+	 */
+	public load(filePath: string) {
+		const data = fs.readFileSync(filePath);
+		const extension = UnifiedPath.extname(filePath).toUpperCase();
+		let signal: TapeSignal;
+		switch (extension) {
+			case '.P':
+			case '.81':
+				signal = this.loadP(data, UnifiedPath.basename(filePath, UnifiedPath.extname(filePath)));
+				break;
+			case '.TZX':
+				signal = this.loadTzx(data);
+				break;
+			case '.WAV':
+				signal = this.loadWav(data);
+				break;
+			default:
+				throw Error("Tape '" + filePath + "': unknown format. Allowed are .P, .TZX and .WAV.");
+		}
+		this.durations = signal.durations;
+		this.length = this.durations.reduce((total, duration) => total + duration, 0);
+		this.filePath = filePath;
+		this.stop();
+		this.rewind();
+	}
+
+
+	/**
+	 * Ejects the tape.
+	 */
+	public eject() {
+		this.filePath = undefined;
+		this.durations = [0];
+		this.length = 0;
+		this.stop();
+		this.rewind();
+	}
+
+
+	/**
+	 * Starts to play the tape (if any).
+	 */
+	public play() {
+		if (this.filePath != undefined && this.elapsed < this.length)
+			this.playing = true;
+	}
+
+
+	/**
+	 * Stops the tape.
+	 */
+	public stop() {
+		this.playing = false;
+	}
+
+
+	/**
+	 * Rewinds the tape to the start.
+	 */
+	public rewind() {
+		this.index = 0;
+		this.remaining = this.durations[0];
+		this.elapsed = 0;
+	}
+
+
+	/**
+	 * Returns the position and the length of the tape in seconds.
+	 */
+	public getPosition(): {position: number, length: number} {
+		return {
+			position: this.elapsed / this.cpuFrequency,
+			length: this.length / this.cpuFrequency
+		};
+	}
+
+
+	/**
+	 * Advances the tape. Stops at the end of the tape.
+	 * @param tStates The number of T-states elapsed.
+	 */
+	public tick(tStates: number) {
+		if (!this.playing)
+			return;
+		this.elapsed += tStates;
+		this.remaining -= tStates;
+		while (this.remaining <= 0) {
+			this.index++;
+			if (this.index >= this.durations.length) {
+				// End of the tape
+				this.elapsed = this.length;
+				this.stop();
+				return;
+			}
+			this.remaining += this.durations[this.index];
+		}
+	}
+
+
+	/**
+	 * Generates the signal of a .P file, as the ROM SAVE does.
+	 * The name of the program is the name of the file.
+	 * @param data The content of the .P file (from VERSN).
+	 * @param name The name of the program.
+	 */
+	protected loadP(data: Uint8Array, name: string): TapeSignal {
+		// The name, the last character in inverse video
+		const codes = new Array<number>();
+		for (const ch of name) {
+			const code = Zx81Charset.fromAscii(ch);
+			if (code != undefined)
+				codes.push(code);
+		}
+		if (codes.length == 0)
+			codes.push(0x00);
+		codes[codes.length - 1] |= 0x80;
+
+		const signal = new TapeSignal();
+		const pulse = Zx81Tape.PULSE * this.cpuFrequency;
+		const gap = Zx81Tape.GAP * this.cpuFrequency;
+		const leader = Zx81Tape.LEADER * this.cpuFrequency;
+		signal.add(false, leader);
+		for (const byte of [...codes, ...data]) {
+			for (let mask = 0x80; mask != 0; mask >>= 1) {
+				const count = (byte & mask) ? Zx81Tape.PULSES_1 : Zx81Tape.PULSES_0;
+				for (let i = 0; i < count; i++) {
+					signal.add(true, pulse);
+					signal.add(false, pulse);
+				}
+				signal.add(false, gap);
+			}
+		}
+		signal.add(false, leader);
+		return signal;
+	}
+
+
+	/**
+	 * Decodes a .TZX file.
+	 * Supports the blocks used for the ZX81 (generalized data, 0x19), the pure tones,
+	 * the pulse sequences, the direct recordings, the pauses and the informative blocks.
+	 * @param data The content of the .TZX file.
+	 */
+	protected loadTzx(data: Buffer): TapeSignal {
+		if (data.toString('latin1', 0, 8) != 'ZXTape!\x1A')
+			throw Error("Invalid TZX file.");
+		const signal = new TapeSignal();
+		const scale = this.cpuFrequency / Zx81Tape.TZX_FREQUENCY;
+		let offset = 10;
+		while (offset < data.length) {
+			const id = data[offset++];
+			switch (id) {
+				case 0x12:	// Pure tone
+					{
+						const duration = data.readUInt16LE(offset) * scale;
+						const count = data.readUInt16LE(offset + 2);
+						for (let i = 0; i < count; i++)
+							signal.pulse(duration);
+						offset += 4;
+					}
+					break;
+				case 0x13:	// Pulse sequence
+					{
+						const count = data[offset];
+						for (let i = 0; i < count; i++)
+							signal.pulse(data.readUInt16LE(offset + 1 + 2 * i) * scale);
+						offset += 1 + 2 * count;
+					}
+					break;
+				case 0x15:	// Direct recording
+					{
+						const duration = data.readUInt16LE(offset) * scale;
+						const pause = data.readUInt16LE(offset + 2);
+						const lastBits = data[offset + 4];
+						const length = data.readUIntLE(offset + 5, 3);
+						offset += 8;
+						for (let i = 0; i < length; i++) {
+							const bits = (i == length - 1) ? lastBits : 8;
+							for (let bit = 0; bit < bits; bit++)
+								signal.add((data[offset + i] & (0x80 >> bit)) != 0, duration);
+						}
+						offset += length;
+						this.addTzxPause(signal, pause);
+					}
+					break;
+				case 0x19:	// Generalized data
+					{
+						const length = data.readUInt32LE(offset);
+						this.addTzxGeneralizedData(signal, data.subarray(offset + 4, offset + 4 + length), scale);
+						offset += 4 + length;
+					}
+					break;
+				case 0x20:	// Pause
+					this.addTzxPause(signal, data.readUInt16LE(offset));
+					offset += 2;
+					break;
+				case 0x21:	// Group start
+				case 0x30:	// Text description
+					offset += 1 + data[offset];
+					break;
+				case 0x22:	// Group end
+					break;
+				case 0x31:	// Message
+					offset += 2 + data[offset + 1];
+					break;
+				case 0x32:	// Archive info
+					offset += 2 + data.readUInt16LE(offset);
+					break;
+				case 0x33:	// Hardware type
+					offset += 1 + 3 * data[offset];
+					break;
+				case 0x35:	// Custom info
+					offset += 20 + data.readUInt32LE(offset + 16);
+					break;
+				case 0x5A:	// Glue
+					offset += 9;
+					break;
+				default:
+					throw Error("TZX block 0x" + id.toString(16).toUpperCase() + " not supported.");
+			}
+		}
+		return signal;
+	}
+
+
+	/**
+	 * Adds a pause of a .TZX file: the level is low.
+	 * @param signal The signal.
+	 * @param pause The duration in ms.
+	 */
+	protected addTzxPause(signal: TapeSignal, pause: number) {
+		if (pause > 0)
+			signal.add(false, pause * this.cpuFrequency / 1000);
+	}
+
+
+	/**
+	 * Adds a generalized data block (0x19) of a .TZX file.
+	 * @param signal The signal.
+	 * @param block The content of the block (without the length).
+	 * @param scale The factor to convert the T-states of the TZX file.
+	 */
+	protected addTzxGeneralizedData(signal: TapeSignal, block: Buffer, scale: number) {
+		const pause = block.readUInt16LE(0);
+		const totp = block.readUInt32LE(2);
+		const npp = block[6];
+		const asp = block[7] || 256;
+		const totd = block.readUInt32LE(8);
+		const npd = block[12];
+		const asd = block[13] || 256;
+		let offset = 14;
+
+		// Reads the definition of the symbols
+		const readSymbols = (count: number, pulses: number) => {
+			const symbols = new Array<{flags: number, durations: Array<number>}>();
+			for (let i = 0; i < count; i++) {
+				const durations = new Array<number>();
+				for (let p = 0; p < pulses; p++)
+					durations.push(block.readUInt16LE(offset + 1 + 2 * p) * scale);
+				symbols.push({flags: block[offset], durations});
+				offset += 1 + 2 * pulses;
+			}
+			return symbols;
+		};
+
+		// Adds a symbol to the signal
+		const addSymbol = (symbol: {flags: number, durations: Array<number>}) => {
+			symbol.durations.every((duration, i) => {
+				if (duration == 0)
+					return false;	// End of the symbol
+				switch (i == 0 ? symbol.flags & 0x03 : 0) {
+					case 0: signal.pulse(duration); break;
+					case 1: signal.add(signal.level, duration); break;
+					case 2: signal.add(false, duration); break;
+					case 3: signal.add(true, duration); break;
+				}
+				return true;
+			});
+		};
+
+		// Pilot and sync
+		if (totp > 0) {
+			const pilotSymbols = readSymbols(asp, npp);
+			for (let i = 0; i < totp; i++) {
+				const symbol = pilotSymbols[block[offset]];
+				const count = block.readUInt16LE(offset + 1);
+				for (let r = 0; r < count; r++)
+					addSymbol(symbol);
+				offset += 3;
+			}
+		}
+
+		// Data
+		if (totd > 0) {
+			const dataSymbols = readSymbols(asd, npd);
+			const bits = Math.ceil(Math.log2(asd));
+			let bitOffset = offset * 8;
+			for (let i = 0; i < totd; i++) {
+				let index = 0;
+				for (let b = 0; b < bits; b++, bitOffset++)
+					index = (index << 1) | ((block[bitOffset >> 3] >> (7 - (bitOffset & 0x07))) & 0x01);
+				addSymbol(dataSymbols[index]);
+			}
+		}
+
+		this.addTzxPause(signal, pause);
+	}
+
+
+	/**
+	 * Decodes a .WAV file (PCM, 8 or 16 bits). Only the first channel is used.
+	 * A sample is high if it is above the middle value.
+	 * @param data The content of the .WAV file.
+	 */
+	protected loadWav(data: Buffer): TapeSignal {
+		if (data.toString('latin1', 0, 4) != 'RIFF' || data.toString('latin1', 8, 12) != 'WAVE')
+			throw Error("Invalid WAV file.");
+		let sampleRate = 0;
+		let bitsPerSample = 0;
+		let blockAlign = 0;
+		let offset = 12;
+		while (offset + 8 <= data.length) {
+			const id = data.toString('latin1', offset, offset + 4);
+			const size = data.readUInt32LE(offset + 4);
+			offset += 8;
+			if (id == 'fmt ') {
+				if (data.readUInt16LE(offset) != 1)
+					throw Error("WAV file: only PCM is supported.");
+				sampleRate = data.readUInt32LE(offset + 4);
+				blockAlign = data.readUInt16LE(offset + 12);
+				bitsPerSample = data.readUInt16LE(offset + 14);
+				if (bitsPerSample != 8 && bitsPerSample != 16)
+					throw Error("WAV file: only 8 and 16 bits are supported.");
+			}
+			else if (id == 'data') {
+				if (sampleRate == 0)
+					throw Error("WAV file: no format.");
+				const signal = new TapeSignal();
+				const end = Math.min(offset + size, data.length);
+				const tStatesPerSample = this.cpuFrequency / sampleRate;
+				for (let i = offset; i + blockAlign <= end; i += blockAlign) {
+					const high = (bitsPerSample == 8) ? data[i] > 0x80 : data.readInt16LE(i) > 0;
+					signal.add(high, tStatesPerSample);
+				}
+				return signal;
+			}
+			// Chunks are word aligned
+			offset += size + (size & 0x01);
+		}
+		throw Error("WAV file: no data.");
+	}
+
+
+	/**
+	 * Returns the size the serialized object would consume.
+	 */
+	public getSerializedSize(): number {
+		// Create a MemBuffer to calculate the size.
+		const memBuffer = new MemBuffer();
+		// Serialize object to obtain size
+		this.serialize(memBuffer);
+		// Get size
+		const size = memBuffer.getSize();
+		return size;
+	}
+
+
+	/**
+	 * Serializes the object: the tape inserted and its position.
+	 * The path of the tape is relative to the root folder (the state can be used in another folder).
+	 */
+	public serialize(memBuffer: MemBuffer) {
+		memBuffer.writeString(this.filePath ? Utility.getRelFilePath(this.filePath) : '');
+		memBuffer.writeNumber(this.index);
+		memBuffer.writeNumber(this.remaining);
+		memBuffer.writeNumber(this.elapsed);
+		memBuffer.writeBoolean(this.playing);
+	}
+
+
+	/**
+	 * Deserializes the object. The tape is inserted again if it has been changed.
+	 * Throws an exception if the tape can't be read anymore.
+	 */
+	public deserialize(memBuffer: MemBuffer) {
+		const relFilePath = memBuffer.readString();
+		const filePath = relFilePath ? Utility.getAbsFilePath(relFilePath) : undefined;
+		if (filePath != this.filePath) {
+			if (filePath) {
+				if (!fs.existsSync(filePath))
+					throw Error("The tape '" + relFilePath + "' of the saved state does not exist (in '" + Utility.getRootPath() + "').");
+				this.load(filePath);
+			}
+			else
+				this.eject();
+		}
+		this.index = memBuffer.readNumber();
+		this.remaining = memBuffer.readNumber();
+		this.elapsed = memBuffer.readNumber();
+		this.playing = memBuffer.readBoolean();
+	}
+}
@@ -0,0 +1,173 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81tapetraps.ts
+ * Description:		Traps the LOAD and SAVE routines of the ROM to use .P files.
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import * as fs from 'fs';
+import {UnifiedPath} from '../../misc/unifiedpath';
+import {Zx81Charset} from '../../misc/zx81charset';
+import {SimulatedMemory} from './simulatedmemory';
+import {Z80Cpu} from './z80cpu';
+
+
+/**
+ * Traps the LOAD and SAVE routines of the ROM.
+ * Instead of the signal of a tape, the program (from VERSN to E_LINE) is read from
+ * or written to a .P file in the tape directory. The name of the file is the name
+ * given to LOAD or SAVE. LOAD "" loads the next file of the tape directory.
+ * If the file does not exist, LOAD continues in the ROM, i.e. it waits for a signal
+ * like a real ZX81 (BREAK to stop).
+ */
+export class Zx81TapeTraps {
+	// SAVE, after NAME: HL points to the name.
+	protected static readonly SAVE_ADDRESS = 0x02FC;
+
+	// LOAD, NEXT-PROG: DE points to the name, bit 7 of D is set if the name is empty.
+	protected static readonly LOAD_ADDRESS = 0x0347;
+
+	// The end of LOAD and SAVE (SLOW/FAST), it returns to the caller of LOAD or SAVE.
+	protected static readonly END_ADDRESS = 0x0207;
+
+	// The first bytes of the ROM of the ZX81 at these addresses.
+	public static readonly ROM_BYTES: {[address: number]: Array<number>} = {
+		[Zx81TapeTraps.SAVE_ADDRESS]: [0x11, 0xCB, 0x12, 0xCD],
+		[Zx81TapeTraps.LOAD_ADDRESS]: [0xCD, 0x4C, 0x03, 0x18],
+		[Zx81TapeTraps.END_ADDRESS]: [0x21, 0x3B, 0x40, 0x7E]
+	};
+
+	// The first address saved (VERSN).
+	protected static readonly VERSN = 0x4009;
+
+	// The address of the E_LINE system variable, the end of what is saved.
+	protected static readonly E_LINE = 0x4014;
+
+	// The memory.
+	protected memory: SimulatedMemory;
+
+	// The directory of the .P files.
+	protected tapeDir: string;
+
+	// The index of the next file to load with LOAD "".
+	protected nextFileIndex = 0;
+
+	// false if the ROM is not the one of the ZX81 at the addresses of LOAD and SAVE.
+	public enabled = true;
+
+
+	/**
+	 * Constructor.
+	 * @param memory The memory.
+	 * @param tapeDir The directory of the .P files (absolute path).
+	 */
+	constructor(memory: SimulatedMemory, tapeDir: string) {
+		this.memory = memory;
+		this.tapeDir = tapeDir;
+	}
+
+
+	/**
+	 * Checks if the PC is at the start of LOAD or SAVE and if so, executes it.
+	 * Nothing is done if the traps are disabled.
+	 * Throws an exception if the file can't be written.
+	 * @param cpu The CPU.
+	 * @returns A text to display (e.g. "SAVE ...") if LOAD or SAVE has been executed, undefined otherwise.
+	 */
+	public execute(cpu: Z80Cpu): string | undefined {
+		if (!this.enabled)
+			return undefined;
+		let text: string | undefined;
+		switch (cpu.pc) {
+			case Zx81TapeTraps.SAVE_ADDRESS:
+				text = this.save(cpu.hl);
+				break;
+			case Zx81TapeTraps.LOAD_ADDRESS:
+				text = this.load(cpu.de);
+				break;
+			default:
+				return undefined;
+		}
+		if (text)
+			cpu.pc = Zx81TapeTraps.END_ADDRESS;
+		return text;
+	}
+
+
+	/**
+	 * Saves the program into a .P file.
+	 * @param nameAddress The address of the name.
+	 * @returns A text to display.
+	 */
+	protected save(nameAddress: number): string {
+		const name = this.readName(nameAddress);
+		const eLine = this.memory.getMemory16(Zx81TapeTraps.E_LINE);
+		const data = this.memory.readBlock(Zx81TapeTraps.VERSN, eLine - Zx81TapeTraps.VERSN);
+		const filePath = UnifiedPath.join(this.tapeDir, Zx81TapeTraps.getFileName(name));
+		fs.mkdirSync(this.tapeDir, {recursive: true});
+		fs.writeFileSync(filePath, data);
+		return 'SAVE "' + name + '": ' + data.length + ' bytes written to ' + filePath;
+	}
+
+
+	/**
+	 * Loads a program from a .P file.
+	 * @param nameAddress The address of the name. Bit 15 is set if the name is empty.
+	 * @returns A text to display or undefined if the file does not exist.
+	 */
+	protected load(nameAddress: number): string | undefined {
+		const files = this.getFiles();
+		let index: number;
+		if (nameAddress & 0x8000) {
+			// LOAD "": the next file
+			if (files.length == 0)
+				return undefined;
+			index = this.nextFileIndex % files.length;
+		}
+		else {
+			const fileName = Zx81TapeTraps.getFileName(this.readName(nameAddress)).toUpperCase();
+			index = files.findIndex(file => file.toUpperCase() == fileName);
+			if (index < 0)
+				return undefined;
+		}
+		this.nextFileIndex = index + 1;
+
+		const filePath = UnifiedPath.join(this.tapeDir, files[index]);
+		const data = fs.readFileSync(filePath);
+		this.memory.writeBlock(Zx81TapeTraps.VERSN, data);
+		return 'LOAD: ' + data.length + ' bytes read from ' + filePath;
+	}
+
+
+	/**
+	 * Reads a name (the last character is in inverse video).
+	 * @param address The address of the name.
+	 * @returns The name in ASCII.
+	 */
+	protected readName(address: number): string {
+		const data = this.memory.readBlock(address & 0x7FFF, 128);
+		return Zx81Charset.decodeName(data, 0).name;
+	}
+
+
+	/**
+	 * Returns the .P files of the tape directory, sorted by name.
+	 */
+	protected getFiles(): Array<string> {
+		if (!fs.existsSync(this.tapeDir))
+			return [];
+		return fs.readdirSync(this.tapeDir).filter(file => file.toUpperCase().endsWith('.P')).sort();
+	}
+
+
+	/**
+	 * Returns the name of the file for a program.
+	 * The characters that are not allowed in file names are replaced by '_'.
+	 * @param name The name of the program.
+	 */
+	protected static getFileName(name: string): string {
+		return name.replace(/[\\/:*?"<>|£$]/g, '_') + '.P';
+	}
+}
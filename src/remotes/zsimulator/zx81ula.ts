@@ -0,0 +1,375 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81ula.ts
+ * Description:		Simulation of the ZX81 ULA (video generation).
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import {MemBuffer, Serializable} from '../../misc/membuffer';
+import {SimulatedMemory} from './simulatedmemory';
+import {Z80Ports} from './z80ports';
+
+
+/**
+ * Simulates the part of the ZX81 ULA that is involved in the generation of the display:
+ * - The NMI generator, switched on by an OUT to port FE and off by an OUT to port FD (SLOW mode).
+ *   When on, a NMI is generated at each horizontal sync, i.e. every 207 T-states.
+ *   If the CPU is not halted, the NMI also asserts WAIT: the CPU is stopped until the end
+ *   of the NMI pulse, so the NMI is always accepted at the same time in the scan line.
+ * - The vertical sync, started by an IN from port FE (only if the NMI generator is off)
+ *   and stopped by any OUT.
+ * - The execution of the display file: when the CPU fetches an opcode above 32K and
+ *   bit 6 of this opcode is 0, the ULA forces a NOP on the data bus and uses the
+ *   opcode as a character code.
+ * - The line counter (0-7) that selects the row of the character pattern. It is
+ *   incremented at each horizontal sync and reset by the vertical sync.
+ *   The horizontal sync is re-synchronized by the acknowledge of the maskable interrupt.
+ * - The output of the pixels into a frame buffer (256x192 plus a border).
+ *   The pattern of a character is read with the refresh address. If the I register points
+ *   to the RAM, the RAM sees the refresh address (I and R) and not the address of the pattern
+ *   (WRX hi-res). With CHR$128, bit 0 of I selects 128 characters (without inverse video).
+ * - The region (PAL or NTSC): the number of lines of a frame and bit 6 of the even ports
+ *   (1 = 50 Hz) used by the ROM to set the top and bottom margins (MARGIN).
+ * The maskable interrupt triggered by bit 6 of the R register is handled by the Z80Cpu.
+ */
+export class Zx81Ula implements Serializable {
+	// The number of T-states of a scan line (64 µs at 3.25 MHz).
+	public static readonly TSTATES_PER_LINE = 207;
+
+	// The number of scan lines of a frame (PAL: 50 Hz, NTSC: 60 Hz).
+	public static readonly LINES_PER_FRAME_PAL = 310;
+	public static readonly LINES_PER_FRAME_NTSC = 262;
+
+	// The length of the NMI pulse (horizontal sync) in T-states.
+	public static readonly NMI_TSTATES = 16;
+
+	// The size of the frame buffer: 256x192 pixels plus a border.
+	public static readonly SCREEN_WIDTH = 320;
+	public static readonly SCREEN_HEIGHT = 240;
+
+	// The first scan line (after the vertical sync) and the first T-state (after the
+	// horizontal sync) visible in the frame buffer. With the ROM, the display
+	// file starts 24 lines and 32 pixels (16 T-states) inside the frame buffer.
+	// In NTSC, the margins of the ROM are 24 lines shorter.
+	protected static readonly FIRST_VISIBLE_LINE_PAL = 32;
+	protected static readonly FIRST_VISIBLE_LINE_NTSC = 8;
+	protected static readonly FIRST_VISIBLE_TSTATE = 55;
+
+	// The memory, used to read the display file.
+	protected memory: SimulatedMemory;
+
+	// true if the NMI generator is on (SLOW mode).
+	public nmiGenerator: boolean;
+
+	// true during the vertical sync.
+	public vsync: boolean;
+
+	// The line counter (LCNTR), selects the row (0-7) of a character.
+	public lineCounter: number;
+
+	// The number of T-states elapsed in the current scan line.
+	protected lineTstates: number;
+
+	// The number of scan lines since the end of the vertical sync.
+	protected scanline: number;
+
+	// The frame being generated. One byte per pixel: 0 = white, 1 = black.
+	protected frameBuffer: Uint8Array;
+
+	// true if something was displayed in the current frame.
+	protected frameHasDisplay: boolean;
+
+	// The last complete frame or undefined if none (or already retrieved).
+	protected lastFrame: Uint8Array | undefined;
+
+	// Set when a vertical sync is started. Reset by 'checkVsync'.
+	protected vsyncOccurred: boolean;
+
+	// A function that is called when a vertical sync is started.
+	protected vsyncFunc: () => void;
+
+	// true if the RAM responds to the refresh address (WRX hi-res).
+	public wrx = false;
+
+	// true if a CHR$128 board is installed: if bit 0 of I is set, bit 7 of the
+	// character selects the second half of the character set (instead of inverse video).
+	public chr128 = false;
+
+	// true for a NTSC machine (60 Hz), e.g. a TS1000.
+	public ntsc = false;
+
+
+	/**
+	 * Constructor.
+	 * @param memory The memory of the ZX81.
+	 * @param ports The ports. The ULA registers its functions to be informed about IN and OUT.
+	 * @param vsyncFunc An optional function that is called on each vertical sync.
+	 */
+	constructor(memory: SimulatedMemory, ports: Z80Ports, vsyncFunc = () => {}) {
+		this.memory = memory;
+		this.vsyncFunc = vsyncFunc;
+		this.nmiGenerator = false;
+		this.vsync = false;
+		this.lineCounter = 0;
+		this.lineTstates = 0;
+		this.scanline = 0;
+		this.vsyncOccurred = false;
+		this.frameBuffer = new Uint8Array(Zx81Ula.SCREEN_WIDTH * Zx81Ula.SCREEN_HEIGHT);
+		this.frameHasDisplay = false;
+		this.lastFrame = undefined;
+
+		// Any OUT ends the vertical sync, FE and FD also control the NMI generator.
+		ports.registerGenericOutPortFunction((port: number) => this.out(port));
+		// IN FE starts the vertical sync. Returns undefined so that the keyboard is still read.
+		ports.registerGenericInPortFunction((port: number) => {
+			this.in(port);
+			return undefined;
+		});
+		// Bit 6 of the even ports: 1 = 50 Hz, 0 = 60 Hz.
+		ports.registerInPortFilterFunction((port: number, value: number) => {
+			if (port & 0x01)
+				return value;
+			return this.ntsc ? value & ~0x40 : value | 0x40;
+		});
+	}
+
+
+	/**
+	 * Called on each OUT.
+	 * @param port The port address.
+	 */
+	protected out(port: number) {
+		// End of the vertical sync
+		if (this.vsync) {
+			this.vsync = false;
+			this.scanline = 0;
+		}
+		// A0 low (e.g. FE): NMI generator on
+		if ((port & 0x01) == 0)
+			this.nmiGenerator = true;
+		// A1 low (e.g. FD): NMI generator off
+		else if ((port & 0x02) == 0)
+			this.nmiGenerator = false;
+	}
+
+
+	/**
+	 * Called on each IN.
+	 * @param port The port address.
+	 */
+	protected in(port: number) {
+		// A0 low (e.g. FE) and NMI generator off: start of the vertical sync.
+		if ((port & 0x01) != 0 || this.nmiGenerator)
+			return;
+		if (!this.vsync) {
+			this.vsync = true;
+			this.vsyncOccurred = true;
+			this.endFrame();
+			this.vsyncFunc();
+		}
+		this.lineCounter = 0;
+	}
+
+
+	/**
+	 * Called at the start of the vertical sync.
+	 * Keeps the frame (if something was displayed) and starts a new one.
+	 */
+	protected endFrame() {
+		if (this.frameHasDisplay)
+			this.lastFrame = this.frameBuffer.slice();
+		this.frameBuffer.fill(0);
+		this.frameHasDisplay = false;
+	}
+
+
+	/**
+	 * Returns the last complete frame. A frame is only returned once.
+	 * @returns The pixels (one byte per pixel, 0 = white, 1 = black) or undefined
+	 * if no new frame was displayed, e.g. in FAST mode.
+	 */
+	public getFrame(): Uint8Array | undefined {
+		const frame = this.lastFrame;
+		this.lastFrame = undefined;
+		return frame;
+	}
+
+
+	/**
+	 * Returns true if a vertical sync occurred since the last call.
+	 * Used to know if the program (or the ROM) generates the display itself.
+	 */
+	public checkVsync(): boolean {
+		const occurred = this.vsyncOccurred;
+		this.vsyncOccurred = false;
+		return occurred;
+	}
+
+
+	/**
+	 * Reads an opcode (M1 cycle).
+	 * Above 32K, if bit 6 of the opcode is 0, the ULA takes it as a character
+	 * to display and puts a NOP on the data bus.
+	 * @param address The address of the opcode.
+	 * @param refreshAddress The refresh address of this M1 cycle, i.e. I (high byte) and R (low byte).
+	 * @returns The opcode seen by the CPU.
+	 */
+	public m1Read(address: number, refreshAddress: number): number {
+		if ((address & 0x8000) == 0)
+			return this.memory.read8(address);
+		// The display file is executed above 48K as a mirror of the RAM at 16K.
+		// Between 32K and 48K, it is the ROM (mirror) or the RAM (32K and 56K memory models).
+		const opcode = this.memory.read8((address & 0x4000) ? address & 0x7FFF : address);
+		if (opcode & 0x40)
+			return opcode;	// E.g. the HALT at the end of each line
+		this.displayCharacter(opcode, refreshAddress);
+		return 0x00;	// NOP
+	}
+
+
+	/**
+	 * Outputs the 8 pixels of a character for the current scan line.
+	 * @param character The character code. Bit 7 set for inverse video.
+	 * @param refreshAddress The refresh address (I and R).
+	 */
+	protected displayCharacter(character: number, refreshAddress: number) {
+		const y = this.scanline - (this.ntsc ? Zx81Ula.FIRST_VISIBLE_LINE_NTSC : Zx81Ula.FIRST_VISIBLE_LINE_PAL);
+		if (y < 0 || y >= Zx81Ula.SCREEN_HEIGHT)
+			return;
+		// The pattern is read during the refresh cycle (not a CPU read, so no watchpoint)
+		let pattern = this.memory.getMemoryValue(this.getPatternAddress(character, refreshAddress), 1);
+		// Inverse video
+		const inverse = (character & 0x80) && !(this.chr128 && (refreshAddress & 0x0100));
+		if (inverse)
+			pattern ^= 0xFF;
+		// 2 pixels per T-state
+		let x = 2 * (this.lineTstates - Zx81Ula.FIRST_VISIBLE_TSTATE);
+		let offset = y * Zx81Ula.SCREEN_WIDTH + x;
+		for (let mask = 0x80; mask != 0; mask >>= 1, x++, offset++) {
+			if (x >= 0 && x < Zx81Ula.SCREEN_WIDTH)
+				this.frameBuffer[offset] = (pattern & mask) ? 1 : 0;
+		}
+		this.frameHasDisplay = true;
+	}
+
+
+	/**
+	 * Returns the address of the pattern of a character.
+	 * The ULA puts the character code and the line counter on A0-A8, I is on A9-A15.
+	 * @param character The character code.
+	 * @param refreshAddress The refresh address (I and R).
+	 */
+	protected getPatternAddress(character: number, refreshAddress: number): number {
+		// WRX: the RAM sees the refresh address, not the address set by the ULA
+		if (this.wrx && (refreshAddress & 0x4000))
+			return refreshAddress;
+		let address = (refreshAddress & 0xFE00) | ((character & 0x3F) << 3) | this.lineCounter;
+		// CHR$128: bit 7 of the character is on A9
+		if (this.chr128 && (refreshAddress & 0x0100) && (character & 0x80))
+			address |= 0x0200;
+		return address;
+	}
+
+
+	/**
+	 * Called when the CPU acknowledges a maskable interrupt.
+	 * The ULA re-synchronizes the horizontal sync so that each line of the display has
+	 * the same timing.
+	 */
+	public interruptAcknowledge() {
+		this.lineTstates = 0;
+	}
+
+
+	/**
+	 * Returns the number of scan lines of a frame.
+	 */
+	public getLinesPerFrame(): number {
+		return this.ntsc ? Zx81Ula.LINES_PER_FRAME_NTSC : Zx81Ula.LINES_PER_FRAME_PAL;
+	}
+
+
+	/**
+	 * Returns the length of a frame in T-states.
+	 */
+	public getFrameTstates(): number {
+		return this.getLinesPerFrame() * Zx81Ula.TSTATES_PER_LINE;
+	}
+
+
+	/**
+	 * Returns the number of wait states inserted by the ULA after a NMI
+	 * (i.e. after 'tick' returned true) if the CPU is not halted:
+	 * the CPU waits until the end of the NMI pulse.
+	 */
+	public getNmiWaitTstates(): number {
+		return Math.max(Zx81Ula.NMI_TSTATES - this.lineTstates, 0);
+	}
+
+
+	/**
+	 * Advances the ULA counters.
+	 * @param tStates The number of T-states elapsed.
+	 * @returns true if a NMI has to be generated.
+	 */
+	public tick(tStates: number): boolean {
+		let nmi = false;
+		this.lineTstates += tStates;
+		while (this.lineTstates >= Zx81Ula.TSTATES_PER_LINE) {
+			this.lineTstates -= Zx81Ula.TSTATES_PER_LINE;
+			// Horizontal sync
+			if (!this.vsync) {
+				this.lineCounter = (this.lineCounter + 1) & 0x07;
+				this.scanline++;
+			}
+			if (this.nmiGenerator)
+				nmi = true;
+		}
+		return nmi;
+	}
+
+
+	/**
+	 * Returns the size the serialized object would consume.
+	 */
+	public getSerializedSize(): number {
+		// Create a MemBuffer to calculate the size.
+		const memBuffer = new MemBuffer();
+		// Serialize object to obtain size
+		this.serialize(memBuffer);
+		// Get size
+		const size = memBuffer.getSize();
+		return size;
+	}
+
+
+	/**
+	 * Serializes the object.
+	 */
+	public serialize(memBuffer: MemBuffer) {
+		memBuffer.writeBoolean(this.nmiGenerator);
+		memBuffer.writeBoolean(this.vsync);
+		memBuffer.write8(this.lineCounter);
+		memBuffer.writeNumber(this.lineTstates);
+		memBuffer.writeNumber(this.scanline);
+		memBuffer.writeBoolean(this.vsyncOccurred);
+	}
+
+
+	/**
+	 * Deserializes the object.
+	 */
+	public deserialize(memBuffer: MemBuffer) {
+		this.nmiGenerator = memBuffer.readBoolean();
+		this.vsync = memBuffer.readBoolean();
+		this.lineCounter = memBuffer.read8();
+		this.lineTstates = memBuffer.readNumber();
+		this.scanline = memBuffer.readNumber();
+		this.vsyncOccurred = memBuffer.readBoolean();
+		this.frameBuffer.fill(0);
+		this.frameHasDisplay = false;
+		this.lastFrame = undefined;
+	}
+}
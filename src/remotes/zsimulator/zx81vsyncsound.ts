@@ -0,0 +1,194 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81vsyncsound.ts
+ * Description:		The sound of the VSYNC/MIC line (IN FE / OUT FF).
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import {Ay38912} from './ay38912';
+
+
+/**
+ * The sound of the VSYNC/MIC line. IN FE (NMI generator off) starts the
+ * vertical sync and any OUT ends it: the programs toggle it to make sound
+ * (the TV and the MIC output follow the line).
+ * The level of the line is sampled against the T-states (the average during
+ * a sample) at the same rate as the sound board and the DC is removed
+ * so that a constant level is silent.
+ * The samples can also be captured and written as a .WAV file.
+ */
+export class Zx81VsyncSound {
+	// The sample rate of the generated sound (the same as the sound board, to mix them).
+	public static readonly SAMPLE_RATE = Ay38912.SAMPLE_RATE;
+
+	// The maximum number of samples kept when they are not taken (1 second).
+	protected static readonly MAX_SAMPLES = Zx81VsyncSound.SAMPLE_RATE;
+
+	// The volume of the sound (0 to 1).
+	protected static readonly VOLUME = 0.5;
+
+	// The T-states of the CPU for one sample.
+	protected tstatesPerSample: number;
+
+	// The T-states of the current sample and the T-states of the high level during it.
+	protected tstates: number;
+	protected highTstates: number;
+
+	// The last input and output of the filter removing the DC.
+	protected lastLevel: number;
+	protected lastOutput: number;
+
+	// The samples generated and not yet taken (a ring buffer: the oldest are
+	// overwritten if they are not taken) and the index of the next one.
+	protected samples: Float32Array;
+	protected samplesCount: number;
+	protected samplesIndex: number;
+
+	// The samples captured (by blocks of 1 second) or undefined if not capturing.
+	protected captured: Array<Float32Array> | undefined;
+	protected capturedCount: number;
+
+
+	/**
+	 * Constructor.
+	 * @param cpuFrequency The CPU frequency, used to convert the T-states into samples.
+	 */
+	constructor(cpuFrequency: number) {
+		this.tstatesPerSample = cpuFrequency / Zx81VsyncSound.SAMPLE_RATE;
+		this.tstates = 0;
+		this.highTstates = 0;
+		this.lastLevel = 0;
+		this.lastOutput = 0;
+		this.samples = new Float32Array(Zx81VsyncSound.MAX_SAMPLES);
+		this.samplesCount = 0;
+		this.samplesIndex = 0;
+		this.captured = undefined;
+		this.capturedCount = 0;
+	}
+
+
+	/**
+	 * Advances the sound. Called after each instruction.
+	 * @param tStates The T-states of the instruction.
+	 * @param vsync The level of the line (true during the vertical sync).
+	 */
+	public tick(tStates: number, vsync: boolean) {
+		while (this.tstates + tStates >= this.tstatesPerSample) {
+			const rest = this.tstatesPerSample - this.tstates;
+			if (vsync)
+				this.highTstates += rest;
+			tStates -= rest;
+			this.addSample(this.highTstates / this.tstatesPerSample);
+			this.tstates = 0;
+			this.highTstates = 0;
+		}
+		this.tstates += tStates;
+		if (vsync)
+			this.highTstates += tStates;
+	}
+
+
+	/**
+	 * Returns the samples generated since the last call.
+	 * @returns The samples (-1 to 1) at SAMPLE_RATE.
+	 */
+	public takeSamples(): Float32Array {
+		const samples = new Float32Array(this.samplesCount);
+		const start = this.samplesIndex - this.samplesCount;
+		if (start < 0)
+			samples.set(this.samples.subarray(start + this.samples.length));
+		samples.set(this.samples.subarray(Math.max(start, 0), this.samplesIndex), Math.max(-start, 0));
+		this.samplesCount = 0;
+		return samples;
+	}
+
+
+	/**
+	 * Returns true if the samples are captured.
+	 */
+	public isCapturing(): boolean {
+		return this.captured != undefined;
+	}
+
+
+	/**
+	 * Starts to capture the samples (the previous capture is lost).
+	 */
+	public startCapture() {
+		this.captured = [];
+		this.capturedCount = 0;
+	}
+
+
+	/**
+	 * Stops the capture.
+	 * @returns The samples captured.
+	 * Throws an exception if the samples are not captured.
+	 */
+	public stopCapture(): Float32Array {
+		if (!this.captured)
+			throw Error("The sound is not captured.");
+		const samples = new Float32Array(this.capturedCount);
+		this.captured.forEach((block, i) => {
+			const offset = i * Zx81VsyncSound.SAMPLE_RATE;
+			samples.set(block.subarray(0, Math.min(block.length, this.capturedCount - offset)), offset);
+		});
+		this.captured = undefined;
+		return samples;
+	}
+
+
+	/**
+	 * Converts samples into a .WAV file (PCM, 16 bits, mono).
+	 * @param samples The samples (-1 to 1).
+	 * @param sampleRate The sample rate.
+	 * @returns The content of the .WAV file.
+	 */
+	public static toWav(samples: Float32Array, sampleRate: number): Buffer {
+		const data = Buffer.alloc(44 + 2 * samples.length);
+		data.write('RIFF', 0, 'latin1');
+		data.writeUInt32LE(36 + 2 * samples.length, 4);
+		data.write('WAVE', 8, 'latin1');
+		data.write('fmt ', 12, 'latin1');
+		data.writeUInt32LE(16, 16);
+		data.writeUInt16LE(1, 20);				// PCM
+		data.writeUInt16LE(1, 22);				// Mono
+		data.writeUInt32LE(sampleRate, 24);
+		data.writeUInt32LE(2 * sampleRate, 28);	// Bytes per second
+		data.writeUInt16LE(2, 32);				// Block align
+		data.writeUInt16LE(16, 34);				// Bits per sample
+		data.write('data', 36, 'latin1');
+		data.writeUInt32LE(2 * samples.length, 40);
+		samples.forEach((sample, i) => data.writeInt16LE(Math.round(Math.max(-1, Math.min(1, sample)) * 0x7FFF), 44 + 2 * i));
+		return data;
+	}
+
+
+	/**
+	 * Adds a sample: removes the DC, keeps it to be taken and captures it.
+	 * @param level The average level during the sample (0 to 1).
+	 */
+	protected addSample(level: number) {
+		// High-pass filter (ca. 20 Hz)
+		const output = level - this.lastLevel + 0.995 * this.lastOutput;
+		this.lastLevel = level;
+		this.lastOutput = output;
+		const sample = Zx81VsyncSound.VOLUME * output;
+
+		// Keep the last second if the samples are not taken
+		this.samples[this.samplesIndex] = sample;
+		this.samplesIndex = (this.samplesIndex + 1) % Zx81VsyncSound.MAX_SAMPLES;
+		if (this.samplesCount < Zx81VsyncSound.MAX_SAMPLES)
+			this.samplesCount++;
+
+		if (this.captured) {
+			const index = this.capturedCount % Zx81VsyncSound.SAMPLE_RATE;
+			if (index == 0)
+				this.captured.push(new Float32Array(Zx81VsyncSound.SAMPLE_RATE));
+			this.captured[this.captured.length - 1][index] = sample;
+			this.capturedCount++;
+		}
+	}
+}
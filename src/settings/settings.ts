@@ -12,6 +12,9 @@ import {DebugProtocol} from '@vscode/debugprotocol';
 import {Utility} from '../misc/utility';
 import * as fs from 'fs';
 import {UnifiedPath} from '../misc/unifiedpath';
+import {Zx81Machines} from '../remotes/zsimulator/zx81machines';
+import {Zx81Keyboard} from '../remotes/zsimulator/zx81keyboard';
+import {Zx81KeyTyper} from '../remotes/zsimulator/zx81keytyper';
 
 
 export interface Formatting {
@@ -37,6 +40,9 @@ export interface Formatting {
 	/// The 'word' formatting for labels in the WATCHES area.
 	watchWord: string;
 
+	/// The 'float' formatting (ZX81 5-byte floating point numbers) for labels in the WATCHES area.
+	watchFloat: string;
+
 	/// Format for the pushed values in the STACK area.
 	stackVar: string;
 }
@@ -63,6 +69,19 @@ export interface ZrcpType {
 }
 
 
+/// A patch of the ROM (zsim.romPatches).
+export interface RomPatch {
+	// The name of the patch, e.g. "No RAM check".
+	name: string,
+
+	// The address in the ROM.
+	address: number,
+
+	// The bytes written at the address.
+	bytes: Array<number>,
+}
+
+
 /// Definitions for the 'zsim' remote type.
 export interface ZSimType {
 	// If enabled the simulator shows a keyboard to simulate keypresses.
@@ -71,7 +90,7 @@ export interface ZSimType {
 	// The number of interrupts to calculate the average from. 0 to disable.
 	cpuLoadInterruptRange: number,
 
-	// If enabled an interrupt is generated after ca. 20ms (this assumes a CPU clock of 3.25MHz).
+	// If enabled an interrupt is generated after each frame (ca. 20ms in PAL, 16.7ms in NTSC).
 	vsyncInterrupt: boolean,
 
 	// The CPU frequency is only used for output. I.e. when the t-states are printed
@@ -84,6 +103,62 @@ export interface ZSimType {
 
 	// The update frequency of the simulator view in Hz.
 	updateFrequency: number,
+
+	// The machine: "ZX81", "TS1000", "TS1500" or "LAMBDA8300".
+	// Gives the ROM and the default memory model and region.
+	machine: string,
+
+	// The ROM file (up to 8K) instead of the ROM of the machine. Relative to the root folder.
+	rom: string,
+
+	// The patches applied to the ROM when it is loaded.
+	romPatches: Array<RomPatch>,
+
+	// The SLD file of the ROM (labels and sources of the ROM). Relative to the root folder.
+	romSld: string,
+
+	// The memory model, i.e. the size of the RAM: "1K", "2K", "16K", "32K" or "56K".
+	memoryModel: string,
+
+	// The region: "PAL" (50 Hz, 310 lines) or "NTSC" (60 Hz, 262 lines, e.g. TS1000).
+	region: string,
+
+	// The character generator: "ROM", "UDG" (RAM at 8K) or "CHR128" (RAM at 8K, 128 characters).
+	chrGenerator: string,
+
+	// If enabled the RAM responds to the refresh address (WRX hi-res).
+	wrx: boolean,
+
+	// The directory of the .P files for LOAD and SAVE. Relative to the root folder.
+	tapeDir: string,
+
+	// The tape (.P, .TZX or .WAV) inserted in the tape deck. Relative to the root folder.
+	tapeFile: string,
+
+	// If enabled a ZX Printer is connected (port FB).
+	zxPrinter: boolean,
+
+	// The sound board with an AY-3-8912: "NONE", "ZONX" or "QUICKSILVA".
+	soundBoard: string,
+
+	// The joystick interface: "NONE", "KEMPSTON" (port 1Fh) or "CURSOR" (keys 5678 and 0).
+	joystick: string,
+
+	// What moves the joystick in the ZX81 view: "GAMEPAD", "ARROWS" (and Ctrl for fire) or "BOTH".
+	joystickInput: string,
+
+	// Maps the keys of the host (KeyboardEvent.code, "Shift+" and the code with Shift) to the keys of the ZX81,
+	// e.g. {"KeyQ": "A", "Backspace": "SHIFT+0", "Shift+Digit1": "1"}.
+	keyMap: {[key: string]: string},
+
+	// If enabled the VSYNC/MIC line is sampled and played (sound of the games).
+	vsyncSound: boolean,
+
+	// The number of frames between 2 automatic snapshots (timeline). 0 (default) to disable.
+	snapshotInterval: number,
+
+	// The maximum number of snapshots kept in the timeline.
+	snapshotCount: number,
 }
 
 
@@ -147,6 +222,15 @@ export interface SettingsParameters extends DebugProtocol.LaunchRequestArguments
 	/// An array with commands that are executed after the program-to-debug is loaded.
 	commandsAfterLaunch: Array<string>;
 
+	/// The keys typed on the keyboard of the ZX81 after the launch (zsim), e.g. "RUN{NEWLINE}{WAIT 50}".
+	keysAfterLaunch: string;
+
+	/// The configuration is used for the unit tests (UT_ labels).
+	unitTests: boolean;
+
+	/// The maximum duration of a unit test in seconds.
+	unitTestTimeout: number;
+
 	/// If enabled code coverage information is analyzed and displayed.
 	/// Useful especially for unit tests but can be enabled also in "normal" launch configurations.
 	history: {
@@ -220,6 +304,9 @@ export class Settings {
 				binary: <any>undefined,
 				startAutomatically: <any>undefined,
 				commandsAfterLaunch: <any>undefined,
+				keysAfterLaunch: <any>undefined,
+				unitTests: <any>undefined,
+				unitTestTimeout: <any>undefined,
 				history: <any>undefined,
 				formatting: <any>undefined,
 				memoryViewer: <any>undefined,
@@ -275,6 +362,54 @@ export class Settings {
 			launchCfg.zsim.limitSpeed = true;
 		if (launchCfg.zsim.updateFrequency == undefined)
 			launchCfg.zsim.updateFrequency = 10.0;
+		if (launchCfg.zsim.machine == undefined)
+			launchCfg.zsim.machine = 'ZX81';
+		const machine = Zx81Machines.MACHINES[launchCfg.zsim.machine];	// Checked by CheckSettings
+		if (launchCfg.zsim.rom)
+			launchCfg.zsim.rom = Utility.getAbsFilePath
+				(UnifiedPath.getUnifiedPath(launchCfg.zsim.rom), rootFolder);
+		else
+			launchCfg.zsim.rom = '';
+		if (launchCfg.zsim.romPatches == undefined)
+			launchCfg.zsim.romPatches = [];
+		if (launchCfg.zsim.romSld)
+			launchCfg.zsim.romSld = Utility.getAbsFilePath
+				(UnifiedPath.getUnifiedPath(launchCfg.zsim.romSld), rootFolder);
+		else
+			launchCfg.zsim.romSld = '';
+		if (launchCfg.zsim.memoryModel == undefined)
+			launchCfg.zsim.memoryModel = machine?.memoryModel ?? '16K';
+		if (launchCfg.zsim.region == undefined)
+			launchCfg.zsim.region = machine?.region ?? 'PAL';
+		if (launchCfg.zsim.chrGenerator == undefined)
+			launchCfg.zsim.chrGenerator = 'ROM';
+		if (launchCfg.zsim.wrx == undefined)
+			launchCfg.zsim.wrx = false;
+		if (!launchCfg.zsim.tapeDir)
+			launchCfg.zsim.tapeDir = '.';	// The root folder
+		launchCfg.zsim.tapeDir = Utility.getAbsFilePath
+			(UnifiedPath.getUnifiedPath(launchCfg.zsim.tapeDir), rootFolder);
+		if (launchCfg.zsim.tapeFile)
+			launchCfg.zsim.tapeFile = Utility.getAbsFilePath
+				(UnifiedPath.getUnifiedPath(launchCfg.zsim.tapeFile), rootFolder);
+		else
+			launchCfg.zsim.tapeFile = '';
+		if (launchCfg.zsim.zxPrinter == undefined)
+			launchCfg.zsim.zxPrinter = true;
+		if (launchCfg.zsim.soundBoard == undefined)
+			launchCfg.zsim.soundBoard = 'NONE';
+		if (launchCfg.zsim.joystick == undefined)
+			launchCfg.zsim.joystick = 'NONE';
+		if (launchCfg.zsim.joystickInput == undefined)
+			launchCfg.zsim.joystickInput = 'BOTH';
+		if (launchCfg.zsim.keyMap == undefined)
+			launchCfg.zsim.keyMap = {};
+		if (launchCfg.zsim.vsyncSound == undefined)
+			launchCfg.zsim.vsyncSound = false;
+		if (launchCfg.zsim.snapshotInterval == undefined)
+			launchCfg.zsim.snapshotInterval = 0;	// Disabled
+		if (launchCfg.zsim.snapshotCount == undefined)
+			launchCfg.zsim.snapshotCount = 120;
 
 		// Check update frequency ranges
 		if (launchCfg.zsim.updateFrequency < 5.0)
@@ -316,6 +451,12 @@ export class Settings {
 			launchCfg.startAutomatically = false;
 		if (launchCfg.commandsAfterLaunch == undefined)
 			launchCfg.commandsAfterLaunch = [];
+		if (launchCfg.keysAfterLaunch == undefined)
+			launchCfg.keysAfterLaunch = '';
+		if (launchCfg.unitTests == undefined)
+			launchCfg.unitTests = false;
+		if (launchCfg.unitTestTimeout == undefined)
+			launchCfg.unitTestTimeout = 5;
 		if (launchCfg.zrcp.skipInterrupt == undefined)
 			launchCfg.zrcp.skipInterrupt = false;
 
@@ -359,6 +500,7 @@ export class Settings {
 				smallValues: <any>undefined,
 				watchByte: <any>undefined,
 				watchWord: <any>undefined,
+				watchFloat: <any>undefined,
 				stackVar: <any>undefined,
 			};
 		if (!launchCfg.formatting.registerVar)
@@ -394,6 +536,8 @@ export class Settings {
 			launchCfg.formatting.watchByte = "${hex}h,\t${unsigned}u,\t${signed}i,\t${bits}b";
 		if (!launchCfg.formatting.watchWord)
 			launchCfg.formatting.watchWord = "${hex}h,\t${unsigned}u,\t${signed}i";
+		if (!launchCfg.formatting.watchFloat)
+			launchCfg.formatting.watchFloat = "${float}";
 		if (!launchCfg.formatting.stackVar)
 			launchCfg.formatting.stackVar = "${hex}h\t${unsigned}u\t${signed}i\t${{:labels|, |}}";
 		if (!launchCfg.tabSize)
@@ -459,5 +603,118 @@ export class Settings {
 		if (!found) {
 			throw Error("'remoteType': Remote type '" + rType + "' does not exist. Allowed are " + allowedTypes.join(', ') + ".");
 		}
+
+		// Check the machine
+		const machine = Settings.launch.zsim.machine;
+		if (!Zx81Machines.MACHINES[machine]) {
+			throw Error("'zsim.machine': Machine '" + machine + "' does not exist. Allowed are " + Zx81Machines.getNames().join(', ') + ".");
+		}
+
+		// Check the ROM
+		const {rom, romPatches, romSld} = Settings.launch.zsim;
+		if (rom && !fs.existsSync(rom)) {
+			throw Error("'zsim.rom': File '" + rom + "' does not exist.");
+		}
+		if (romSld && !fs.existsSync(romSld)) {
+			throw Error("'zsim.romSld': File '" + romSld + "' does not exist.");
+		}
+		if (!Array.isArray(romPatches)) {
+			throw Error("'zsim.romPatches': An array of patches is expected.");
+		}
+		for (const patch of romPatches) {
+			const name = patch.name ?? '';
+			if (!Number.isInteger(patch.address) || patch.address < 0 || patch.address > 0x1FFF) {
+				throw Error("'zsim.romPatches': The address of the patch '" + name + "' is not in the ROM (0-1FFFh).");
+			}
+			if (!Array.isArray(patch.bytes) || patch.bytes.length == 0 || patch.bytes.some(value => !Number.isInteger(value) || value < 0 || value > 255)) {
+				throw Error("'zsim.romPatches': The patch '" + name + "' needs an array of bytes (0-255).");
+			}
+			if (patch.address + patch.bytes.length > 0x2000) {
+				throw Error("'zsim.romPatches': The patch '" + name + "' goes beyond the end of the ROM.");
+			}
+		}
+
+		// Check the memory model
+		const memoryModel = Settings.launch.zsim.memoryModel;
+		const allowedModels = ['1K', '2K', '16K', '32K', '56K'];
+		if (allowedModels.indexOf(memoryModel) < 0) {
+			throw Error("'zsim.memoryModel': Memory model '" + memoryModel + "' does not exist. Allowed are " + allowedModels.join(', ') + ".");
+		}
+
+		// Check the region
+		const region = Settings.launch.zsim.region;
+		const allowedRegions = ['PAL', 'NTSC'];
+		if (allowedRegions.indexOf(region) < 0) {
+			throw Error("'zsim.region': Region '" + region + "' does not exist. Allowed are " + allowedRegions.join(', ') + ".");
+		}
+
+		// Check the character generator
+		const chrGenerator = Settings.launch.zsim.chrGenerator;
+		const allowedGenerators = ['ROM', 'UDG', 'CHR128'];
+		if (allowedGenerators.indexOf(chrGenerator) < 0) {
+			throw Error("'zsim.chrGenerator': Character generator '" + chrGenerator + "' does not exist. Allowed are " + allowedGenerators.join(', ') + ".");
+		}
+
+		// Check the sound board
+		const soundBoard = Settings.launch.zsim.soundBoard;
+		const allowedSoundBoards = ['NONE', 'ZONX', 'QUICKSILVA'];
+		if (allowedSoundBoards.indexOf(soundBoard) < 0) {
+			throw Error("'zsim.soundBoard': Sound board '" + soundBoard + "' does not exist. Allowed are " + allowedSoundBoards.join(', ') + ".");
+		}
+
+		// Check the joystick
+		const {joystick, joystickInput} = Settings.launch.zsim;
+		const allowedJoysticks = ['NONE', 'KEMPSTON', 'CURSOR'];
+		if (allowedJoysticks.indexOf(joystick) < 0) {
+			throw Error("'zsim.joystick': Joystick interface '" + joystick + "' does not exist. Allowed are " + allowedJoysticks.join(', ') + ".");
+		}
+		const allowedInputs = ['GAMEPAD', 'ARROWS', 'BOTH'];
+		if (allowedInputs.indexOf(joystickInput) < 0) {
+			throw Error("'zsim.joystickInput': Input '" + joystickInput + "' does not exist. Allowed are " + allowedInputs.join(', ') + ".");
+		}
+
+		// Check the key map
+		const keyMap = Settings.launch.zsim.keyMap;
+		for (const key in keyMap) {
+			try {
+				Zx81Keyboard.parseKeys(keyMap[key]);
+			}
+			catch (e) {
+				throw Error("'zsim.keyMap': " + e.message);
+			}
+		}
+
+		// Check the tape
+		const tapeFile = Settings.launch.zsim.tapeFile;
+		if (tapeFile && !fs.existsSync(tapeFile)) {
+			throw Error("'zsim.tapeFile': File '" + tapeFile + "' does not exist.");
+		}
+
+		// Check the timeline
+		const {snapshotInterval, snapshotCount} = Settings.launch.zsim;
+		if (snapshotInterval < 0) {
+			throw Error("'zsim.snapshotInterval': The interval (" + snapshotInterval + ") can't be negative.");
+		}
+		if (snapshotCount < 1) {
+			throw Error("'zsim.snapshotCount': At least 1 snapshot is required.");
+		}
+
+		// Check the keys typed after the launch
+		const keysAfterLaunch = Settings.launch.keysAfterLaunch;
+		if (keysAfterLaunch) {
+			if (Settings.launch.remoteType != 'zsim')
+				throw Error("'keysAfterLaunch': The keys can only be typed with zsim.");
+			try {
+				Zx81KeyTyper.parse(keysAfterLaunch);
+			}
+			catch (e) {
+				throw Error("'keysAfterLaunch': " + e.message);
+			}
+		}
+
+		// Check the unit tests
+		if (!(Settings.launch.unitTestTimeout > 0)) {
+			throw Error("'unitTestTimeout': The timeout (" + Settings.launch.unitTestTimeout + ") has to be positive.");
+		}
 	}
 }
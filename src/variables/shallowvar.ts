@@ -13,10 +13,14 @@ import {DebugProtocol} from '@vscode/debugprotocol';
 import {Settings} from '../settings/settings'
 import {Utility} from '../misc/utility';
 import {RefList} from '../misc/reflist';
+import {Zx81DisplayFile} from '../misc/zx81displayfile';
+import {BasicVariable, Zx81BasicVars} from '../misc/zx81basicvars';
+import {Zx81Float} from '../misc/zx81float';
 import {Remote} from '../remotes/remotebase';
 import {Format} from '../disassembler/core/format';
 import {StepHistory} from '../remotes/cpuhistory';
 import {SimpleDisassembly} from '../disassembler/simpledisassembly';
+import {Ay38912} from '../remotes/zsimulator/ay38912';
 
 
 /**
@@ -64,6 +68,18 @@ export class ShallowVar {
 	}
 
 
+	/**
+	 * Converts the text entered by the user into the value to set.
+	 * Override if the value is not an expression, e.g. a string.
+	 * @param name The name of data.
+	 * @param valueString The text entered by the user.
+	 * @returns The value passed to setValue.
+	 */
+	public parseValue(_name: string, valueString: string): any {
+		return Utility.evalExpression(valueString, true);
+	}
+
+
 	/**
 	 * Checks if allowed to change the value.
 	 * If not returns a string with an error message.
@@ -692,6 +708,9 @@ export class MemDumpVar extends ShallowVar {
 	// If the value should be interpreted as little endian or not.
 	protected littleEndian: boolean;
 
+	// If the elements are ZX81 floating point numbers (5 bytes).
+	protected float: boolean;
+
 
 	/**
 	 * Constructor.
@@ -699,14 +718,16 @@ export class MemDumpVar extends ShallowVar {
 	 * @param totalCount The element count.
 	 * @param elemSize The element size. byte=1, word=2.
 	 * @param littleEndian If the value should be interpreted as little endian or not.
+	 * @param float If the elements are ZX81 floating point numbers (elemSize is 5).
 	 */
-	public constructor(addr: number, totalCount: number, elemSize: number, littleEndian = true) {
+	public constructor(addr: number, totalCount: number, elemSize: number, littleEndian = true, float = false) {
 		super();
 		this.addr = addr;
 		this.totalCount = totalCount;
 		this.elemSize = elemSize;
 		this.memOffset = 0;
-		this.littleEndian = littleEndian;
+		this.littleEndian = littleEndian || float;	// The 5 bytes of the floating point numbers are kept in order
+		this.float = float;
 	}
 
 
@@ -789,11 +810,16 @@ export class MemDumpVar extends ShallowVar {
 		const address = this.addr + this.memOffset + index * this.elemSize;
 
 		// Write data
-		const dataWrite = new Uint8Array(this.elemSize);
-		Utility.setUintToMemory(value, dataWrite, 0, this.elemSize, this.littleEndian);
-		for (let i = 0; i < this.elemSize; i++) {
-			dataWrite[i] = value & 0xFF;
-			value = value >>> 8;
+		let dataWrite: Uint8Array = new Uint8Array(this.elemSize);
+		if (this.float) {
+			dataWrite = Zx81Float.write(value);
+		}
+		else {
+			Utility.setUintToMemory(value, dataWrite, 0, this.elemSize, this.littleEndian);
+			for (let i = 0; i < this.elemSize; i++) {
+				dataWrite[i] = value & 0xFF;
+				value = value >>> 8;
+			}
 		}
 		await Remote.writeMemoryDump(address, dataWrite);
 		ShallowVar.memoryChanged = true;
@@ -809,10 +835,25 @@ export class MemDumpVar extends ShallowVar {
 	}
 
 
+	/**
+	 * Converts the text entered by the user.
+	 * The floating point numbers can be entered with decimals, e.g. "3.14".
+	 * @param name The name of data.
+	 * @param valueString The text entered by the user.
+	 */
+	public parseValue(name: string, valueString: string): any {
+		if (this.float)
+			return Zx81Float.parse(valueString);
+		return super.parseValue(name, valueString);
+	}
+
+
 	/**
 	 * The format to use.
 	 */
 	protected formatString(): string {
+		if (this.float)
+			return Settings.launch.formatting.watchFloat;	// float
 		if (this.elemSize == 1)
 			return Settings.launch.formatting.watchByte;	// byte
 		else
@@ -837,6 +878,9 @@ export class ImmediateMemoryValue {
 	// If the value should be interpreted as little endian or not.
 	protected littleEndian: boolean;
 
+	// If the value is a ZX81 floating point number (5 bytes).
+	protected float: boolean;
+
 
 	/**
 	 * Constructor.
@@ -845,13 +889,15 @@ export class ImmediateMemoryValue {
 	 * @param addr64k The 64k address.
 	 * @param size The size of the value, the count of bytes.
 	 * @param littleEndian If the value should be interpreted as little endian or not.
+	 * @param float If the value is a ZX81 floating point number (size is 5).
 	 */
-	constructor(addr64k: number, size: number, littleEndian = true) {
+	constructor(addr64k: number, size: number, littleEndian = true, float = false) {
 		if (size > 6)
 			throw Error('The size of an element must be smaller than 7.');
 		this.address64k = addr64k;
 		this.size = size;
-		this.littleEndian = littleEndian;
+		this.littleEndian = littleEndian || float;
+		this.float = float;
 	}
 
 
@@ -875,8 +921,11 @@ export class ImmediateMemoryValue {
 	 */
 	public async setValue(value: number): Promise<string> {
 		// Write data
-		const dataWrite = new Uint8Array(this.size);
-		Utility.setUintToMemory(value, dataWrite, 0, this.size, this.littleEndian);
+		let dataWrite: Uint8Array = new Uint8Array(this.size);
+		if (this.float)
+			dataWrite = Zx81Float.write(value);
+		else
+			Utility.setUintToMemory(value, dataWrite, 0, this.size, this.littleEndian);
 		await Remote.writeMemoryDump(this.address64k, dataWrite);
 		ShallowVar.memoryChanged = true;
 
@@ -891,10 +940,25 @@ export class ImmediateMemoryValue {
 	}
 
 
+	/**
+	 * Converts the text entered by the user.
+	 * The floating point numbers can be entered with decimals, e.g. "3.14".
+	 * @param valueString The text entered by the user.
+	 * @returns The value passed to setValue.
+	 */
+	public parseValue(valueString: string): number {
+		if (this.float)
+			return Zx81Float.parse(valueString);
+		return Utility.parseValue(valueString);
+	}
+
+
 	/**
 	 * The format to use.
 	 */
 	protected formatString(): string {
+		if (this.float)
+			return Settings.launch.formatting.watchFloat;	// float
 		switch (this.size) {
 			case 1: return Settings.launch.formatting.watchByte;	// byte
 			case 2: return Settings.launch.formatting.watchWord;	// word
@@ -927,13 +991,18 @@ export class SystemVariablesVar extends ShallowVar {
 		count = count || (variables.length - start);
 
 		const memory = await Remote.readMemoryDump(0x4000, 0x7D);
+		// The display file is walked line by line as it can be collapsed
+		const displayFile = await Zx81DisplayFile.read();
 
 		const vars = new Array<DebugProtocol.Variable>(count);
 		for (let i = 0; i < count; i++) {
 			const variable = variables[i + start];
+			let value = this.formatVariable(memory, variable, 0x4000);
+			if (variable.address == Zx81DisplayFile.D_FILE)
+				value += ' (' + displayFile.size + ' bytes' + (displayFile.isCollapsed() ? ', collapsed)' : ')');
 			vars[i] = {
 				name: variable.name,
-				value: this.formatVariable(memory, variable, 0x4000),
+				value,
 				variablesReference: 0
 			};
 		}
@@ -1041,3 +1110,338 @@ export class SystemVariablesVar extends ShallowVar {
 		];
 	}
 }
+
+
+/**
+ * The BasicVariablesVar class shows the variables of the BASIC program.
+ * The arrays are expanded by BasicArrayVar.
+ */
+export class BasicVariablesVar extends ShallowVar {
+	// The list of variables (to add the arrays).
+	protected list: RefList<ShallowVar>;
+
+	// The references of the arrays in the list by name, added once for all the refreshes.
+	protected arrayRefs = new Map<string, number>();
+
+
+	/**
+	 * Constructor.
+	 * @param list The list of variables.
+	 */
+	public constructor(list: RefList<ShallowVar>) {
+		super();
+		this.list = list;
+	}
+
+
+	/**
+	 * Communicates with the remote to retrieve the BASIC variables.
+	 * @returns A Promise with the variables.
+	 */
+	public async getContent(_start: number, _count: number): Promise<Array<DebugProtocol.Variable>> {
+		const basicVars = await Zx81BasicVars.read();
+		return basicVars.variables.map(variable => {
+			if (variable.dimensions) {
+				return {
+					name: variable.name + '(' + variable.dimensions.join(',') + ')',
+					value: BasicVariablesVar.formatArray(variable),
+					variablesReference: this.getArrayRef(variable.name)
+				};
+			}
+			return {
+				name: variable.name,
+				value: BasicVariablesVar.formatVariable(variable),
+				variablesReference: 0
+			};
+		});
+	}
+
+
+	/**
+	 * Returns the reference of an array, added to the list the first time.
+	 * @param name The name of the array, e.g. "A" or "A$".
+	 */
+	protected getArrayRef(name: string): number {
+		let ref = this.arrayRefs.get(name);
+		if (ref == undefined) {
+			ref = this.list.addObject(new BasicArrayVar(name));
+			this.arrayRefs.set(name, ref);
+		}
+		return ref;
+	}
+
+
+	/**
+	 * Formats a number or a string.
+	 * @param value The value.
+	 * @returns E.g. "3.5" or ""HELLO"".
+	 */
+	public static formatValue(value: number | string | undefined): string {
+		if (typeof value == 'string')
+			return '"' + value + '"';
+		return Zx81Float.format(value ?? 0);
+	}
+
+
+	/**
+	 * Formats a variable (not an array).
+	 * @param variable The variable.
+	 * @returns E.g. "3.5" or "1 (TO 10 STEP 1, loop line 20)" for a control variable.
+	 */
+	protected static formatVariable(variable: BasicVariable): string {
+		let text = BasicVariablesVar.formatValue(variable.value);
+		if (variable.type == 'for')
+			text += ' (TO ' + Zx81Float.format(variable.limit!) + ' STEP ' + Zx81Float.format(variable.step!) + ', loop line ' + variable.line + ')';
+		return text;
+	}
+
+
+	/**
+	 * Formats the first elements of an array.
+	 * @param variable The array.
+	 * @returns E.g. "1, 2, 3, ...".
+	 */
+	protected static formatArray(variable: BasicVariable): string {
+		const max = 10;
+		const elements = variable.elements!;
+		let text = elements.slice(0, max).map(element => BasicVariablesVar.formatValue(element)).join(', ');
+		if (elements.length > max)
+			text += ', ...';
+		return text;
+	}
+
+
+	/**
+	 * Converts the text entered by the user.
+	 * The strings can be entered with or without quotes, the numbers with decimals or as expressions.
+	 * @param string true for a string.
+	 * @param valueString The text entered by the user.
+	 * @returns The string or the number.
+	 */
+	public static parseBasicValue(string: boolean, valueString: string): number | string {
+		if (string) {
+			const match = /^\s*"(.*)"\s*$/.exec(valueString);
+			return match ? match[1] : valueString;
+		}
+		const value = Number(valueString);
+		if (valueString.trim() != '' && !isNaN(value))
+			return value;
+		return Utility.evalExpression(valueString, true);
+	}
+
+
+	/**
+	 * Converts the text entered by the user.
+	 * @param name The name of the variable. The strings end with '$'.
+	 * @param valueString The text entered by the user.
+	 */
+	public parseValue(name: string, valueString: string): any {
+		return BasicVariablesVar.parseBasicValue(name.endsWith('$'), valueString);
+	}
+
+
+	/**
+	 * Sets the value of a variable.
+	 * The numbers are written as floating point numbers (5 bytes).
+	 * The strings are resized if necessary.
+	 * @param name The name of the variable.
+	 * @param value The value to set.
+	 * @returns A Promise with the formatted string.
+	 */
+	public async setValue(name: string, value: number | string): Promise<string> {
+		let variable = (await Zx81BasicVars.read()).getVariable(name);
+		if (!variable)
+			throw Error("Unknown BASIC variable: " + name);
+
+		if (variable.type == 'string')
+			await Zx81BasicVars.writeString(variable, Zx81BasicVars.encodeString(String(value)));
+		else
+			await Remote.writeMemoryDump(variable.valueAddress, Zx81Float.write(Number(value)));
+		ShallowVar.memoryChanged = true;
+
+		// Read the variable again to see if it really has been set
+		variable = (await Zx81BasicVars.read()).getVariable(name);
+		return variable ? BasicVariablesVar.formatVariable(variable) : '?';
+	}
+
+
+	/**
+	 * Checks if allowed to change the value.
+	 * @param name The name of the variable.
+	 * @returns An error message or undefined.
+	 */
+	public changeable(name: string): string | undefined {
+		if (name.includes('('))
+			return "Arrays can't be modified directly, please expand them.";
+		return super.changeable(name);
+	}
+}
+
+
+/**
+ * The BasicArrayVar class shows the elements of a BASIC array.
+ * The arrays of characters are shown by rows (the last dimension).
+ */
+export class BasicArrayVar extends ShallowVar {
+	// The name of the array, e.g. "A" or "A$".
+	protected name: string;
+
+
+	/**
+	 * Constructor.
+	 * @param name The name of the array, e.g. "A" or "A$".
+	 */
+	public constructor(name: string) {
+		super();
+		this.name = name;
+	}
+
+
+	/**
+	 * Returns the array.
+	 * Throws an exception if the array does not exist anymore.
+	 */
+	protected async getArray(): Promise<BasicVariable> {
+		const variable = (await Zx81BasicVars.read()).getVariable(this.name, true);
+		if (!variable)
+			throw Error("Unknown BASIC array: " + this.name);
+		return variable;
+	}
+
+
+	/**
+	 * Returns the name of an element (or of a row), e.g. "A(1,2)" or "A$(3)".
+	 * @param variable The array.
+	 * @param index The index of the element or row.
+	 */
+	protected getElementName(variable: BasicVariable, index: number): string {
+		const dimensions = variable.type == 'stringArray' ? variable.dimensions!.slice(0, -1) : variable.dimensions!;
+		if (dimensions.length == 0)
+			return variable.name;
+		return variable.name + Zx81BasicVars.getSubscripts(dimensions, index);
+	}
+
+
+	/**
+	 * Communicates with the remote to retrieve the elements.
+	 * @returns A Promise with the elements.
+	 */
+	public async getContent(_start: number, _count: number): Promise<Array<DebugProtocol.Variable>> {
+		const variable = await this.getArray();
+		return variable.elements!.map((element, index) => ({
+			name: this.getElementName(variable, index),
+			value: BasicVariablesVar.formatValue(element),
+			variablesReference: 0
+		}));
+	}
+
+
+	/**
+	 * Converts the text entered by the user.
+	 * @param name The name of the element.
+	 * @param valueString The text entered by the user.
+	 */
+	public parseValue(_name: string, valueString: string): any {
+		return BasicVariablesVar.parseBasicValue(this.name.endsWith('$'), valueString);
+	}
+
+
+	/**
+	 * Sets the value of an element.
+	 * As in BASIC, the strings are truncated or padded with spaces to the length of the rows.
+	 * @param name The name of the element, e.g. "A(1,2)".
+	 * @param value The value to set.
+	 * @returns A Promise with the formatted string.
+	 */
+	public async setValue(name: string, value: number | string): Promise<string> {
+		let variable = await this.getArray();
+		const index = variable.elements!.findIndex((_element, i) => this.getElementName(variable, i) == name);
+		if (index < 0)
+			throw Error("Unknown BASIC array element: " + name);
+
+		if (variable.type == 'stringArray') {
+			const rowLength = variable.dimensions![variable.dimensions!.length - 1];
+			const codes = new Uint8Array(rowLength);	// Spaces
+			codes.set(Zx81BasicVars.encodeString(String(value)).subarray(0, rowLength));
+			await Remote.writeMemoryDump(variable.valueAddress + index * rowLength, codes);
+		}
+		else {
+			await Remote.writeMemoryDump(variable.valueAddress + index * Zx81Float.SIZE, Zx81Float.write(Number(value)));
+		}
+		ShallowVar.memoryChanged = true;
+
+		// Read the element again to see if it really has been set
+		variable = await this.getArray();
+		return BasicVariablesVar.formatValue(variable.elements![index]);
+	}
+}
+
+
+/**
+ * The AyRegistersVar class shows the registers of the sound chip (AY-3-8912)
+ * of the sound board. The frequencies of the tones are shown with the coarse registers.
+ */
+export class AyRegistersVar extends ShallowVar {
+	// Returns the sound chip (undefined if there is none).
+	protected getAy: () => Ay38912 | undefined;
+
+
+	/**
+	 * Constructor.
+	 * @param getAy Returns the sound chip (the simulator is created after the scopes).
+	 */
+	public constructor(getAy: () => Ay38912 | undefined) {
+		super();
+		this.getAy = getAy;
+	}
+
+
+	/**
+	 * Returns the registers R0 to R13.
+	 * @returns A Promise with the registers.
+	 */
+	public async getContent(_start: number, _count: number): Promise<Array<DebugProtocol.Variable>> {
+		const ay = this.getAy();
+		if (!ay)
+			return [];
+		return Ay38912.REGISTER_NAMES.map((name, index) => ({
+			name: 'R' + index + ' ' + name,
+			value: this.formatRegister(ay, index),
+			variablesReference: 0
+		}));
+	}
+
+
+	/**
+	 * Formats a register.
+	 * @param ay The sound chip.
+	 * @param index The number of the register.
+	 * @returns E.g. "0Fh, 15u" or "01h, 1u (1ABh = 237.8 Hz)" for a coarse tone register.
+	 */
+	protected formatRegister(ay: Ay38912, index: number): string {
+		const value = ay.registers[index];
+		let text = Utility.getHexString(value, 2) + 'h, ' + value + 'u';
+		if (index < 6 && (index & 0x01)) {
+			const channel = index >> 1;
+			text += ' (' + Utility.getHexString(ay.getTonePeriod(channel), 3) + 'h = ' + ay.getToneFrequency(channel).toFixed(1) + ' Hz)';
+		}
+		return text;
+	}
+
+
+	/**
+	 * Sets the value of a register.
+	 * @param name The name of the register, e.g. "R7 Mixer".
+	 * @param value The value to set.
+	 * @returns A Promise with the formatted string.
+	 */
+	public async setValue(name: string, value: number): Promise<string> {
+		const ay = this.getAy();
+		const index = parseInt(name.substring(1));
+		if (!ay || isNaN(index))
+			return '?';
+		if (!isNaN(value))
+			ay.setRegister(index, value);
+		return this.formatRegister(ay, index);
+	}
+}
@@ -28,6 +28,25 @@ export class BaseView {
 	protected static staticViews: Array<BaseView>;
 
 
+	/**
+	 * Get the URI of an asset.
+	 * @param path The path of the asset inside the assets folder.
+	 * @returns the URI of an asset.
+	 */
+	public static getAssetSrc(path: string): vscode.Uri {
+		return vscode.Uri.file(Utility.getExtensionPath() + '/assets/' + path);
+	}
+
+	/**
+	 * Get the URI of a ZX81 character.
+	 * @param value The value of the character.
+	 * @returns the URI of an asset.
+	 */
+	public static getZX81ImageSrc(value: number): vscode.Uri {
+		return BaseView.getAssetSrc('chars/ZX81-0x' + Utility.getHexString(value, 2) + '.png');
+	}
+
+
 	/**
 	 * Initializes the static variables.
 	 * Called at launchRequest.
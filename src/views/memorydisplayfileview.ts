@@ -0,0 +1,99 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			memorydisplayfileview.ts
+ * Description:		A Webview that shows the memory dump of the display file (D_FILE).
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import {Utility} from '../misc/utility';
+import {Zx81DisplayFile} from '../misc/zx81displayfile';
+import {MemoryDumpView} from './memorydumpview';
+
+
+/**
+ * A Webview that shows the memory dump of the display file, line by line.
+ * The display file is walked at each update: it follows D_FILE and the
+ * lines of a collapsed display file (1K, 2K) that grow or shrink.
+ * Each line is shown with the HALT that terminates it.
+ *
+ * Like the MemoryRegisterView, it lacks the search because the ranges change.
+ */
+export class MemoryDisplayFileView extends MemoryDumpView {
+
+	/// The display file shown (the layout of the lines).
+	protected displayFile: Zx81DisplayFile | undefined;
+
+	/// true if the layout of the lines has changed since the html was created.
+	protected layoutChanged = false;
+
+
+	/**
+	 * Constructor.
+	 */
+	constructor() {
+		super();
+		this.setColumns(Zx81DisplayFile.COLUMNS + 1);
+		this.vscodePanel.title = 'Memory View for D_FILE';
+	}
+
+
+	/**
+	 * Walks the display file, then retrieves the memory content and displays it.
+	 * @param reason Not used.
+	 */
+	public async update(reason?: any): Promise<void> {
+		const displayFile = await Zx81DisplayFile.read();
+		if (!displayFile.sameLayout(this.displayFile)) {
+			// One block per line, with its HALT
+			this.memDump.clearBlocks();
+			displayFile.lines.forEach((line, i) =>
+				this.memDump.addBlockWithoutBoundary(line.address, line.length + 1, 'Line ' + i + ': ' + Utility.getHexString(line.address, 4) + 'h, ' + line.length + ' characters'));
+			this.layoutChanged = (this.displayFile != undefined);
+			this.displayFile = displayFile;
+		}
+
+		// update
+		await super.update(reason);
+	}
+
+
+	/**
+	 * Updates the html. E.g. after the change of a value.
+	 * Without getting the memory from the Remote.
+	 */
+	protected updateWithoutRemote() {
+		if (this.layoutChanged) {
+			// Other lines: the whole html is created again
+			this.layoutChanged = false;
+			this.setHtml();
+			this.setPanelTitle();
+			this.setColorsForRegisterPointers();
+			return;
+		}
+		super.updateWithoutRemote();
+	}
+
+
+	/**
+	 * Sets the title from the display file.
+	 */
+	protected setPanelTitle() {
+		const displayFile = this.displayFile;
+		if (this.vscodePanel && displayFile) {
+			let title = 'D_FILE ' + Utility.getHexString(displayFile.address, 4) + 'h, ' + displayFile.size + ' bytes';
+			if (displayFile.isCollapsed())
+				title += ', collapsed';
+			this.vscodePanel.title = title;
+		}
+	}
+
+
+	/** The search widget is disabled.
+	 * The ranges change when the display file changes.
+	 */
+	protected createInputHtml(): string {
+		return '';
+	}
+}
@@ -358,7 +358,7 @@ export class MemoryDumpView extends BaseView {
 					allAddrValsText.push([
 						addrVal[0],
 						Utility.getHexString(addrVal[1], 2),
-						this.vscodePanel.webview.asWebviewUri(Utility.getZX81ImageSrc(addrVal[1])).toString()
+						this.vscodePanel.webview.asWebviewUri(BaseView.getZX81ImageSrc(addrVal[1])).toString()
 					]);
 				});
 			}
@@ -1166,7 +1166,7 @@ window.addEventListener('load', () => {
 
 			// Convert to ZX81 char (->html)
 			char += '<span address="' + address + '" onmouseover="mouseOverValue(this)">';
-			char += '<img src="' + this.vscodePanel.webview.asWebviewUri(Utility.getZX81ImageSrc(value)) + '">';
+			char += '<img src="' + this.vscodePanel.webview.asWebviewUri(BaseView.getZX81ImageSrc(value)) + '">';
 			char += '</span>';
 
 			// Check end of line
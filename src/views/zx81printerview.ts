@@ -0,0 +1,328 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			zx81printerview
+ * Description:		A Webview that shows what the ZX Printer has printed.
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+/**
+ * ZX81 Debugger
+ *
+ * Fichier:			zx81printerview
+ * Description:		Une vue web montrant ce que la ZX Printer a imprimé.
+ * Auteur:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import {Remote} from '../remotes/remotebase';
+import {Settings} from '../settings/settings';
+import {BaseView} from './baseview';
+import {ZSimRemote} from '../remotes/zsimulator/zsimremote';
+import {Zx81Printer} from '../remotes/zsimulator/zx81printer';
+import {Zx81Screenshot} from '../misc/zx81screenshot';
+import {UnifiedPath} from '../misc/unifiedpath';
+
+
+/**
+ * A Webview that shows the paper of the ZX Printer.
+ * The paper can be saved as PNG or as text, or cleared.
+ * Une vue web montrant le papier de la ZX Printer.
+ * Le papier peut être sauvé en PNG ou en texte, ou effacé.
+ */
+export class Zx81PrinterView extends BaseView {
+
+	// The open view (there is only one).
+	// La vue ouverte (il n'y en a qu'une).
+	protected static view: Zx81PrinterView | undefined;
+
+	// The printer.
+	// L'imprimante.
+	protected printer: Zx81Printer;
+
+	// The number of rows sent to the web view.
+	// Le nombre de rangées envoyées à la vue web.
+	protected rowsSent = 0;
+
+	// The time (in ms) of the last update by a vertical sync.
+	// Le moment (en ms) de la dernière mise à jour par une synchronisation verticale.
+	protected lastVertSyncTime = 0;
+
+
+	/**
+	 * Shows the view of the printer. Creates it if it is not open.
+	 * Montre la vue de l'imprimante. La crée si elle n'est pas ouverte.
+	 * @param simulator The simulator (with a printer).
+	 *                  Le simulateur (avec une imprimante).
+	 * Throws an exception if the printer is not connected.
+	 */
+	public static show(simulator: ZSimRemote): Zx81PrinterView {
+		if (!simulator.printer)
+			throw Error("The ZX Printer is not connected (zsim.zxPrinter).");
+		if (!Zx81PrinterView.view)
+			Zx81PrinterView.view = new Zx81PrinterView(simulator.printer);
+		return Zx81PrinterView.view;
+	}
+
+
+	/**
+	 * Creates the panel.
+	 * Crée le panneau.
+	 * @param printer The printer.
+	 *                L'imprimante.
+	 */
+	constructor(printer: Zx81Printer) {
+		super(true, false);
+		this.printer = printer;
+		this.vscodePanel.title = "ZX Printer";
+		this.setHtml();
+		this.sendRows();
+		Remote.on('vertSync', () => this.vertSync());
+	}
+
+
+	/**
+	 * Dispose the view (called e.g. on close).
+	 * Dispose de la vue (appelé par ex. à la fermeture).
+	 */
+	public disposeView() {
+		super.disposeView();
+		if (Zx81PrinterView.view == this)
+			Zx81PrinterView.view = undefined;
+	}
+
+
+	/**
+	 * The web view posted a message to this view.
+	 * La vue web a posté un message pour cette vue.
+	 * @param message The message. message.command contains the command as a string.
+	 *                Le message. message.command contient la commande sous forme de chaine.
+	 */
+	protected async webViewMessageReceived(message: any) {
+		switch (message.command) {
+			case 'save':
+				// Save the paper as PNG or as text.
+				// Sauve le papier en PNG ou en texte.
+				try {
+					await this.save(message.format);
+				}
+				catch (e) {
+					vscode.window.showErrorMessage(e.message);
+				}
+				break;
+
+			case 'clear':
+				// Remove the paper.
+				// Enlève le papier.
+				this.printer.clear();
+				this.sendRows();
+				break;
+
+			default:
+				await super.webViewMessageReceived(message);
+				break;
+		}
+	}
+
+
+	/**
+	 * Called on each vertical sync. Shows the new rows (not more often than the update frequency).
+	 * Appelé à chaque synchronisation verticale. Montre les nouvelles rangées (pas plus souvent que la fréquence de mise à jour).
+	 */
+	protected vertSync() {
+		if (!this.vscodePanel)
+			return;
+		const now = Date.now();
+		if (now - this.lastVertSyncTime < 1000 / Settings.launch.zsim.updateFrequency)
+			return;
+		this.lastVertSyncTime = now;
+		this.sendRows();
+	}
+
+
+	/**
+	 * Shows the new rows (e.g. when the simulator stops).
+	 * Montre les nouvelles rangées (par ex. quand le simulateur s'arrête).
+	 * @param reason Not used.
+	 *               Non utilisé.
+	 */
+	public async update(reason?: any): Promise<void> {
+		this.sendRows();
+	}
+
+
+	/**
+	 * Sends the rows not yet sent to the web view.
+	 * The dots are packed (8 dots per byte) and encoded in base64.
+	 * Envoie les rangées pas encore envoyées à la vue web.
+	 * Les points sont compactés (8 points par octet) et encodés en base64.
+	 */
+	protected sendRows() {
+		const rows = this.printer.rows;
+		// The paper has been cleared.
+		// Le papier a été effacé.
+		if (rows.length < this.rowsSent) {
+			this.sendMessageToWebView({command: 'clear'});
+			this.rowsSent = 0;
+		}
+		if (rows.length == this.rowsSent)
+			return;
+
+		const bytesPerRow = Zx81Printer.WIDTH / 8;
+		const packed = new Uint8Array((rows.length - this.rowsSent) * bytesPerRow);
+		for (let y = this.rowsSent; y < rows.length; y++) {
+			const offset = (y - this.rowsSent) * bytesPerRow;
+			rows[y].forEach((dot, x) => {
+				if (dot)
+					packed[offset + (x >> 3)] |= 0x80 >> (x & 0x07);
+			});
+		}
+		const msg = {
+			command: 'rows',
+			start: this.rowsSent,
+			count: rows.length - this.rowsSent,
+			width: Zx81Printer.WIDTH,
+			pixels: Buffer.from(packed).toString('base64')
+		};
+		this.sendMessageToWebView(msg);
+		this.rowsSent = rows.length;
+	}
+
+
+	/**
+	 * Saves the paper.
+	 * Sauve le papier.
+	 * @param format 'png' or 'text'.
+	 *               'png' ou 'text'.
+	 * Throws an exception if nothing has been printed.
+	 */
+	protected async save(format: string) {
+		if (this.printer.rows.length == 0)
+			throw Error("Nothing has been printed.");
+		const png = (format == 'png');
+		const uri = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.file(UnifiedPath.join(Settings.launch.rootFolder, png ? 'printer.png' : 'printer.txt')),
+			filters: png ? {'Images': ['png']} : {'Text': ['txt']}
+		});
+		if (!uri)
+			return;
+		if (png) {
+			fs.writeFileSync(uri.fsPath, this.printer.toPng(2));
+			return;
+		}
+		// The text is decoded with the character patterns of the ROM.
+		// Le texte est décodé avec les motifs des caractères de la ROM.
+		const charset = await Remote.readMemoryDump(Zx81Screenshot.ROM_CHARSET, Zx81Screenshot.CHARSET_SIZE);
+		fs.writeFileSync(uri.fsPath, this.printer.toText(charset));
+	}
+
+
+	/**
+	 * Sets the html code of the view. The paper is a canvas that grows with the rows.
+	 * Défini le code html de la vue. Le papier est un canevas qui grandit avec les rangées.
+	 */
+	protected setHtml() {
+		const html = `<!DOCTYPE html>
+		<html lang="en">
+		<head>
+			<meta charset="UTF-8">
+			<meta name="viewport" content="width=device-width, initial-scale=1.0">
+			<title>ZX Printer</title>
+		</head>
+
+		<style>
+		.paper {
+			width: 532px;
+			height: 80vh;
+			overflow-y: auto;
+			background-color: #D8D8D8;
+		}
+
+		.canvas {
+			width: 512px;
+			margin: 10px;
+			image-rendering: pixelated;
+		}
+
+		.buttons {
+			margin-top: 10px;
+		}
+		</style>
+
+		<body>
+
+		<div class="paper" id="paper">
+			<canvas id="canvas" class="canvas" width="${Zx81Printer.WIDTH}" height="0"></canvas>
+		</div>
+
+		<div class="buttons">
+			<button onclick="save('png')">Save PNG...</button>
+			<button onclick="save('text')">Save Text...</button>
+			<button onclick="vscode.postMessage({command: 'clear'})">Clear</button>
+			<span id="status">Nothing printed</span>
+		</div>
+
+		<script>
+		const vscode = acquireVsCodeApi();
+
+		function save(format) {
+			// A button to save the paper.
+			// Un bouton pour sauver le papier.
+			vscode.postMessage({
+				command: 'save',
+				format: format
+			});
+		}
+
+		window.addEventListener('message', event => {
+			const message = event.data;
+			const paper = document.getElementById("paper");
+			const canvas = document.getElementById("canvas");
+			const context = canvas.getContext("2d");
+
+			switch (message.command) {
+				case 'clear':
+				{
+					canvas.height = 0;
+					document.getElementById("status").textContent = "Nothing printed";
+				}	break;
+
+				case 'rows':
+				{
+					// New rows: grow the canvas (it is cleared) and draw the old and the new rows.
+					// Nouvelles rangées : agrandit le canevas (il est effacé) et dessine les anciennes et les nouvelles rangées.
+					const old = (canvas.height > 0) ? context.getImageData(0, 0, canvas.width, canvas.height) : undefined;
+					canvas.height = message.start + message.count;
+					if (old)
+						context.putImageData(old, 0, 0);
+					const image = context.createImageData(message.width, message.count);
+					const packed = atob(message.pixels);
+					for(let i = 0; i < message.width * message.count; i++) {
+						const black = packed.charCodeAt(i >> 3) & (0x80 >> (i & 0x07));
+						const color = black ? 0 : 216;
+						image.data[4 * i] = color;
+						image.data[4 * i + 1] = color;
+						image.data[4 * i + 2] = color;
+						image.data[4 * i + 3] = 255;
+					}
+					context.putImageData(image, 0, message.start);
+					// Follow the paper.
+					// Suit le papier.
+					paper.scrollTop = paper.scrollHeight;
+					document.getElementById("status").textContent = canvas.height + " rows";
+				}	break;
+			}
+		});
+
+		//# sourceURL=zx81printerview-htmlscript.js
+		</script>
+
+		</body>
+		</html>
+		`;
+		this.vscodePanel.webview.html = html;
+	}
+}
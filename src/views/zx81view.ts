@@ -25,6 +25,13 @@ import {Settings} from '../settings/settings';
 import {BaseView} from './baseview';
 import {MetaBlock} from '../misc/metablock';
 import { ZSimRemote } from '../remotes/zsimulator/zsimremote';
+import {Zx81Ula} from '../remotes/zsimulator/zx81ula';
+import {UnifiedPath} from '../misc/unifiedpath';
+import {Zx81DisplayFile} from '../misc/zx81displayfile';
+import {ZSimRecording} from '../remotes/zsimulator/zsimrecording';
+import {Zx81Machine, Zx81Machines} from '../remotes/zsimulator/zx81machines';
+import {Zx81VsyncSound} from '../remotes/zsimulator/zx81vsyncsound';
+import {Zx81Screenshot} from '../misc/zx81screenshot';
 
 /**
  * A Webview that shows the ZX81 display (DFILE) and keyboard.
@@ -36,6 +43,10 @@ export class Zx81View extends BaseView {
 	// La portion de mémoire correspondant à cette vue.
 	protected memDump = new MemoryDump();
 
+	// The display file (D_FILE) currently shown. It can be collapsed (1K, 2K).
+	// Le fichier d'affichage (D_FILE) actuellement montré. Il peut être réduit (1K, 2K).
+	protected displayFile: Zx81DisplayFile | undefined;
+
 	// The windows title.
 	// Le titre de la fenètre.
 	protected title = "ZX81 Simulator";
@@ -44,9 +55,27 @@ export class Zx81View extends BaseView {
 	// Une référence au simulateur.
 	protected simulator: ZSimRemote;
 
-	// A map to hold the values of the simulated ports for the keyboard (port <-> value).
-	// Une table d'association qui contient la valeur des ports simulés du clavier (port <-> valeur).
-	protected simulatedPorts: Map<number, number>;
+	// The last frame generated by the ULA or undefined if the ULA does not generate the display (e.g. FAST mode).
+	// La dernière image générée par la ULA ou undefined si la ULA ne génère pas l'affichage (par ex. mode FAST).
+	protected frame: Uint8Array | undefined;
+
+	// The keys that move the joystick.
+	// Les touches qui bougent le joystick.
+	protected static readonly JOYSTICK_KEYS: {[key: string]: string} = {
+		ArrowUp: 'up', ArrowDown: 'down', ArrowLeft: 'left', ArrowRight: 'right', ControlLeft: 'fire', ControlRight: 'fire'
+	};
+
+	// The images of the characters drawn from the character set of the ROM (e.g. of the Lambda 8300).
+	// Les images des caractères dessinées à partir du jeu de caractères de la ROM (par ex. du Lambda 8300).
+	protected romCharImages: Array<string> | undefined;
+
+	// The time (in ms) of the last update of the display by a vertical sync.
+	// Le moment (en ms) de la dernière mise à jour de l'affichage par une synchronisation verticale.
+	protected lastVertSyncTime = 0;
+
+	// The frames of the snapshots last sent to the web view (to send the timeline only if it changed).
+	// Les images des instantanés envoyées en dernier à la vue web (pour n'envoyer la chronologie que si elle a changé).
+	protected lastTimeline = '';
 
 		
 	/**
@@ -56,36 +85,38 @@ export class Zx81View extends BaseView {
 	constructor(simulator: ZSimRemote) {
 		super(true, false);
 		this.simulator = simulator;
-		this.initPorts();
+		this.title = this.getMachine().title + " Simulator";
 		Remote.on('vertSync', async () => this.vertSync());
 	}
 
+
+	/**
+	 * Returns the simulated machine (ZX81 or clone).
+	 * Retourne la machine simulée (ZX81 ou clone).
+	 */
+	protected getMachine(): Zx81Machine {
+		return Zx81Machines.get(Settings.launch.zsim.machine);
+	}
+
+
 	/**
-	 * Initialize I/O ports for the keyboard.
-	 * Initialise les ports I/O pour le clavier.
+	 * Returns the URI of the image of a character, in the character set of the machine.
+	 * Retourne l'URI de l'image d'un caractère, dans le jeu de caractères de la machine.
+	 * @param value The code of the character.
+	 *              Le code du caractère.
 	 */
-	private initPorts() {
-		this.simulatedPorts = new Map<number, number>();
-		this.simulatedPorts.set(0xFEFE, 0xFF);
-		this.simulatedPorts.set(0xFDFE, 0xFF);
-		this.simulatedPorts.set(0xFBFE, 0xFF);
-		this.simulatedPorts.set(0xF7FE, 0xFF);
-		this.simulatedPorts.set(0xEFFE, 0xFF);
-		this.simulatedPorts.set(0xDFFE, 0xFF);
-		this.simulatedPorts.set(0xBFFE, 0xFF);
-		this.simulatedPorts.set(0x7FFE, 0xFF);
-
-		// Set callbacks for all simulated ports.
-		// Met en place les rappels pour les ports simulés.
-		for (const [simPort,] of this.simulatedPorts) {
-			// Register the callback.
-			// Enregistre la fonction de rappel.
-			this.simulator.ports.registerSpecificInPortFunction(simPort, (port: number) => {
-				// Simply return the value.
-				// Retourne simplement la valeur.
-				return this.simulatedPorts.get(port)!;
-			});
+	protected getCharSrc(value: number): string {
+		if (this.getMachine().charset == 'ROM') {
+			// Drawn once from the character patterns of the ROM, 16x16 like the images of the ZX81.
+			// Dessinées une fois à partir des motifs des caractères de la ROM, 16x16 comme les images du ZX81.
+			if (!this.romCharImages) {
+				const charset = this.simulator.memory.readBlock(Zx81Screenshot.ROM_CHARSET, Zx81Screenshot.CHARSET_SIZE);
+				this.romCharImages = Array.from({length: 256}, (_, code) =>
+					'data:image/png;base64,' + Zx81Screenshot.characterToPng(charset, code, 2).toString('base64'));
+			}
+			return this.romCharImages[value];
 		}
+		return this.vscodePanel.webview.asWebviewUri(BaseView.getZX81ImageSrc(value)).toString();
 	}
 
 
@@ -111,6 +142,12 @@ export class Zx81View extends BaseView {
 				// Une touche a été pressée.
 				this.keyChanged(message.key, message.shift, message.value);
 				break;
+
+			case 'joystick':
+				// The gamepad moved the joystick.
+				// La manette de jeu a bougé le joystick.
+				this.simulator.joystick?.setDirection(message.direction, message.value);
+				break;
 			
 				case 'valueChanged':
 				try {
@@ -134,6 +171,35 @@ export class Zx81View extends BaseView {
 				}
 				break;
 
+			case 'tape':
+				// A button of the tape deck was pressed.
+				// Un bouton du lecteur de cassette a été pressé.
+				await this.tapeAction(message.action);
+				break;
+
+			case 'recorder':
+				// A button of the recorder was pressed.
+				// Un bouton de l'enregistreur a été pressé.
+				try {
+					await this.recorderAction(message.action);
+				}
+				catch (e) {
+					vscode.window.showErrorMessage(e.message);
+				}
+				this.updateRecorder();
+				break;
+
+			case 'timeline':
+				// Go back to a snapshot of the timeline.
+				// Retourne à un instantané de la chronologie.
+				try {
+					this.simulator.restoreSnapshot(parseInt(message.index));
+				}
+				catch (e) {
+					vscode.window.showErrorMessage(e.message);
+				}
+				break;
+
 			case 'getValueInfoText':
 				// Display a tooltip.
 				// Affiche une info-bulle.
@@ -153,8 +219,18 @@ export class Zx81View extends BaseView {
 	 * Called when the beam of the virtual display goes back to the top.
 	 * Appelé lorse le rayon de l'écran virtuel revient au sommet.
 	 */
-	private vertSync() {
-		this.update(false);
+	private async vertSync() {
+		// Get the frame generated by the ULA (if any).
+		// Récupère l'image générée par la ULA (s'il y en a une).
+		this.frame = this.simulator.ula.getFrame();
+
+		// Do not update more often than the update frequency.
+		// Ne met pas à jour plus souvent que la fréquence de mise à jour.
+		const now = Date.now();
+		if (now - this.lastVertSyncTime < 1000 / Settings.launch.zsim.updateFrequency)
+			return;
+		this.lastVertSyncTime = now;
+		await this.update(false);
 	}
 
 	/**
@@ -188,13 +264,12 @@ export class Zx81View extends BaseView {
 	 * @param md The MemoryDump to convert.
 	 */
 	protected async getValueInfoText(address: number, md: MemoryDump) {
-		if(md.metaBlocks.length <= 0) return;
-		// Line and column
-		const offset = address - md.metaBlocks[0].address;
-		// There is 33 bytes per line (HALT followed by 32 visible characters)
-		const column = offset % 33 - 1;
-		const line = Math.trunc(offset / 33);
-		let text = 'Line: ' + line.toString() + ', Column: ' + column.toString() + '\n';
+		if(md.metaBlocks.length <= 0 || !this.displayFile) return;
+		// Line and column (the lines can be collapsed)
+		// Ligne et colonne (les lignes peuvent être réduites)
+		const position = this.displayFile.getPosition(address);
+		if (!position) return;
+		let text = 'Line: ' + position.line.toString() + ', Column: ' + position.column.toString() + '\n';
 
 		// Value
 		const value = md.getValueFor(address);
@@ -227,38 +302,55 @@ export class Zx81View extends BaseView {
 	 *               Non utilisé.
 	 */
 	public async update(reason: boolean): Promise<void> {
-		// Do we have no data yet?
-		// Est-ce qu'il n'y a pas de données ?
-		if(this.memDump.metaBlocks.length <= 0) {
-			// Get the content of the D_FILE system variable (2 bytes).
-			// Récupère le contenu de la variable système D_FILE (2 octets)
-			const dfile_ptr = await Remote.readMemoryDump(0x400c, 2);
-			// Conversion from little endian.
-			// Conversion depuis le petit boutiste.
-			const dfile = dfile_ptr[0] + 256 * dfile_ptr[1];
-			// 24 lines of 33 bytes.
-			// 24 lignes de 33 octets.
-			const size = 33 * 24;
+		// Show the state of the tape deck, the timeline and the recorder.
+		// Montre l'état du lecteur de cassette, la chronologie et l'enregistreur.
+		this.updateTape();
+		this.updateTimeline();
+		this.updateRecorder();
+		this.updateSound();
+
+		// If the ULA generates the display, show its frame.
+		// Si la ULA génère l'affichage, montre son image.
+		if (this.frame) {
+			this.updateFrame(this.frame);
+			return;
+		}
+
+		// Walk the display file (D_FILE) line by line, the lines are terminated by a HALT.
+		// Parcourt le fichier d'affichage (D_FILE) ligne par ligne, les lignes se terminent par un HALT.
+		const displayFile = await Zx81DisplayFile.read();
+		const data = displayFile.data;
+
+		// Has the layout of the display file changed (e.g. a line of a collapsed display file has grown)?
+		// Est-ce que la disposition du fichier d'affichage a changé (par ex. une ligne d'un fichier réduit a grandi) ?
+		const sameLayout = displayFile.sameLayout(this.displayFile);
+		this.displayFile = displayFile;
+		if (!sameLayout) {
 			// Set the new block to display.
 			// Indique le nouveau bloc à afficher.
-			this.setBlock(dfile, size, "Display");
+			this.setBlock(displayFile.address, displayFile.size, "Display");
 		}
 
 		// Get the block to display.
 		// Récupère le bloc à afficher.
 		const metaBlock = this.memDump.metaBlocks[0];
-		// Read its content.
-		// Lit son contenu.
-		const data = await Remote.readMemoryDump(metaBlock.address, metaBlock.size);
 		// Store previous data.
 		// Stoque les données précédentes.
 		metaBlock.prevData = metaBlock.data || new Uint8Array(data);
 		// Store the new data.
 		// Stoque les nouvelles données.
 		metaBlock.data = data;
-	
-		// Update the html.
-		// Met à jour le HTML.
+
+		// Update the html. If the layout has changed, the whole table is created again.
+		// Met à jour le HTML. Si la disposition a changé, toute la table est recréée.
+		if (!sameLayout && this.vscodePanel.webview.html) {
+			const msg = {
+				command: 'setMemoryTable',
+				index: 0,
+				html: this.createHtmlTable(metaBlock)
+			};
+			this.sendMessageToWebView(msg);
+		}
 		this.updateWithoutRemote(reason);
 	}
 
@@ -287,7 +379,7 @@ export class Zx81View extends BaseView {
 					allAddrValsText.push([
 						addrVal[0],
 						Utility.getHexString(addrVal[1], 2),
-						this.vscodePanel.webview.asWebviewUri(Utility.getZX81ImageSrc(addrVal[1])).toString()
+						this.getCharSrc(addrVal[1])
 					]);
 				});
 			}
@@ -302,6 +394,214 @@ export class Zx81View extends BaseView {
 	}
 
 
+	/**
+	 * Sends a frame generated by the ULA to the web view.
+	 * The pixels are packed (8 pixels per byte) and encoded in base64.
+	 * Envoie une image générée par la ULA à la vue web.
+	 * Les pixels sont compactés (8 pixels par octet) et encodés en base64.
+	 * @param frame The pixels (one byte per pixel).
+	 *              Les pixels (un octet par pixel).
+	 */
+	protected updateFrame(frame: Uint8Array) {
+		// Create generic html if not yet done
+		if (!this.vscodePanel.webview.html) {
+			this.setHtml();
+			this.setPanelTitle();
+		}
+
+		const packed = new Uint8Array(frame.length / 8);
+		for (let i = 0; i < frame.length; i++) {
+			if (frame[i])
+				packed[i >> 3] |= 0x80 >> (i & 0x07);
+		}
+		const msg = {
+			command: 'frame',
+			width: Zx81Ula.SCREEN_WIDTH,
+			height: Zx81Ula.SCREEN_HEIGHT,
+			pixels: Buffer.from(packed).toString('base64')
+		};
+		this.sendMessageToWebView(msg);
+	}
+
+
+	/**
+	 * Executes an action of the tape deck.
+	 * Exécute une action du lecteur de cassette.
+	 * @param action 'insert', 'play', 'stop' or 'rewind'.
+	 *               'insert', 'play', 'stop' ou 'rewind'.
+	 */
+	protected async tapeAction(action: string) {
+		const tape = this.simulator.tape;
+		switch (action) {
+			case 'insert':
+				{
+					// Ask for the file of the tape.
+					// Demande le fichier de la cassette.
+					const uris = await vscode.window.showOpenDialog({
+						canSelectMany: false,
+						defaultUri: vscode.Uri.file(Settings.launch.zsim.tapeDir),
+						filters: {'Tapes': ['p', '81', 'tzx', 'wav']}
+					});
+					if (!uris || uris.length == 0)
+						return;
+					try {
+						tape.load(uris[0].fsPath);
+					}
+					catch (e) {
+						vscode.window.showErrorMessage(e.message);
+					}
+				}
+				break;
+			case 'play':
+				tape.play();
+				break;
+			case 'stop':
+				tape.stop();
+				break;
+			case 'rewind':
+				tape.rewind();
+				break;
+		}
+		this.updateTape();
+	}
+
+
+	/**
+	 * Sends the state of the tape deck to the web view.
+	 * Envoie l'état du lecteur de cassette à la vue web.
+	 */
+	protected updateTape() {
+		if (!this.vscodePanel.webview.html)
+			return;
+		const tape = this.simulator.tape;
+		const {position, length} = tape.getPosition();
+		const time = (seconds: number) => Math.floor(seconds / 60) + ':' + Math.floor(seconds % 60).toString().padStart(2, '0');
+		let text = 'No tape';
+		if (tape.filePath)
+			text = UnifiedPath.basename(tape.filePath) + ' ' + time(position) + ' / ' + time(length) + (tape.playing ? ' ▶' : '');
+		const msg = {
+			command: 'tapeStatus',
+			text
+		};
+		this.sendMessageToWebView(msg);
+	}
+
+
+	/**
+	 * Executes an action of the recorder of the inputs.
+	 * Exécute une action de l'enregistreur des entrées.
+	 * @param action 'record', 'stop' or 'replay'.
+	 *               'record', 'stop' ou 'replay'.
+	 */
+	protected async recorderAction(action: string) {
+		const simulator = this.simulator;
+		const filters = {'Recordings': ['zrec']};
+		switch (action) {
+			case 'record':
+				simulator.startRecording();
+				break;
+			case 'stop':
+				if (simulator.recording) {
+					// Ask for the file of the recording.
+					// Demande le fichier de l'enregistrement.
+					const recording = simulator.stopRecording();
+					const uri = await vscode.window.showSaveDialog({
+						defaultUri: vscode.Uri.file(UnifiedPath.join(Settings.launch.rootFolder, 'recording.zrec')),
+						filters
+					});
+					if (uri)
+						recording.save(uri.fsPath);
+				}
+				else if (simulator.replay) {
+					simulator.stopReplay();
+				}
+				break;
+			case 'replay':
+				{
+					const uris = await vscode.window.showOpenDialog({
+						canSelectMany: false,
+						defaultUri: vscode.Uri.file(Settings.launch.rootFolder),
+						filters
+					});
+					if (!uris || uris.length == 0)
+						return;
+					simulator.startReplay(ZSimRecording.load(uris[0].fsPath));
+				}
+				break;
+		}
+	}
+
+
+	/**
+	 * Sends the state of the recorder to the web view.
+	 * Envoie l'état de l'enregistreur à la vue web.
+	 */
+	protected updateRecorder() {
+		if (!this.vscodePanel.webview.html)
+			return;
+		const {recording, replay, replayIndex} = this.simulator;
+		let text = '';
+		if (recording)
+			text = 'Recording (' + recording.events.length + ' events) ●';
+		else if (replay)
+			text = 'Replaying (' + replayIndex + ' / ' + replay.events.length + ' events) ▶';
+		const msg = {
+			command: 'recorderStatus',
+			text
+		};
+		this.sendMessageToWebView(msg);
+	}
+
+
+	/**
+	 * Sends the sound generated by the sound board and the VSYNC/MIC line (if any) to the web view to be played.
+	 * The samples are 16 bits (little endian) and encoded in base64.
+	 * Envoie le son généré par la carte son et la ligne VSYNC/MIC (s'il y en a) à la vue web pour être joué.
+	 * Les échantillons sont sur 16 bits (petit boutiste) et encodés en base64.
+	 */
+	protected updateSound() {
+		if (!this.vscodePanel.webview.html)
+			return;
+		const samples = this.simulator.takeSoundSamples();
+		if (!samples || samples.length == 0)
+			return;
+		const data = Buffer.alloc(2 * samples.length);
+		samples.forEach((sample, i) => data.writeInt16LE(Math.round(Math.max(-1, Math.min(1, sample)) * 0x7FFF), 2 * i));
+		const msg = {
+			command: 'sound',
+			sampleRate: Zx81VsyncSound.SAMPLE_RATE,
+			samples: data.toString('base64')
+		};
+		this.sendMessageToWebView(msg);
+	}
+
+
+	/**
+	 * Sends the frames of the snapshots (timeline) to the web view.
+	 * Envoie les images des instantanés (chronologie) à la vue web.
+	 */
+	protected updateTimeline() {
+		if (!this.vscodePanel.webview.html)
+			return;
+		const snapshots = this.simulator.snapshots;
+		if (!snapshots)
+			return;
+		// Send only if there is a new snapshot or if some were removed.
+		// Envoie seulement s'il y a un nouvel instantané ou si certains ont été enlevés.
+		const frames = snapshots.getFrames();
+		const timeline = frames.length + ':' + frames[frames.length - 1];
+		if (timeline == this.lastTimeline)
+			return;
+		this.lastTimeline = timeline;
+		const msg = {
+			command: 'timeline',
+			frames,
+			frameRate: this.simulator.getFrameRate()
+		};
+		this.sendMessageToWebView(msg);
+	}
+
+
 	/** Create and sets the panel title from the meta block address ranges.
 	 */
 	protected setPanelTitle() {
@@ -312,6 +612,10 @@ export class Zx81View extends BaseView {
 	/** Creates the script (i.e. functions) for all blocks (html tables).
 	 */
 	protected createHtmlScript(): string {
+		// The gamepad is polled only if it moves the joystick.
+		// La manette de jeu n'est interrogée que si elle bouge le joystick.
+		const joystickInput = Settings.launch.zsim.joystickInput;
+		const gamepad = (this.simulator.joystick != undefined && joystickInput != 'ARROWS');
 		const html = `
 		<script>
 		const vscode = acquireVsCodeApi();
@@ -390,6 +694,146 @@ export class Zx81View extends BaseView {
 			curObj.addEventListener("keypress", keyPress, true);
 		}
 
+		function showScreen(visible) {
+			// Show the canvas (ULA) or the characters of the display file.
+			// Montre le canevas (ULA) ou les caractères du fichier d'affichage.
+			document.getElementById("screen").style.display = visible ? "block" : "none";
+			const dfile = document.getElementById("dfile");
+			if(dfile) dfile.style.display = visible ? "none" : "block";
+		}
+
+		function tape(action) {
+			// A button of the tape deck.
+			// Un bouton du lecteur de cassette.
+			vscode.postMessage({
+				command: 'tape',
+				action: action
+			});
+		}
+
+		// The frames of the snapshots and true if the user has selected one.
+		// Les images des instantanés et true si l'utilisateur en a sélectionné un.
+		let timelineFrames = [];
+		let timelineFrameRate = 50;
+		let timelineSelected = false;
+
+		function showTimelineFrame() {
+			// Show the frame and the time of the selected snapshot (ca. 50 or 60 frames per second).
+			// Montre l'image et le temps de l'instantané sélectionné (env. 50 ou 60 images par seconde).
+			const slider = document.getElementById("timeline_slider");
+			const frame = timelineFrames[slider.value];
+			let text = 'No snapshot';
+			if (frame != undefined) {
+				const seconds = Math.floor(frame / timelineFrameRate);
+				text = 'Frame ' + frame + ' (' + Math.floor(seconds / 60) + ':' + (seconds % 60).toString().padStart(2, '0') + ')';
+			}
+			document.getElementById("timeline_status").textContent = text;
+		}
+
+		function timelineChanged() {
+			// The user moves the slider.
+			// L'utilisateur déplace le curseur.
+			timelineSelected = true;
+			showTimelineFrame();
+		}
+
+		function timeline() {
+			// Go back to the selected snapshot.
+			// Retourne à l'instantané sélectionné.
+			const slider = document.getElementById("timeline_slider");
+			if (timelineFrames.length == 0)
+				return;
+			timelineSelected = false;
+			vscode.postMessage({
+				command: 'timeline',
+				index: slider.value
+			});
+		}
+
+		function recorder(action) {
+			// A button of the recorder.
+			// Un bouton de l'enregistreur.
+			vscode.postMessage({
+				command: 'recorder',
+				action: action
+			});
+		}
+
+		// The audio context (created with the first sound) and the time of the end of the sound scheduled.
+		// Le contexte audio (créé avec le premier son) et le moment de la fin du son programmé.
+		let audioContext = undefined;
+		let audioTime = 0;
+
+		function playSound(sampleRate, samples) {
+			// Play the samples after the ones already scheduled.
+			// Joue les échantillons après ceux déjà programmés.
+			if (!document.getElementById("sound_enabled").checked)
+				return;
+			if (!audioContext)
+				audioContext = new AudioContext();
+			const data = atob(samples);
+			const count = data.length / 2;
+			const buffer = audioContext.createBuffer(1, count, sampleRate);
+			const channel = buffer.getChannelData(0);
+			for(let i = 0; i < count; i++) {
+				let value = data.charCodeAt(2 * i) | (data.charCodeAt(2 * i + 1) << 8);
+				if (value >= 0x8000) value -= 0x10000;
+				channel[i] = value / 0x8000;
+			}
+			// Late (e.g. the simulator was paused): restart with a small latency. Too early (faster than real time): drop.
+			// En retard (par ex. le simulateur était en pause) : redémarre avec une petite latence. Trop tôt (plus rapide que le temps réel) : abandonne.
+			const now = audioContext.currentTime;
+			if (audioTime < now)
+				audioTime = now + 0.1;
+			else if (audioTime > now + 1)
+				return;
+			const source = audioContext.createBufferSource();
+			source.buffer = buffer;
+			source.connect(audioContext.destination);
+			source.start(audioTime);
+			audioTime += count / sampleRate;
+		}
+
+		function resumeSound() {
+			// The audio context can only start after an action of the user.
+			// Le contexte audio ne peut démarrer qu'après une action de l'utilisateur.
+			if (audioContext && audioContext.state == "suspended")
+				audioContext.resume();
+		}
+
+		// The directions of the joystick that are on with the gamepad.
+		// Les directions du joystick activées par la manette de jeu.
+		const gamepadDirections = {up: false, down: false, left: false, right: false, fire: false};
+
+		function pollGamepad() {
+			// Read the first gamepad (stick or d-pad, buttons 0 and 1 for fire) and send the changes.
+			// Lit la première manette de jeu (stick ou croix directionnelle, boutons 0 et 1 pour tirer) et envoie les changements.
+			const pad = Array.from(navigator.getGamepads()).find(pad => pad);
+			const pressed = index => pad && pad.buttons[index] && pad.buttons[index].pressed;
+			const axis = index => (pad && pad.axes.length > index) ? pad.axes[index] : 0;
+			const directions = {
+				up: pressed(12) || axis(1) < -0.5,
+				down: pressed(13) || axis(1) > 0.5,
+				left: pressed(14) || axis(0) < -0.5,
+				right: pressed(15) || axis(0) > 0.5,
+				fire: pressed(0) || pressed(1)
+			};
+			for (const direction in directions) {
+				if (directions[direction] != gamepadDirections[direction]) {
+					gamepadDirections[direction] = directions[direction];
+					vscode.postMessage({
+						command: 'joystick',
+						direction: direction,
+						value: directions[direction]
+					});
+				}
+			}
+			requestAnimationFrame(pollGamepad);
+		}
+
+		if (${gamepad})
+			requestAnimationFrame(pollGamepad);
+
 		function getCharObjsForAddress(address) {
 			return document.querySelectorAll("img[address='"+address+"']");
 		}
@@ -421,8 +865,65 @@ export class Zx81View extends BaseView {
 					tableDiv.innerHTML = message.html;
  				}   break;
 
+				case 'tapeStatus':
+				{
+					// The state of the tape deck.
+					// L'état du lecteur de cassette.
+					document.getElementById("tape_status").textContent = message.text;
+				}	break;
+
+				case 'recorderStatus':
+				{
+					// The state of the recorder.
+					// L'état de l'enregistreur.
+					document.getElementById("recorder_status").textContent = message.text;
+				}	break;
+
+				case 'timeline':
+				{
+					// The frames of the snapshots. The slider follows the last one unless the user has selected one.
+					// Les images des instantanés. Le curseur suit le dernier sauf si l'utilisateur en a sélectionné un.
+					timelineFrames = message.frames;
+					timelineFrameRate = message.frameRate;
+					document.getElementById("timeline").style.display = "block";
+					const slider = document.getElementById("timeline_slider");
+					slider.max = Math.max(0, timelineFrames.length - 1);
+					if (!timelineSelected || slider.value >= timelineFrames.length)
+						slider.value = slider.max;
+					showTimelineFrame();
+				}	break;
+
+				case 'sound':
+				{
+					// Samples generated by the sound board and the VSYNC/MIC line.
+					// Échantillons générés par la carte son et la ligne VSYNC/MIC.
+					document.getElementById("sound").style.display = "inline";
+					playSound(message.sampleRate, message.samples);
+				}	break;
+
+				case 'frame':
+				{
+					// A frame generated by the ULA: draw it in the canvas.
+					// Une image générée par la ULA : la dessine dans le canevas.
+					const canvas = document.getElementById("screen");
+					const context = canvas.getContext("2d");
+					const image = context.createImageData(message.width, message.height);
+					const packed = atob(message.pixels);
+					for(let i = 0; i < message.width * message.height; i++) {
+						const black = packed.charCodeAt(i >> 3) & (0x80 >> (i & 0x07));
+						const color = black ? 0 : 255;
+						image.data[4 * i] = color;
+						image.data[4 * i + 1] = color;
+						image.data[4 * i + 2] = color;
+						image.data[4 * i + 3] = 255;
+					}
+					context.putImageData(image, 0, 0);
+					showScreen(true);
+				}	break;
+
 				case 'memoryChanged':
 				{
+					showScreen(false);
 					// Note: This is called on every step, even if no memory has changed.
 					// Because it is also required to de-highlight the previous values.
 
@@ -456,8 +957,10 @@ export class Zx81View extends BaseView {
 		window.addEventListener("keyup", onKeyUp);
 		window.addEventListener("focus", onFocus);
 		window.addEventListener("blur", onBlur);
+		window.addEventListener("click", resumeSound);
 
 		function onKeyDown(e) {
+			resumeSound();
 			vscode.postMessage({
 				command: 'keyChanged',
 				value: true,
@@ -493,51 +996,47 @@ export class Zx81View extends BaseView {
 
 	/**
 	 * Creates one html table out of a meta block.
+	 * The display file can be collapsed: the missing characters are shown as spaces.
 	 * Crée une table html à partir d'un méta-bloc.
+	 * Le fichier d'affichage peut être réduit : les caractères manquants sont affichés comme des espaces.
 	 * @param metaBlock The block to display.
 	 *                  Le bloc à afficher.
 	 */
 	protected createHtmlTable(metaBlock: MetaBlock): string {
 		// If there is not data, don't do anything.
 		// S'il n'y a pas de données, ne rien faire.
-		if (!metaBlock.data) return '';
+		if (!metaBlock.data || !this.displayFile) return '';
 
 		// Start the html with a div tag.
 		// Débute le html avec une balise div.
-		let html = '<div>\n';
-		// The memory is composed of 24 lines of 33 bytes.
-		// La mémoire est composée de 24 lignes de 34 octets.
-		const clmns = 33;
+		let html = '<div id="dfile">\n';
 		const data = metaBlock.data;
-		const len = data.length;
-
-		// Table contents.
-		// Contenu de la table.
-		let chars = '';
-		let address = metaBlock.address;
-		for (let k = 0; k < len; k++) {
-			const value = data[k];
-
-			// First byte of each line is an HALT (76), skip it.
-			// Le premier octet de chaque ligne est un HALT (76), on le saute.
-			if(k % clmns != 0) {
-				// Add the image of the character and we set a mouseover handler.
-				// On ajoute l'image du caractère et on met un gestionnaire pour mouseover
-				chars += '<img address="' + address + '" src="' + this.vscodePanel.webview.asWebviewUri(Utility.getZX81ImageSrc(value)) + '"';
-				chars += ' onmouseover="mouseOverValue(this)">\n';
-			}
-
-			// Check end of line.
-			// Teste si c'est une fin de ligne.
-			if (k % clmns == clmns - 1) {
-				// Add characters to the table.
-				// Ajoute les caractères à la table.
-				html += '<div class="row">\n' + chars + '</div>\n';
-				chars = '';
+		// The image of a space, used for the missing characters.
+		// L'image d'un espace, utilisée pour les caractères manquants.
+		const space = this.getCharSrc(0);
+
+		for (const line of this.displayFile.lines) {
+			// Table contents.
+			// Contenu de la table.
+			let chars = '';
+			for (let column = 0; column < Zx81DisplayFile.COLUMNS; column++) {
+				if (column < line.length) {
+					// Add the image of the character and we set a mouseover handler.
+					// On ajoute l'image du caractère et on met un gestionnaire pour mouseover
+					const address = line.address + column;
+					const value = data[address - metaBlock.address];
+					chars += '<img address="' + address + '" src="' + this.getCharSrc(value) + '"';
+					chars += ' onmouseover="mouseOverValue(this)">\n';
+				}
+				else {
+					// Collapsed line.
+					// Ligne réduite.
+					chars += '<img src="' + space + '">\n';
+				}
 			}
-			// Next address.
-			// Adresse suivante.
-			++address;
+			// Add characters to the table.
+			// Ajoute les caractères à la table.
+			html += '<div class="row">\n' + chars + '</div>\n';
 		}
 
 		// Close the table.
@@ -555,9 +1054,10 @@ export class Zx81View extends BaseView {
 		// Color to use when a value is changed.
 		// Couleur à utiliser quand une valeur change.
 		const changedColor = "red";
-		// URL of the image of the keyboard.
-		// URL de l'image du clavier.
-		const keyboardImg = this.vscodePanel.webview.asWebviewUri(Utility.getAssetSrc("ZX81-keyboard.png")).toString();
+		// URL of the image of the keyboard. The keys of the clones are at the same places.
+		// URL de l'image du clavier. Les touches des clones sont aux mêmes endroits.
+		const keyboardImg = this.vscodePanel.webview.asWebviewUri(BaseView.getAssetSrc("ZX81-keyboard.png")).toString();
+		const keyboardAlt = this.getMachine().title + " Keyboard";
 
 		// HTMö and CSS.
 		const format = `<!DOCTYPE html>
@@ -580,6 +1080,13 @@ export class Zx81View extends BaseView {
 			box-sizing: border-box;
 		}
 
+		.screen {
+			display: none;
+			width: 640px;
+			height: 480px;
+			image-rendering: pixelated;
+		}
+
 		.keyboard {
 			width: 508px;
 			margin-top: 20px;
@@ -591,13 +1098,58 @@ export class Zx81View extends BaseView {
 		.focus {
 			border-color: greenyellow;
 		}
+
+		.tape {
+			margin-top: 10px;
+		}
+
+		.timeline {
+			display: none;
+			margin-top: 10px;
+		}
+
+		.recorder {
+			margin-top: 10px;
+		}
+
+		.sound {
+			display: none;
+			margin-left: 20px;
+		}
 		</style>
 
 		<body>
 
+		<canvas id="screen" class="screen" width="${Zx81Ula.SCREEN_WIDTH}" height="${Zx81Ula.SCREEN_HEIGHT}"></canvas>
+
 		%s
 
-		<img class="keyboard" src="${keyboardImg}" alt="ZX81 Keyboard">
+		<div class="tape">
+			<button onclick="tape('insert')">Insert...</button>
+			<button onclick="tape('play')">Play</button>
+			<button onclick="tape('stop')">Stop</button>
+			<button onclick="tape('rewind')">Rewind</button>
+			<span id="tape_status">No tape</span>
+		</div>
+
+		<div class="timeline" id="timeline">
+			<input type="range" id="timeline_slider" min="0" max="0" value="0" oninput="timelineChanged()">
+			<button onclick="timeline()">Go back</button>
+			<span id="timeline_status">No snapshot</span>
+		</div>
+
+		<div class="recorder">
+			<button onclick="recorder('record')">Record</button>
+			<button onclick="recorder('stop')">Stop</button>
+			<button onclick="recorder('replay')">Replay...</button>
+			<span id="recorder_status"></span>
+			<span class="sound" id="sound">
+				<input type="checkbox" id="sound_enabled" checked onchange="resumeSound()">
+				<label for="sound_enabled">Sound</label>
+			</span>
+		</div>
+
+		<img class="keyboard" src="${keyboardImg}" alt="${keyboardAlt}">
 
 		</body>
 		</html>
@@ -613,8 +1165,11 @@ export class Zx81View extends BaseView {
 
 		// Add html body to the view.
 		// Ajoute le corps du HTML à la vue.
-		const html = util.format(format, scripts + tables);
+		const html = util.format(format, scripts + '<div id="mem_table_0">' + tables + '</div>');
 		this.vscodePanel.webview.html = html;
+		// The new web view has no timeline yet.
+		// La nouvelle vue web n'a pas encore de chronologie.
+		this.lastTimeline = '';
 	}
 
 	/**
@@ -627,179 +1182,15 @@ export class Zx81View extends BaseView {
 	 * @param on true: pressed, false: released.
 	 *           true: pressée, false: relachée.
 	 */
-	protected async keyChanged(key: string, shift: boolean, on: boolean) {
-		// Determine port.
-		// Détermine le numéro de port.
-		let port = 0;
-		switch (key) {
-			case 'Digit1':
-			case 'Digit2':
-			case 'Digit3':
-			case 'Digit4':
-			case 'Digit5':
-				port = 0xF7;
-				break;
-			case 'Digit6':
-			case 'Digit7':
-			case 'Digit8':
-			case 'Digit9':
-			case 'Digit0':
-				port = 0xEF;
-				break;
-			case 'KeyQ':
-			case 'KeyW':
-			case 'KeyE':
-			case 'KeyR':
-			case 'KeyT':
-				port = 0xFB;
-				break;
-			case 'KeyY':
-			case 'KeyU':
-			case 'KeyI':
-			case 'KeyO':
-			case 'KeyP':
-				port = 0xDF;
-				break;
-			case 'KeyA':
-			case 'KeyS':
-			case 'KeyD':
-			case 'KeyF':
-			case 'KeyG':
-				port = 0xFD;
-				break;
-			case 'KeyH':
-			case 'KeyJ':
-			case 'KeyK':
-			case 'KeyL':
-			case 'Enter':
-				port = 0xBF;
-				break;
-			case 'KeyZ':
-			case 'KeyX':
-			case 'KeyC':
-			case 'KeyV':
-				port = 0xFE;
-				break;
-			case 'KeyB':
-			case 'KeyN':
-			case 'KeyM':
-			case 'Period':
-			case 'Space':
-				port = 0x7F;
-				break;
-			default:
-				break;
-		}
-
-		// Determine bit.
-		// Détermine le numéro de bit.
-		let n_bit = -1;
-		switch (key) {
-			case 'KeyA':
-			case 'KeyQ':
-			case 'Digit1':
-			case 'Digit0':
-			case 'KeyP':
-			case 'Enter':
-			case 'Space':
-				n_bit = 0;
-				break;
-			case 'KeyZ':
-			case 'KeyS':
-			case 'KeyW':
-			case 'Digit2':
-			case 'Digit9':
-			case 'KeyO':
-			case 'KeyL':
-			case 'Period':
-				n_bit = 1;
-				break;
-			case 'KeyX':
-			case 'KeyD':
-			case 'KeyE':
-			case 'Digit3':
-			case 'Digit8':
-			case 'KeyI':
-			case 'KeyK':
-			case 'KeyM':
-				n_bit = 2;
-				break;
-			case 'KeyC':
-			case 'KeyF':
-			case 'KeyR':
-			case 'Digit4':
-			case 'Digit7':
-			case 'KeyU':
-			case 'KeyJ':
-			case 'KeyN':
-				n_bit = 3;
-				break;
-			case 'KeyV':
-			case 'KeyG':
-			case 'KeyT':
-			case 'Digit5':
-			case 'Digit6':
-			case 'KeyY':
-			case 'KeyH':
-			case 'KeyB':
-				n_bit = 4;
-				break;
-			default:
-				break;
-		}
-
-		// Unknown key so return.
-		// Touche inconnue donc sort.
-		if(port === 0 || n_bit === -1) return;
-
-		let bit = 1 << n_bit;
-		// Special case for the Shift key. If on same port, add the bit.
-		if(shift && port === 0xFE) bit |= 0b00001;
-
-		const actualPort = (port << 8) | 0x00FE;
-		// Get port value.
-		// Obtient la valeur du port.
-		Utility.assert(this.simulatedPorts);
-		let value = this.simulatedPorts.get(actualPort)!;
-		Utility.assert(value != undefined);
-		// Set or reset the bit.
-		// Met à jour le bit.
-		if (on) value &= ~bit; else	value |= bit;
-		// Update the value of the port.
-		// Met à jour la valeur du port
-		this.simulatedPorts.set(actualPort, value);
-
-		// Special case for the Shift key. If not on same port, update the shift port
-		if(shift && port !== 0xFE) {
-			value = this.simulatedPorts.get(0xFEFE)!;
-			this.simulatedPorts.set(0xFEFE, on ? value & 0b11110 : value | 0b00001);		
-		}
-	
-		await this.updateLastK(on, port, n_bit, shift);
-	}
-
-	private async updateLastK(on: boolean, port: number, n_bit: number, shift: boolean) {
-		// LAST_K+1     FD  FB  F7  EF  DF | DF  EF  F7  FB  FD
-		//                                 |
-		// LAST_K                          |
-		//        F7    1   2   3   4   5  | 6   7   8   9   0    EF
-		//                                 |
-		//        FB    Q   W   E   R   T  | Y   U   I   O   P    DF
-		//                                 
-		//        FD    A   S   D   F   G  | H   J   K   L  ret   BF
-		//                                 |
-        //        FE        Z   X   C   V  | B   N   M   .  spc   7F
-		//
-		// Shift is bit 0 on LAST_K+1.
-
-		if(on) {
-			await Remote.writeMemory(0x4025, port);
-			await Remote.writeMemory(0x4026, ~(1 << (n_bit + 1)) & (shift ? 0xFE : 0xFF));
-		}
-		else {
-			await Remote.writeMemory(0x4025, 0xFF);
-			await Remote.writeMemory(0x4026, 0xFF);
+	protected keyChanged(key: string, shift: boolean, on: boolean) {
+		// The arrow keys and Ctrl (fire) can move the joystick.
+		// Les touches fléchées et Ctrl (tir) peuvent bouger le joystick.
+		const direction = Zx81View.JOYSTICK_KEYS[key];
+		const joystick = this.simulator.joystick;
+		if (direction && joystick && Settings.launch.zsim.joystickInput != 'GAMEPAD') {
+			joystick.setDirection(direction, on);
+			return;
 		}
+		this.simulator.keyboard.keyChanged(key, shift, on);
 	}
-
 }
@@ -0,0 +1,214 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			z80unittestcontroller.ts
+ * Description:		Shows the unit tests of the program in the Test Explorer of vscode.
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import {DebugSessionClass} from '../debugadapter';
+import {Labels} from '../labels/labels';
+import {UnifiedPath} from '../misc/unifiedpath';
+import {Utility} from '../misc/utility';
+import {Z80UnitTestCase, Z80UnitTestRunner} from './z80unittestrunner';
+
+
+/**
+ * The Test Explorer: the unit tests are grouped by source file.
+ * The tests are discovered when the Test Explorer is opened or refreshed,
+ * and again before each run (the program is compiled).
+ * The configuration is taken from the launch.json: the one with "unitTests": true,
+ * otherwise the first one of the debugger.
+ */
+export class Z80UnitTestController {
+	// true while the tests are discovered or executed (the simulator is in use).
+	public static running = false;
+
+	// The controller of vscode.
+	protected controller: vscode.TestController;
+
+	// The tests (test item <-> test case).
+	protected testCases = new Map<vscode.TestItem, Z80UnitTestCase>();
+
+
+	/**
+	 * Creates the controller and the run profile.
+	 * @param context The context of the extension.
+	 */
+	constructor(context: vscode.ExtensionContext) {
+		this.controller = vscode.tests.createTestController('zx81debugger.unitTests', 'ZX81 Unit Tests');
+		context.subscriptions.push(this.controller);
+		this.controller.resolveHandler = async item => {
+			if (!item)
+				await this.discover();
+		};
+		this.controller.refreshHandler = async () => {
+			await this.discover();
+		};
+		this.controller.createRunProfile('Run', vscode.TestRunProfileKind.Run, async (request, token) => {
+			await this.runTests(request, token);
+		}, true);
+	}
+
+
+	/**
+	 * Returns the configuration (launch.json) for the unit tests.
+	 * @returns The configuration or undefined if there is none.
+	 * Throws an exception if a launch.json can't be parsed.
+	 */
+	protected getConfiguration(): any {
+		let found: any;
+		for (const folder of vscode.workspace.workspaceFolders ?? []) {
+			const launchJsonPath = Utility.getLaunchJsonPath(UnifiedPath.getUnifiedPath(folder.uri.fsPath));
+			if (!fs.existsSync(launchJsonPath))
+				continue;
+			const launch = Utility.readLaunchJson(launchJsonPath);
+			for (const configuration of launch.configurations ?? []) {
+				if (configuration.type != 'zx81debugger')
+					continue;
+				if (!found || (configuration.unitTests && !found.unitTests))
+					found = configuration;
+			}
+		}
+		return found;
+	}
+
+
+	/**
+	 * Creates a runner: compiles the program and reads the labels.
+	 * Errors are shown to the user.
+	 * @returns The runner or undefined in case of error.
+	 */
+	protected async prepare(): Promise<Z80UnitTestRunner | undefined> {
+		if (DebugSessionClass.singleton().running) {
+			vscode.window.showWarningMessage("The unit tests can't be used while the debugger is active.");
+			return undefined;
+		}
+		let runner: Z80UnitTestRunner;
+		try {
+			const configuration = this.getConfiguration();
+			if (!configuration) {
+				vscode.window.showWarningMessage("No configuration for the ZX81 Debugger in the launch.json.");
+				return undefined;
+			}
+			runner = new Z80UnitTestRunner(configuration);
+			const errors = await runner.prepare();
+			if (errors.length > 0) {
+				const error = errors[0];
+				vscode.window.showErrorMessage("Error compiling the unit tests: " + error.message + " (" + error.position.filename + ":" + error.position.pos.line + ")");
+				return undefined;
+			}
+		}
+		catch (e) {
+			vscode.window.showErrorMessage("Unit tests: " + e.message);
+			return undefined;
+		}
+		this.updateItems(runner.getTestCases());
+		return runner;
+	}
+
+
+	/**
+	 * Discovers the tests.
+	 */
+	protected async discover() {
+		if (Z80UnitTestController.running)
+			return;
+		Z80UnitTestController.running = true;
+		try {
+			await this.prepare();
+		}
+		finally {
+			Z80UnitTestController.running = false;
+		}
+	}
+
+
+	/**
+	 * Replaces the items of the Test Explorer: one item per file, one child item per test.
+	 * @param testCases The tests.
+	 */
+	protected updateItems(testCases: Array<Z80UnitTestCase>) {
+		this.testCases.clear();
+		const fileItems = new Map<string, vscode.TestItem>();
+		for (const testCase of testCases) {
+			let fileItem = fileItems.get(testCase.file);
+			if (!fileItem) {
+				const uri = vscode.Uri.file(testCase.file);
+				fileItem = this.controller.createTestItem(testCase.file, UnifiedPath.basename(testCase.file), uri);
+				fileItems.set(testCase.file, fileItem);
+			}
+			const item = this.controller.createTestItem(testCase.label, testCase.label, fileItem.uri);
+			item.range = new vscode.Range(testCase.lineNr, 0, testCase.lineNr, 0);
+			fileItem.children.add(item);
+			this.testCases.set(item, testCase);
+		}
+		this.controller.items.replace(Array.from(fileItems.values()));
+	}
+
+
+	/**
+	 * Runs the tests requested by the Test Explorer.
+	 * The program is compiled again, so the tests are found by their ids.
+	 * @param request The tests to run (all if 'include' is undefined).
+	 * @param token To cancel the run.
+	 */
+	protected async runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken) {
+		if (Z80UnitTestController.running)
+			return;
+		Z80UnitTestController.running = true;
+		const run = this.controller.createTestRun(request);
+		try {
+			const runner = await this.prepare();
+			if (!runner)
+				return;
+			runner.output = text => run.appendOutput(text.replace(/\n/g, '\r\n') + '\r\n');
+			const cancel = token.onCancellationRequested(async () => await runner.cancel());
+
+			// The tests (after the compilation, the items have changed)
+			const include = request.include?.map(item => item.id);
+			const exclude = request.exclude?.map(item => item.id) ?? [];
+			const items = new Array<vscode.TestItem>();
+			this.controller.items.forEach(fileItem => {
+				fileItem.children.forEach(item => {
+					if (include && !include.includes(item.id) && !include.includes(fileItem.id))
+						return;
+					if (exclude.includes(item.id) || exclude.includes(fileItem.id))
+						return;
+					items.push(item);
+					run.enqueued(item);
+				});
+			});
+
+			for (const item of items) {
+				if (token.isCancellationRequested) {
+					run.skipped(item);
+					continue;
+				}
+				run.started(item);
+				const result = await runner.run(this.testCases.get(item)!);
+				if (result.passed) {
+					run.passed(item, result.duration);
+					continue;
+				}
+				// The message is shown at the address of the failure
+				let text = result.message;
+				if (result.address != undefined)
+					text += " (" + Utility.getHexString(result.address, 4) + "h)";
+				const message = new vscode.TestMessage(text);
+				const entry = (result.address != undefined) ? Labels.getFileAndLineForAddress(result.address) : undefined;
+				if (entry?.fileName)
+					message.location = new vscode.Location(vscode.Uri.file(entry.fileName), new vscode.Position(entry.lineNr, 0));
+				run.failed(item, message, result.duration);
+			}
+			cancel.dispose();
+		}
+		finally {
+			run.end();
+			Z80UnitTestController.running = false;
+		}
+	}
+}
@@ -0,0 +1,171 @@
+/**
+ * ZX81 Debugger
+ *
+ * File:			z80unittestrunner.ts
+ * Description:		Runs the unit tests (UT_ labels) of the program in the simulator.
+ * Author:			Sebastien Andrivet
+ * License:			GPLv3
+ * Copyrights: 		ZX81 Debugger Copyright (C) 2023 Sebastien Andrivet
+ */
+import {CompilationError} from '@andrivet/z80-assembler';
+import {Labels} from '../labels/labels';
+import {Utility} from '../misc/utility';
+import {Remote} from '../remotes/remotebase';
+import {ZSimHeadless} from '../remotes/zsimulator/zsimheadless';
+import {Settings, SettingsParameters} from '../settings/settings';
+
+
+/**
+ * A unit test: a label of the program.
+ */
+export interface Z80UnitTestCase {
+	// The label, e.g. "UT_add" or "math.UT_add".
+	label: string;
+	// The address of the label.
+	address: number;
+	// The source file of the label (absolute path).
+	file: string;
+	// The line number of the label in the source file (0-based).
+	lineNr: number;
+}
+
+
+/**
+ * The result of a unit test.
+ */
+export interface Z80UnitTestResult {
+	// true if the test returned without failing an ASSERTION.
+	passed: boolean;
+	// Why the test failed, e.g. "Assertion failed: A == 5".
+	message: string;
+	// The address where the test failed (PC).
+	address?: number;
+	// The duration of the test in ms.
+	duration: number;
+}
+
+
+/**
+ * Runs the unit tests of a program.
+ * A unit test is a subroutine with a label that starts with "UT_" (e.g. "UT_add").
+ * Each test is executed in a new simulator with the program loaded.
+ * The test starts at the label and passes when it returns (RET).
+ * It fails if an ASSERTION (comment) is not true, at a WPMEM or after a timeout.
+ * E.g.:
+ *   UT_add:
+ *     ld a,2
+ *     call add3
+ *     ; ASSERTION A == 5
+ *     ret
+ * The tests can't run while a debug session is active and vice versa (see ZSimHeadless).
+ */
+export class Z80UnitTestRunner {
+	// The labels of the tests: the last part of the label starts with UT_.
+	protected static readonly TEST_LABEL_REGEX = /(^|\.)UT_[^.]*$/;
+
+	// The configuration (launch.json).
+	protected configuration: SettingsParameters;
+
+	// The simulator.
+	protected headless = new ZSimHeadless();
+
+
+	/**
+	 * Constructor.
+	 * @param configuration The configuration (launch.json) used to compile and run the program.
+	 */
+	constructor(configuration: SettingsParameters) {
+		this.configuration = configuration;
+	}
+
+
+	/**
+	 * Sets the function called with the text of the logpoints and warnings of the simulator.
+	 */
+	public set output(output: ((text: string) => void) | undefined) {
+		this.headless.output = output;
+	}
+
+
+	/**
+	 * Returns true if a label is a unit test.
+	 * @param label E.g. "UT_add" or "math.UT_add".
+	 */
+	public static isTestLabel(label: string): boolean {
+		return Z80UnitTestRunner.TEST_LABEL_REGEX.test(label);
+	}
+
+
+	/**
+	 * Initializes the settings, compiles the program and reads the labels.
+	 * @returns The compilation errors (empty if successful).
+	 * Throws an exception if the settings are wrong or the files can't be read.
+	 */
+	public async prepare(): Promise<CompilationError[]> {
+		ZSimHeadless.initSettings(this.configuration);
+		return this.headless.compile();
+	}
+
+
+	/**
+	 * Returns the unit tests of the program (after 'prepare').
+	 * @returns The tests in the order of the addresses.
+	 */
+	public getTestCases(): Array<Z80UnitTestCase> {
+		const testCases = new Array<Z80UnitTestCase>();
+		for (const label of Labels.getLabelsForRegEx('UT_', '')) {
+			if (!Z80UnitTestRunner.isTestLabel(label))
+				continue;
+			const location = Labels.getLocationOfLabel(label);
+			if (!location)
+				continue;	// Not in the sources
+			testCases.push({label, address: location.address & 0xFFFF, file: location.file, lineNr: location.lineNr});
+		}
+		return testCases.sort((a, b) => a.address - b.address);
+	}
+
+
+	/**
+	 * Executes a unit test in a new simulator.
+	 * @param testCase The test.
+	 * @returns The result.
+	 */
+	public async run(testCase: Z80UnitTestCase): Promise<Z80UnitTestResult> {
+		const start = Date.now();
+		try {
+			await this.headless.start();
+			await Remote.setRegisterValue('PC', testCase.address);
+			await Remote.getRegistersFromEmulator();
+
+			// Run until the return (to FFFFh, the top of the stack) or a break
+			const timeout = Settings.launch.unitTestTimeout;
+			const reason = await this.headless.continue(timeout);
+
+			const address = Remote.getPC();
+			const duration = Date.now() - start;
+			switch (this.headless.stopReason) {
+				case 'timeout':
+					return {passed: false, message: "Timeout after " + timeout + " s.", address, duration};
+				case 'cancel':
+					return {passed: false, message: "Cancelled.", address, duration};
+			}
+			if (address != 0xFFFF)
+				return {passed: false, message: reason || "Stopped at " + Utility.getHexString(address, 4) + "h.", address, duration};
+			return {passed: true, message: '', duration};
+		}
+		catch (e) {
+			return {passed: false, message: e.message, duration: Date.now() - start};
+		}
+		finally {
+			await this.headless.dispose();
+		}
+	}
+
+
+	/**
+	 * Stops the current test.
+	 */
+	public async cancel() {
+		await this.headless.stop('cancel');
+	}
+}
@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import {Ay38912} from '../src/remotes/zsimulator/ay38912';
+import {MemBuffer} from '../src/misc/membuffer';
+import {SimulatedMemory} from '../src/remotes/zsimulator/simulatedmemory';
+import {Z80Ports} from '../src/remotes/zsimulator/z80ports';
+
+
+suite('Ay38912', () => {
+	// The CPU frequency of the ZX81 (the chip is at 1.625 MHz)
+	const FREQUENCY = 3250000;
+	let ay: Ay38912;
+
+	// Runs the chip for a number of seconds and returns the samples.
+	function run(seconds: number): Float32Array {
+		ay.tick(FREQUENCY * seconds);
+		return ay.takeSamples();
+	}
+
+	setup(() => {
+		ay = new Ay38912(FREQUENCY);
+	});
+
+
+	test('ZonX', () => {
+		const ports = new Z80Ports(0xFF);
+		ay.connectZonX(ports);
+		// Select R1, write it (only 4 bits are used)
+		ports.write(0xCF, 0x01);
+		ports.write(0x0F, 0xFF);
+		assert.equal(ay.registers[1], 0x0F);
+		assert.equal(ports.read(0xCF), 0x0F);
+		// Select R7 with the other ports
+		ports.write(0xDF, 0x07);
+		ports.write(0x1F, 0x38);
+		assert.equal(ay.registers[7], 0x38);
+		assert.equal(ports.read(0xDF), 0x38);
+		// Not the sound board
+		assert.equal(ports.read(0xFE), 0xFF);
+	});
+
+
+	test('Quicksilva', () => {
+		const memory = new SimulatedMemory();
+		ay.connectQuicksilva(memory);
+		memory.write8(0x7FFF, 0x08);
+		memory.write8(0x7FFE, 0x0C);
+		assert.equal(ay.selected, 8);
+		assert.equal(ay.registers[8], 0x0C);
+	});
+
+
+	test('tone', () => {
+		// Tone A (period 100 = 1015.6 Hz) at the maximum volume, B and C silent
+		ay.setRegister(0, 100);
+		ay.setRegister(7, 0x3E);
+		ay.setRegister(8, 0x0F);
+		assert.equal(ay.getToneFrequency(0).toFixed(1), '1015.6');
+
+		const samples = run(1);
+		assert.ok(Math.abs(samples.length - Ay38912.SAMPLE_RATE) <= 1);
+		// Count the periods (rising edges)
+		let periods = 0;
+		for (let i = 1; i < samples.length; i++) {
+			if (samples[i - 1] < 1 / 6 && samples[i] >= 1 / 6)
+				periods++;
+		}
+		assert.ok(Math.abs(periods - 1016) <= 2, periods.toString());
+		// 1/3 of the maximum (one channel of 3)
+		assert.ok(Math.max(...samples) <= 1 / 3 + 0.001);
+	});
+
+
+	test('silence', () => {
+		const samples = run(0.1);
+		assert.ok(Math.abs(samples.length - Ay38912.SAMPLE_RATE / 10) <= 1);
+		assert.ok(samples.every(sample => sample == 0));
+	});
+
+
+	test('envelope', () => {
+		// A always on with the envelope, period 1: 16 steps of 256 clocks
+		ay.setRegister(7, 0x3F);
+		ay.setRegister(8, 0x10);
+		ay.setRegister(11, 1);
+
+		// Shape 0: decay then 0
+		ay.setRegister(13, 0x00);
+		let samples = run(0.01);
+		assert.ok(samples[0] > 0.3);
+		assert.equal(samples[samples.length - 1], 0);
+
+		// Shape 8: decay repeated (a cycle is 2.5 ms)
+		ay.setRegister(13, 0x08);
+		samples = run(0.01);
+		assert.ok(Math.max(...samples.subarray(samples.length / 2)) > 0.2);
+
+		// Shape 13 (0x0D): attack then held at the maximum
+		ay.setRegister(13, 0x0D);
+		samples = run(0.01);
+		assert.ok(samples[0] < 0.1);
+		assert.equal(samples[samples.length - 1].toFixed(3), (1 / 3).toFixed(3));
+	});
+
+
+	test('samples not taken', () => {
+		ay.setRegister(7, 0x3F);
+		ay.setRegister(8, 0x0F);
+		// Only the last second is kept
+		ay.tick(FREQUENCY * 2.5);
+		assert.equal(ay.takeSamples().length, Ay38912.SAMPLE_RATE);
+		assert.equal(ay.takeSamples().length, 0);
+	});
+
+
+	test('serialize/deserialize', () => {
+		ay.setRegister(0, 0x12);
+		ay.setRegister(13, 0x0E);
+		ay.selectRegister(7);
+		const memBuffer = new MemBuffer(ay.getSerializedSize());
+		ay.serialize(memBuffer);
+
+		const rAy = new Ay38912(FREQUENCY);
+		rAy.deserialize(memBuffer);
+		assert.equal(rAy.registers[0], 0x12);
+		assert.equal(rAy.registers[13], 0x0E);
+		assert.equal(rAy.selected, 7);
+	});
+});
@@ -0,0 +1,20 @@
+;; Command line - Fixture for the tests of the command line
+;;
+;; File:               main.asm
+;; Description:        Calls a subroutine adding 3 to A
+;; Author:             Sebastien Andrivet
+;; License:            MIT
+;; Copyrights:         Copyright (C) 2023 Sebastien Andrivet
+
+    device ZX81
+
+start:
+    ld a,2
+    call add3
+done:
+    ret
+
+; Adds 3 to A
+add3:
+    add a,3
+    ret
@@ -0,0 +1,32 @@
+;; Unit tests - Fixture for the tests of the unit test runner
+;;
+;; File:               main.asm
+;; Description:        A test that passes, a test that fails and a test that loops
+;; Author:             Sebastien Andrivet
+;; License:            MIT
+;; Copyrights:         Copyright (C) 2023 Sebastien Andrivet
+
+    device ZX81
+
+start:
+    ret
+
+; Adds 3 to A
+add3:
+    add a,3
+    ret
+
+UT_pass:
+    ld a,2
+    call add3
+    ; ASSERTION A == 5
+    ret
+
+UT_fail:
+    ld a,1
+    call add3
+    ; ASSERTION A == 5
+    ret
+
+UT_timeout:
+    jr UT_timeout
@@ -57,6 +57,19 @@ suite('Labels (sjasmplus)', () => {
 			assert.equal(undefined, res);
 		});
 
+		test('ROM labels', () => {
+			// The labels of the ROM (zsim.romSld) without a program
+			const config: any = {
+				zsim: {
+					romSld: './tests/data/labels/projects/sjasmplus/general/general.sld'
+				}
+			};
+			const lbls = new LabelsClass();
+			lbls.readListFiles(config);
+			assert.equal(lbls.getNumberForLabel('modfilea.fab_label_equ1'), 0x46);
+			assert.equal(lbls.getNumberForLabel('fa_label3'), 0x900B);
+		});
+
 
 		suite('Sources-Mode', () => {
 
@@ -1,6 +1,8 @@
 
 import * as assert from 'assert';
 import { Settings } from '../src/settings/settings';
+import {Utility} from '../src/misc/utility';
+import {Zx81Machines} from '../src/remotes/zsimulator/zx81machines';
 
 suite('Settings', () => {
 
@@ -157,6 +159,144 @@ suite('Settings', () => {
 			}, "Check failed: There should be an exception if 'load' and 'execAddress' are used together.");
 		});
 
+
+		test('CheckSettings - machine', () => {
+			const cfg: any = {
+				remoteType: 'zsim',
+				rootFolder: './tests/data',
+				zsim: {machine: 'TS1000'}
+			};
+
+			// The defaults of the machine
+			Settings.launch = Settings.Init(cfg);
+			assert.equal(Settings.launch.zsim.memoryModel, '2K');
+			assert.equal(Settings.launch.zsim.region, 'NTSC');
+			assert.doesNotThrow(() => {
+				Settings.CheckSettings();
+			});
+
+			// Overridden
+			cfg.zsim = {machine: 'TS1000', memoryModel: '16K', region: 'PAL'};
+			Settings.launch = Settings.Init(cfg);
+			assert.equal(Settings.launch.zsim.memoryModel, '16K');
+			assert.equal(Settings.launch.zsim.region, 'PAL');
+
+			// Unknown machine
+			cfg.zsim = {machine: 'ZX80'};
+			Settings.launch = Settings.Init(cfg);
+			assert.throws(() => {
+				Settings.CheckSettings();
+			}, /zsim.machine/);
+
+			// The Lambda 8300: its ROM is not distributed
+			cfg.zsim = {machine: 'LAMBDA8300'};
+			Settings.launch = Settings.Init(cfg);
+			assert.equal(Settings.launch.zsim.memoryModel, '2K');
+			assert.equal(Settings.launch.zsim.region, 'PAL');
+			Utility.setExtensionPath('.');
+			assert.ok(Zx81Machines.getRomPath(Zx81Machines.get('TS1000')).endsWith('/data/zx81.rom'));
+			assert.throws(() => {
+				Zx81Machines.getRomPath(Zx81Machines.get('LAMBDA8300'));
+			}, /The ROM of the Lambda 8300 \('lambda8300.rom'\) is not distributed with the extension/);
+		});
+
+
+
+		test('CheckSettings - rom', () => {
+			const cfg: any = {
+				remoteType: 'zsim',
+				rootFolder: './tests/data',
+				zsim: {
+					rom: './settings/file.sna',
+					romPatches: [{name: 'NOP', address: 0x0400, bytes: [0, 0, 0]}]
+				}
+			};
+
+			Settings.launch = Settings.Init(cfg);
+			assert.ok(Settings.launch.zsim.rom.endsWith('/tests/data/settings/file.sna'));
+			assert.equal(Settings.launch.zsim.romSld, '');
+			assert.doesNotThrow(() => {
+				Settings.CheckSettings();
+			});
+
+			// The file does not exist
+			cfg.zsim = {rom: 'nofile.rom'};
+			Settings.launch = Settings.Init(cfg);
+			assert.throws(() => {
+				Settings.CheckSettings();
+			}, /zsim.rom/);
+
+			// Not in the ROM
+			cfg.zsim = {romPatches: [{name: 'RAM', address: 0x4000, bytes: [0]}]};
+			Settings.launch = Settings.Init(cfg);
+			assert.throws(() => {
+				Settings.CheckSettings();
+			}, /'RAM' is not in the ROM/);
+
+			// Beyond the end of the ROM
+			cfg.zsim = {romPatches: [{name: 'End', address: 0x1FFF, bytes: [0, 0]}]};
+			Settings.launch = Settings.Init(cfg);
+			assert.throws(() => {
+				Settings.CheckSettings();
+			}, /beyond the end/);
+
+			// Not a byte
+			cfg.zsim = {romPatches: [{name: 'Byte', address: 0, bytes: [256]}]};
+			Settings.launch = Settings.Init(cfg);
+			assert.throws(() => {
+				Settings.CheckSettings();
+			}, /array of bytes/);
+		});
+
+
+		test('CheckSettings - keyMap', () => {
+			const cfg: any = {
+				remoteType: 'zsim',
+				rootFolder: './tests/data',
+				zsim: {keyMap: {KeyQ: 'A', Minus: 'shift+J'}}
+			};
+
+			Settings.launch = Settings.Init(cfg);
+			assert.doesNotThrow(() => {
+				Settings.CheckSettings();
+			});
+
+			// Not a key of the ZX81
+			cfg.zsim = {keyMap: {Minus: 'SHIFT+MINUS'}};
+			Settings.launch = Settings.Init(cfg);
+			assert.throws(() => {
+				Settings.CheckSettings();
+			}, /zsim.keyMap.*'MINUS'/);
+		});
+
+
+		test('CheckSettings - keysAfterLaunch', () => {
+			const cfg: any = {
+				remoteType: 'zsim',
+				rootFolder: './tests/data',
+				keysAfterLaunch: 'RUN{NEWLINE}{WAIT 50}'
+			};
+
+			Settings.launch = Settings.Init(cfg);
+			assert.doesNotThrow(() => {
+				Settings.CheckSettings();
+			});
+
+			// Not a key
+			cfg.keysAfterLaunch = 'RUN{ENTER}';
+			Settings.launch = Settings.Init(cfg);
+			assert.throws(() => {
+				Settings.CheckSettings();
+			}, /keysAfterLaunch.*'ENTER'/);
+
+			// Only with zsim
+			cfg.remoteType = 'zrcp';
+			cfg.keysAfterLaunch = 'RUN{NEWLINE}';
+			Settings.launch = Settings.Init(cfg);
+			assert.throws(() => {
+				Settings.CheckSettings();
+			}, /only be typed with zsim/);
+		});
 	});
 });
 
@@ -1,4 +1,7 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import {MemBuffer} from '../src/misc/membuffer';
 import {SimulatedMemory} from '../src/remotes/zsimulator/simulatedmemory';
 
@@ -101,6 +104,91 @@ suite('SimulatedMemory', () => {
 		assert.equal(result[3], 0xF4);
 	});
 
+	suite('memory model', () => {
+		test('1K mirrored', () => {
+			const mem = new SimulatedMemory(1);
+			mem.write8(0x4000, 0x12);
+			assert.equal(mem.read8(0x4400), 0x12);
+			assert.equal(mem.read8(0x7C00), 0x12);
+			assert.equal(mem.read8(0xC000), 0x12);
+			mem.write8(0x7FFF, 0x34);
+			assert.equal(mem.read8(0x43FF), 0x34);
+			assert.equal(mem.readBlock(0x47FF, 1)[0], 0x34);
+			mem.writeBlock(0x4801, new Uint8Array([0x56]));
+			assert.equal(mem.getMemoryValue(0x4001, 1), 0x56);
+		});
+
+		test('2K mirrored', () => {
+			const mem = new SimulatedMemory(2);
+			mem.write8(0x4400, 0x12);
+			assert.equal(mem.read8(0x4400), 0x12);
+			assert.equal(mem.read8(0x4C00), 0x12);
+			assert.equal(mem.read8(0x4000), 0);
+		});
+
+		test('16K', () => {
+			const mem = new SimulatedMemory(16);
+			mem.write8(0x7FFF, 0x34);
+			assert.equal(mem.read8(0x7FFF), 0x34);
+			assert.equal(mem.read8(0xFFFF), 0x34);
+			mem.write8(0xC000, 0x56);
+			assert.equal(mem.read8(0x4000), 0x56);
+		});
+
+		test('ROM read-only and mirrored', () => {
+			const mem = new SimulatedMemory(16);
+			const rom = mem.read8(0x0100);
+			assert.equal(mem.read8(0x2100), rom);
+			assert.equal(mem.read8(0x8100), rom);
+			assert.equal(mem.read8(0xA100), rom);
+			mem.write8(0x0100, rom ^ 0xFF);
+			mem.write8(0x2100, rom ^ 0xFF);
+			mem.write8(0x8100, rom ^ 0xFF);
+			assert.equal(mem.read8(0x0100), rom);
+			assert.equal(mem.isWritable(0x8100), false);
+			assert.equal(mem.isWritable(0x4100), true);
+			// But not for the debugger
+			mem.writeBlock(0x2100, new Uint8Array([0x12]));
+			assert.equal(mem.read8(0x0100), 0x12);
+		});
+
+		test('32K', () => {
+			const mem = new SimulatedMemory(32);
+			mem.write8(0xBFFF, 0x12);
+			assert.equal(mem.read8(0xBFFF), 0x12);
+			mem.write8(0xC000, 0x34);
+			assert.equal(mem.read8(0x4000), 0x34);
+			assert.equal(mem.read8(0x2000), mem.read8(0x0000));
+		});
+
+		test('56K', () => {
+			const mem = new SimulatedMemory(56);
+			const rom = mem.read8(0x1FFF);
+			mem.write8(0x1FFF, rom ^ 0xFF);
+			mem.write8(0x2000, 0x34);
+			mem.write8(0xFFFF, 0x56);
+			assert.equal(mem.read8(0x1FFF), rom);
+			assert.equal(mem.read8(0x2000), 0x34);
+			assert.equal(mem.read8(0xFFFF), 0x56);
+			assert.equal(mem.read8(0x7FFF), 0);
+		});
+
+		test('RAM at 8K', () => {
+			const mem = new SimulatedMemory(16, true);
+			mem.write8(0x2000, 0x12);
+			assert.equal(mem.read8(0x2000), 0x12);
+			assert.equal(mem.read8(0xA000), 0x12);
+			mem.write8(0x1FFF, 0x34);
+			assert.notEqual(mem.read8(0x1FFF), 0x34);
+			assert.equal(mem.isWritable(0x0000), false);
+		});
+
+		test('not supported', () => {
+			assert.throws(() => new SimulatedMemory(4));
+		});
+	});
+
+
 	suite('rom file', () => {
 		test('read raw ROM file', () => {
 			const mem = new SimulatedMemory() as any;
@@ -111,6 +199,26 @@ suite('SimulatedMemory', () => {
 		});
 
 
+		test('custom ROM file', () => {
+			const romPath = path.join(os.tmpdir(), 'zx81debugger-test.rom');
+			fs.writeFileSync(romPath, new Uint8Array([0x12, 0x34]));
+			try {
+				const mem = new SimulatedMemory(16, false, romPath);
+				assert.equal(mem.read8(0x0000), 0x12);
+				assert.equal(mem.read8(0x2001), 0x34);
+				assert.equal(mem.read8(0x0002), 0);
+
+				// Bigger than 8K
+				fs.writeFileSync(romPath, new Uint8Array(0x2001));
+				assert.throws(() => new SimulatedMemory(16, false, romPath), /bigger than 8K/);
+			}
+			finally {
+				fs.unlinkSync(romPath);
+			}
+			assert.throws(() => new SimulatedMemory(16, false, romPath), /does not exist/);
+		});
+
+
 		test('readIntelHexFromFile', () => {
 			const mem = new SimulatedMemory() as any;
 			const path = './tests/data/intelhex/PLU10.HEX';
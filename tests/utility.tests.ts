@@ -110,6 +110,17 @@ suite('Utility', () => {
 				const res = await Utility.numberFormatted('myname', 32768, 2, format, undefined);
 				assert.equal(res, '-32768,32768', "Unexpected formatting");
 			});
+
+			test('formats, float', async () => {
+				// 10 = 84 20 00 00 00
+				assert.equal(Utility.numberFormattedSync(0x2084, 5, '${float}'), '10');
+				// -0.5 = 80 80 00 00 00
+				assert.equal(Utility.numberFormattedSync(0x8080, 5, '${float}'), '-0.5');
+				// At the address
+				assert.equal(Utility.numberFormattedSync(0x4000, 2, '${hex}:${f@:float}', false, '', 0, undefined, 0x81), '4000:1');
+				// Wrong size
+				assert.equal(Utility.numberFormattedSync(1, 2, '${float}'), '${float???}');
+			});
 		});
 
 		suite('tabs', () => {
@@ -673,9 +684,10 @@ suite('Utility', () => {
 			const cfg: SettingsParameters = {
 				remoteType: 'zsim',
 				zsim: {
-					memoryModel: "RAM"
+					memoryModel: "16K"
 				}
 			} as any;
+			Utility.setExtensionPath('.');	// For the ROM of the ZX81
 			Settings.launch = Settings.Init(cfg);
 			Z80RegistersClass.createRegisters();
 			RemoteFactory.createRemote(cfg.remoteType);
@@ -5,6 +5,7 @@ import {Z80Ports} from '../src/remotes/zsimulator/z80ports';
 import {MemBuffer} from '../src/misc/membuffer';
 import {Settings} from '../src/settings/settings';
 import {SimulatedMemory} from '../src/remotes/zsimulator/simulatedmemory';
+import {Zx81Ula} from '../src/remotes/zsimulator/zx81ula';
 
 
 suite('Z80Cpu', () => {
@@ -113,6 +114,85 @@ suite('Z80Cpu', () => {
 	});
 
 
+	suite('ZX81 timing', () => {
+		let ula;
+
+		setup(() => {
+			Settings.launch = Settings.Init({} as any);
+			const ports = new Z80Ports(0xFF);
+			mem = new SimulatedMemory(16);
+			ula = new Zx81Ula(mem, ports);
+			cpu = new Z80Cpu(mem, ports, () => {}, ula) as any;
+			z80 = cpu.z80;
+			cpu.sp = 0x7FF0;
+			// The program: INC (HL) (11 T-states)
+			mem.writeBlock(0x4000, new Uint8Array(0x1000).fill(0x34));
+			cpu.pc = 0x4000;
+			cpu.hl = 0x5000;
+		});
+
+
+		test('frame length', () => {
+			assert.equal(cpu.INTERRUPT_TIME_AS_T_STATES, 310 * 207);
+			const rCpu = new Z80Cpu(new SimulatedMemory(16), new Z80Ports(0xFF)) as any;
+			assert.equal(rCpu.INTERRUPT_TIME_AS_T_STATES, 0.02 * 3250000);
+		});
+
+
+		test('FAST mode', () => {
+			// No NMI: only the instructions
+			let tStates = 0;
+			for (let i = 0; i < 100; i++)
+				tStates += cpu.execute();
+			assert.equal(tStates, 100 * 11);
+			assert.equal(cpu.cpuTstatesCounter, 100 * 11);
+		});
+
+
+		test('NMI wait states', () => {
+			ula.nmiGenerator = true;
+			// 18 instructions: 198 T-states, 19: 209 T-states (NMI 2 T-states before the end)
+			let tStates = 0;
+			for (let i = 0; i < 18; i++)
+				tStates += cpu.execute();
+			assert.equal(tStates, 198);
+			assert.equal(cpu.pc, 0x4000 + 18);
+			tStates = cpu.execute();
+			assert.equal(tStates, 11 + Zx81Ula.NMI_TSTATES - 2);
+			assert.equal(cpu.pc, 0x0066);
+			assert.equal(cpu.cpuTstatesCounter, 209 + Zx81Ula.NMI_TSTATES - 2);
+		});
+
+
+		test('no NMI wait states if halted', () => {
+			ula.nmiGenerator = true;
+			mem.writeBlock(0x4000, [0x76]);	// HALT
+			let tStates = 0;
+			while (cpu.pc != 0x0066)
+				tStates += cpu.execute();
+			// 52 HALTs (NOPs)
+			assert.equal(tStates, 52 * 4);
+		});
+
+
+		test('CPU load without the NMI routine', () => {
+			ula.nmiGenerator = true;
+			mem.writeBlock(0x0066, [0xC9]);	// RET
+			// The NMI routine is RET: 11 T-states (NMI) + 10 T-states (RET)
+			for (let i = 0; i < 1000; i++)
+				cpu.execute();
+			const total = cpu.cpuWithHaltTstates;
+			const load = cpu.cpuLoadTstates;
+			assert.ok(load < total);
+			assert.equal(cpu.nmiSp, undefined);
+			// Each line: 207 T-states, the rest is the NMI routine and the wait states.
+			const lines = Math.floor(total / Zx81Ula.TSTATES_PER_LINE);
+			assert.ok(load <= total - (lines - 1) * (10 + 11));
+			assert.ok(load >= total - (lines + 1) * (10 + 11 + Zx81Ula.NMI_TSTATES));
+		});
+	});
+
+
 	suite('instructions', () => {
 		let portAddress;
 		let portValue;
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {Z80UnitTestRunner} from '../src/z80unittests/z80unittestrunner';
+import {Utility} from '../src/misc/utility';
+
+
+suite('Z80UnitTestRunner', () => {
+
+	test('isTestLabel', () => {
+		assert.ok(Z80UnitTestRunner.isTestLabel('UT_add'));
+		assert.ok(Z80UnitTestRunner.isTestLabel('math.UT_add'));
+		assert.ok(Z80UnitTestRunner.isTestLabel('math.sub.UT_add'));
+		// Local labels of a test
+		assert.ok(!Z80UnitTestRunner.isTestLabel('UT_add.loop'));
+		assert.ok(!Z80UnitTestRunner.isTestLabel('math.UT_add.loop'));
+		// Other labels
+		assert.ok(!Z80UnitTestRunner.isTestLabel('add'));
+		assert.ok(!Z80UnitTestRunner.isTestLabel('ut_add'));
+		assert.ok(!Z80UnitTestRunner.isTestLabel('TEST_UT_add'));
+		assert.ok(!Z80UnitTestRunner.isTestLabel('math.add'));
+	});
+
+
+	test('run', async () => {
+		// The program assembled (main.P) with its debug information (main.sld)
+		Utility.setExtensionPath('.');
+		const rootFolder = path.resolve('tests/data/unittests');
+		const runner = new Z80UnitTestRunner({
+			remoteType: 'zsim',
+			rootFolder,
+			binary: path.join(rootFolder, 'main.P'),
+			sld: path.join(rootFolder, 'main.sld'),
+			unitTestTimeout: 1,
+			zsim: {}
+		} as any);
+		assert.deepEqual(await runner.prepare(), []);
+
+		const testCases = runner.getTestCases();
+		assert.deepEqual(testCases.map(testCase => testCase.label), ['UT_pass', 'UT_fail', 'UT_timeout']);
+		assert.equal(testCases[0].address, 0x4086);
+		assert.equal(testCases[0].file, path.join(rootFolder, 'main.asm'));
+		assert.equal(testCases[0].lineNr, 18);
+
+		// Returns
+		let result = await runner.run(testCases[0]);
+		assert.ok(result.passed, result.message);
+
+		// ASSERTION A == 5 with A = 4
+		result = await runner.run(testCases[1]);
+		assert.ok(!result.passed);
+		assert.equal(result.address, 0x4091);
+		assert.equal(result.message, "Assertion failed: 4 == 5");
+
+		// Loops
+		result = await runner.run(testCases[2]);
+		assert.ok(!result.passed);
+		assert.equal(result.message, "Timeout after 1 s.");
+		assert.equal(result.address, 0x4092);
+	}).timeout(10000);
+});
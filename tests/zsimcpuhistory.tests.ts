@@ -0,0 +1,185 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {ZSimCpuHistory} from '../src/remotes/zsimulator/zsimcpuhistory';
+import {SimulatedMemory} from '../src/remotes/zsimulator/simulatedmemory';
+import {Settings} from '../src/settings/settings';
+import {Z80Cpu} from '../src/remotes/zsimulator/z80cpu';
+import {Z80Ports} from '../src/remotes/zsimulator/z80ports';
+import {Zx81TapeTraps} from '../src/remotes/zsimulator/zx81tapetraps';
+
+
+suite('ZSimCpuHistory', () => {
+	let memory: SimulatedMemory;
+	let history: ZSimCpuHistory;
+
+	// Pushes a history element (the content does not matter here).
+	function push(pc: number) {
+		history.pushHistoryInfo(new Uint16Array([pc]));
+	}
+
+	setup(() => {
+		const cfg: any = {
+			remoteType: 'zsim',
+			history: {
+				reverseDebugInstructionCount: 3,
+				spotCount: 0
+			}
+		};
+		Settings.launch = Settings.Init(cfg);
+		memory = new SimulatedMemory(16);
+		history = new ZSimCpuHistory();
+		history.init();
+		history.attachMemory(memory);
+	});
+
+
+	test('step back and forward restore the memory', async () => {
+		push(0);
+		memory.write8(0x4000, 1);
+		push(1);
+		memory.write8(0x4000, 2);
+		memory.write8(0x4001, 3);
+		push(2);
+
+		// Instruction 2 did not write
+		assert.notEqual(await history.getPrevRegistersAsync(), undefined);
+		assert.equal(memory.read8(0x4000), 2);
+		// Before instruction 1
+		await history.getPrevRegistersAsync();
+		assert.equal(memory.read8(0x4000), 1);
+		assert.equal(memory.read8(0x4001), 0);
+		// Before instruction 0
+		await history.getPrevRegistersAsync();
+		assert.equal(memory.read8(0x4000), 0);
+		// End of the history
+		assert.equal(await history.getPrevRegistersAsync(), undefined);
+
+		// Forward
+		assert.notEqual(history.getNextRegisters(), undefined);
+		assert.equal(memory.read8(0x4000), 1);
+		assert.notEqual(history.getNextRegisters(), undefined);
+		assert.equal(memory.read8(0x4000), 2);
+		assert.equal(memory.read8(0x4001), 3);
+		assert.equal(history.getNextRegisters(), undefined);
+		assert.equal(history.isInStepBackMode(), false);
+	});
+
+
+	test('several writes at the same address', async () => {
+		push(0);
+		memory.write8(0x4000, 1);
+		memory.write8(0x4000, 2);
+		await history.getPrevRegistersAsync();
+		assert.equal(memory.read8(0x4000), 0);
+		history.getNextRegisters();
+		assert.equal(memory.read8(0x4000), 2);
+	});
+
+
+	test('ROM is not recorded', async () => {
+		const rom = memory.read8(0x0000);
+		push(0);
+		memory.write8(0x0000, rom ^ 0xFF);
+		await history.getPrevRegistersAsync();
+		history.getNextRegisters();
+		assert.equal(memory.read8(0x0000), rom);
+	});
+
+
+	test('clear goes back to the present', async () => {
+		push(0);
+		memory.write8(0x4000, 1);
+		push(1);
+		memory.write8(0x4000, 2);
+		await history.getPrevRegistersAsync();
+		await history.getPrevRegistersAsync();
+		assert.equal(memory.read8(0x4000), 0);
+		history.clear();
+		assert.equal(history.isInStepBackMode(), false);
+		assert.equal(memory.read8(0x4000), 2);
+	});
+
+
+	test('ring buffer', async () => {
+		// 4 elements for a maximum of 3: the first one is overwritten
+		push(0);
+		memory.write8(0x4000, 1);
+		push(1);
+		memory.write8(0x4001, 1);
+		push(2);
+		memory.write8(0x4002, 1);
+		push(3);
+		memory.write8(0x4003, 1);
+
+		await history.getPrevRegistersAsync();
+		await history.getPrevRegistersAsync();
+		await history.getPrevRegistersAsync();
+		assert.equal(await history.getPrevRegistersAsync(), undefined);
+		assert.deepEqual(memory.readBlock(0x4000, 4), new Uint8Array([1, 0, 0, 0]));
+	});
+
+
+	test('writes not done by the CPU', async () => {
+		push(0);
+		memory.writeBlock(0x4025, new Uint8Array([0xFD, 0xFB]));
+		await history.getPrevRegistersAsync();
+		assert.deepEqual(memory.readBlock(0x4025, 2), new Uint8Array([0, 0]));
+		history.getNextRegisters();
+		assert.deepEqual(memory.readBlock(0x4025, 2), new Uint8Array([0xFD, 0xFB]));
+	});
+
+
+	test('step back over a LOAD trap', async () => {
+		const tapeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zx81_history_test'));
+		try {
+			fs.writeFileSync(path.join(tapeDir, 'A.P'), new Uint8Array([0x10, 0x11, 0x12]));
+			const cpu = new Z80Cpu(memory, new Z80Ports(0xFF));
+			const traps = new Zx81TapeTraps(memory, tapeDir);
+			// The CALL of LOAD, then the trap at LOAD loads A.P
+			push(0);
+			cpu.de = 0xFFFF;
+			cpu.pc = 0x0347;
+			assert.notEqual(traps.execute(cpu), undefined);
+			assert.deepEqual(memory.readBlock(0x4009, 3), new Uint8Array([0x10, 0x11, 0x12]));
+			push(1);
+
+			await history.getPrevRegistersAsync();
+			await history.getPrevRegistersAsync();
+			assert.deepEqual(memory.readBlock(0x4009, 3), new Uint8Array([0, 0, 0]));
+			history.getNextRegisters();
+			history.getNextRegisters();
+			assert.deepEqual(memory.readBlock(0x4009, 3), new Uint8Array([0x10, 0x11, 0x12]));
+		}
+		finally {
+			fs.rmSync(tapeDir, {recursive: true, force: true});
+		}
+	});
+
+
+	test('write while stepping back', async () => {
+		push(0);
+		memory.write8(0x4000, 1);
+		push(1);
+		memory.write8(0x4000, 2);
+		await history.getPrevRegistersAsync();
+		await history.getPrevRegistersAsync();
+		assert.equal(memory.read8(0x4000), 0);
+		// E.g. in a memory view: the history is dropped, the write is done in the present
+		memory.writeBlock(0x4001, new Uint8Array([5]));
+		assert.equal(history.isInStepBackMode(), false);
+		assert.equal(memory.read8(0x4000), 2);
+		assert.equal(memory.read8(0x4001), 5);
+		assert.equal(await history.getPrevRegistersAsync(), undefined);
+	});
+
+	test('writes before init', () => {
+		// The simulator writes into the memory before the history is initialized
+		const other = new ZSimCpuHistory();
+		other.attachMemory(memory);
+		memory.write8(0x4000, 1);
+		other.init();
+		assert.equal(memory.read8(0x4000), 1);
+	});
+});
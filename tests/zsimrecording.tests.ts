@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {ZSimRecording, ZSimRecordingConfig} from '../src/remotes/zsimulator/zsimrecording';
+import {ZSimType} from '../src/settings/settings';
+
+
+suite('ZSimRecording', () => {
+	let tmpDir: string;
+
+	const CONFIG: ZSimRecordingConfig = {
+		machine: 'ZX81', rom: '', romPatches: [], memoryModel: '16K', chrGenerator: 'ROM', wrx: false,
+		region: 'PAL', soundBoard: 'NONE', joystick: 'NONE', zxPrinter: false
+	};
+
+	setup(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zsim_recording_test'));
+	});
+
+	teardown(() => {
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+
+	test('save and load', () => {
+		const state = new Uint8Array(0x1000);
+		state[0x800] = 0x76;
+		const recording = new ZSimRecording(CONFIG, 100, 65000, state, [0xFF, 0xFE, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]);
+		recording.add(70000, 101, 0x7FFE, 0xFE);
+		recording.add(90000, 102, 0x7FFE, 0xFF);
+		recording.endTstates = 100000;
+
+		const filePath = path.join(tmpDir, 'test.zrec');
+		recording.save(filePath);
+		const loaded = ZSimRecording.load(filePath);
+		assert.deepEqual(loaded.config, CONFIG);
+		assert.equal(loaded.frame, 100);
+		assert.equal(loaded.tstates, 65000);
+		assert.equal(loaded.endTstates, 100000);
+		assert.deepEqual(loaded.keys, recording.keys);
+		assert.deepEqual(loaded.state, state);
+		assert.deepEqual(loaded.events, [
+			{tstates: 70000, frame: 101, port: 0x7FFE, value: 0xFE},
+			{tstates: 90000, frame: 102, port: 0x7FFE, value: 0xFF}
+		]);
+	});
+
+
+	test('checkConfig', () => {
+		const recording = new ZSimRecording(CONFIG, 0, 0, new Uint8Array(0), []);
+		recording.checkConfig({...CONFIG});
+		assert.throws(() => recording.checkConfig({...CONFIG, region: 'NTSC'}), /'zsim.region' "PAL" \(not "NTSC"\)/);
+		assert.throws(() => recording.checkConfig({...CONFIG, soundBoard: 'ZONX'}), /'zsim.soundBoard'/);
+		assert.throws(() => recording.checkConfig({...CONFIG, memoryModel: '1K'}), /'zsim.memoryModel'/);
+		assert.throws(() => recording.checkConfig({...CONFIG, chrGenerator: 'CHR128'}), /'zsim.chrGenerator' "ROM" \(not "CHR128"\)/);
+		assert.throws(() => recording.checkConfig({...CONFIG, wrx: true}), /'zsim.wrx' false \(not true\)/);
+		assert.throws(() => recording.checkConfig({...CONFIG, romPatches: [{name: 'No RAM check', address: 0x3C6, bytes: [0]}]}), /'zsim.romPatches'/);
+		assert.throws(() => recording.checkConfig({...CONFIG, rom: 'ABCD'}), /another ROM/);
+	});
+
+
+	test('getConfig', () => {
+		const zsim = {
+			machine: 'ZX81', rom: '/path/of/zx81.rom', romPatches: [{name: 'No RAM check', address: 0x3C6, bytes: [0]}],
+			memoryModel: '16K', chrGenerator: 'CHR128', wrx: true, region: 'PAL', soundBoard: 'ZONX', joystick: 'NONE', zxPrinter: false,
+			tapeDir: '/path/of/tapes'
+		} as any as ZSimType;
+		const rom = new Uint8Array(0x2000);
+		const config = ZSimRecording.getConfig(zsim, rom);
+		assert.deepEqual(config.romPatches, zsim.romPatches);
+		assert.equal(config.chrGenerator, 'CHR128');
+		assert.equal(config.wrx, true);
+		assert.equal((config as any).tapeDir, undefined);
+
+		// The ROM is compared with its contents, not with its path
+		const recording = new ZSimRecording(config, 0, 0, new Uint8Array(0), []);
+		recording.checkConfig(ZSimRecording.getConfig({...zsim, rom: '/other/path/of/zx81.rom'}, rom));
+		const otherRom = new Uint8Array(0x2000);
+		otherRom[0] = 0xD3;
+		assert.throws(() => recording.checkConfig(ZSimRecording.getConfig(zsim, otherRom)), /another ROM/);
+		assert.throws(() => recording.checkConfig(ZSimRecording.getConfig({...zsim, romPatches: []}, rom)), /'zsim.romPatches'/);
+	});
+
+
+	test('not a recording', () => {
+		const filePath = path.join(tmpDir, 'test.zrec');
+		assert.throws(() => ZSimRecording.load(filePath));
+		fs.writeFileSync(filePath, '{"version": 1}');
+		assert.throws(() => ZSimRecording.load(filePath), /is not a recording/);
+	});
+});
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import {ZSimSnapshots} from '../src/remotes/zsimulator/zsimsnapshots';
+
+
+suite('ZSimSnapshots', () => {
+
+	// Creates a state: 16K of memory with a few values.
+	function state(value: number): Uint8Array {
+		const data = new Uint8Array(0x4000);
+		data[0] = value;
+		data[0x3FFF] = value;
+		return data;
+	}
+
+
+	test('add and get', () => {
+		const snapshots = new ZSimSnapshots(3);
+		assert.equal(snapshots.count, 0);
+		snapshots.add(50, 1000, state(1));
+		snapshots.add(100, 2000, state(2));
+		assert.equal(snapshots.count, 2);
+		assert.deepEqual(snapshots.getFrames(), [50, 100]);
+		assert.equal(snapshots.get(1).tstates, 2000);
+		// Compressed
+		assert.ok(snapshots.get(0).data.length < 0x4000);
+		assert.deepEqual(snapshots.getState(1), state(2));
+		assert.throws(() => snapshots.get(2));
+	});
+
+
+	test('ring buffer', () => {
+		const snapshots = new ZSimSnapshots(3);
+		for (let i = 1; i <= 5; i++)
+			snapshots.add(i * 50, i * 1000, state(i));
+		assert.equal(snapshots.count, 3);
+		assert.deepEqual(snapshots.getFrames(), [150, 200, 250]);
+		assert.deepEqual(snapshots.getState(0), state(3));
+		assert.deepEqual(snapshots.getState(2), state(5));
+	});
+
+
+	test('removeAfter', () => {
+		const snapshots = new ZSimSnapshots(3);
+		for (let i = 1; i <= 4; i++)
+			snapshots.add(i * 50, i * 1000, state(i));
+		snapshots.removeAfter(1);
+		assert.deepEqual(snapshots.getFrames(), [100, 150]);
+		// New future
+		snapshots.add(200, 4000, state(9));
+		snapshots.add(250, 5000, state(10));
+		assert.deepEqual(snapshots.getFrames(), [150, 200, 250]);
+		assert.deepEqual(snapshots.getState(1), state(9));
+	});
+
+
+	test('clear', () => {
+		const snapshots = new ZSimSnapshots(3);
+		snapshots.add(50, 1000, state(1));
+		snapshots.clear();
+		assert.equal(snapshots.count, 0);
+		assert.deepEqual(snapshots.getFrames(), []);
+	});
+});
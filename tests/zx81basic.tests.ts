@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import {Zx81Basic} from '../src/misc/zx81basic';
+
+
+suite('Zx81Basic', () => {
+
+	// Creates a line of BASIC.
+	function line(number: number, text: number[]): number[] {
+		const length = text.length + 1;
+		return [number >> 8, number & 0xFF, length & 0xFF, length >> 8, ...text, 0x76];
+	}
+
+
+	test('decodeLine', () => {
+		// PRINT "HI"
+		assert.equal(Zx81Basic.decodeLine(new Uint8Array([0xF5, 0x0B, 0x2D, 0x2E, 0x0B, 0x76])), 'PRINT "HI"');
+		// LET A=1 (with the hidden number)
+		assert.equal(Zx81Basic.decodeLine(new Uint8Array([0xF1, 0x26, 0x14, 0x1D, 0x7E, 0x81, 0x00, 0x00, 0x00, 0x00, 0x76])), 'LET A=1');
+		// IF A<>B THEN GOTO 10
+		assert.equal(Zx81Basic.decodeLine(new Uint8Array([0xFA, 0x26, 0xDD, 0x27, 0xDE, 0xEC, 0x1D, 0x1C, 0x7E, 0x84, 0x20, 0x00, 0x00, 0x00, 0x76])), 'IF A <> B THEN GOTO 10');
+		// PRINT RND
+		assert.equal(Zx81Basic.decodeLine(new Uint8Array([0xF5, 0x40, 0x76])), 'PRINT RND');
+		// Quote image, inverse and graphic characters
+		assert.equal(Zx81Basic.decodeLine(new Uint8Array([0xF5, 0x0B, 0xC0, 0xA6, 0x01, 0x0B, 0x76])), 'PRINT ""\"%A\\01"');
+	});
+
+
+	test('REM', () => {
+		// The numbers are not decoded in a REM: 0x7E is a character (machine code)
+		assert.equal(Zx81Basic.decodeLine(new Uint8Array([0xEA, 0x7E, 0x26, 0xC9, 0x76])), 'REM \\7EA TAN');
+	});
+
+
+	test('program', () => {
+		const memory = new Uint8Array([
+			...line(10, [0xF5, 0x0B, 0x2D, 0x2E, 0x0B]),	// 10 PRINT "HI"
+			...line(20, [0xEA, 0x76, 0x3E]),	// 20 REM with a NEWLINE inside
+			...line(9999, [0xE3]),	// 9999 STOP
+			0x76	// D_FILE
+		]);
+		const basic = new Zx81Basic(0x407D, memory);
+		assert.equal(basic.lines.length, 3);
+		assert.deepEqual(basic.lines[0], {number: 10, address: 0x407D, size: 10, text: '10 PRINT "HI"'});
+		assert.equal(basic.lines[1].text, '20 REM \\76Y');
+		assert.equal(basic.lines[2].address, 0x407D + 10 + 8);
+		assert.equal(basic.size, 10 + 8 + 6);
+		assert.equal(basic.getText(), '10 PRINT "HI"\n20 REM \\76Y\n9999 STOP\n');
+
+		assert.equal(basic.getLineIndex(20), 1);
+		assert.equal(basic.getLineIndex(30), -1);
+		assert.equal(basic.getLineIndexForAddress(0x407D + 12), 1);
+		assert.equal(basic.getLineIndexForAddress(0x407D + 24), -1);
+	});
+
+
+	test('breakpoint condition', () => {
+		assert.equal(Zx81Basic.getBreakpointCondition(10, ''), 'DE==10');
+		assert.equal(Zx81Basic.getBreakpointCondition(10, 'A==0'), 'DE==10 && (A==0)');
+	});
+});
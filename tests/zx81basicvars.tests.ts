@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import {Zx81BasicVars} from '../src/misc/zx81basicvars';
+import {Zx81Float} from '../src/misc/zx81float';
+
+
+suite('Zx81Float', () => {
+
+	test('read', () => {
+		assert.equal(Zx81Float.read(new Uint8Array([0, 0, 0, 0, 0])), 0);
+		assert.equal(Zx81Float.read(new Uint8Array([0x81, 0x00, 0x00, 0x00, 0x00])), 1);
+		assert.equal(Zx81Float.read(new Uint8Array([0x84, 0x20, 0x00, 0x00, 0x00])), 10);
+		assert.equal(Zx81Float.read(new Uint8Array([0x84, 0xA0, 0x00, 0x00, 0x00])), -10);
+		assert.equal(Zx81Float.read(new Uint8Array([0xFF, 0x80, 0x81, 0x00, 0x00, 0x00, 0x00]), 2), 1);
+	});
+
+
+	test('write', () => {
+		assert.deepEqual(Zx81Float.write(0), new Uint8Array([0, 0, 0, 0, 0]));
+		assert.deepEqual(Zx81Float.write(1), new Uint8Array([0x81, 0x00, 0x00, 0x00, 0x00]));
+		assert.deepEqual(Zx81Float.write(0.5), new Uint8Array([0x80, 0x00, 0x00, 0x00, 0x00]));
+		assert.deepEqual(Zx81Float.write(-0.5), new Uint8Array([0x80, 0x80, 0x00, 0x00, 0x00]));
+		assert.deepEqual(Zx81Float.write(0.1), new Uint8Array([0x7D, 0x4C, 0xCC, 0xCC, 0xCD]));
+		assert.deepEqual(Zx81Float.write(65535), new Uint8Array([0x90, 0x7F, 0xFF, 0x00, 0x00]));
+		assert.throws(() => Zx81Float.write(1e39));
+		assert.throws(() => Zx81Float.write(NaN));
+	});
+
+
+	test('round trip and format', () => {
+		for (const value of [3.14159265, -123456.789, 1e-30, 1e38]) {
+			const read = Zx81Float.read(Zx81Float.write(value));
+			assert.ok(Math.abs(read - value) <= Math.abs(value) * 1e-9);
+		}
+		assert.equal(Zx81Float.format(Zx81Float.read(Zx81Float.write(0.1))), '0.1');
+		assert.equal(Zx81Float.format(Math.PI), '3.14159265');
+	});
+
+
+	test('parse', () => {
+		assert.equal(Zx81Float.parse('-1.5'), -1.5);
+		assert.equal(Zx81Float.parse(' 1E-3 '), 0.001);
+		assert.throws(() => Zx81Float.parse(''));
+		assert.throws(() => Zx81Float.parse('PI'));
+	});
+});
+
+
+suite('Zx81BasicVars', () => {
+
+	const memory = new Uint8Array([
+		0x66, 0x81, 0x00, 0x00, 0x00, 0x00,	// A = 1
+		0xB9, 0x34, 0x39, 0x26, 0xB1, 0x84, 0xA0, 0x00, 0x00, 0x00,	// TOTAL = -10
+		0x47, 2, 0, 0x2D, 0x2E,	// B$ = "HI"
+		0x88, 13, 0, 1, 2, 0, 0x81, 0, 0, 0, 0, 0x84, 0x20, 0, 0, 0,	// C(2) = 1, 10
+		0xC9, 11, 0, 2, 2, 0, 3, 0, 0x26, 0x27, 0x28, 0x29, 0x2A, 0x2B,	// D$(2,3) = "ABC", "DEF"
+		0xEE, 0x81, 0, 0, 0, 0, 0x84, 0x20, 0, 0, 0, 0x81, 0, 0, 0, 0, 20, 0,	// FOR I = 1 TO 10 STEP 1, line 20
+		0x80	// End
+	]);
+
+
+	test('variables', () => {
+		const basicVars = new Zx81BasicVars(0x4100, memory);
+		const variables = basicVars.variables;
+		assert.equal(variables.length, 6);
+
+		assert.deepEqual(variables[0], {type: 'number', name: 'A', address: 0x4100, size: 6, valueAddress: 0x4101, value: 1});
+		assert.deepEqual(variables[1], {type: 'number', name: 'TOTAL', address: 0x4106, size: 10, valueAddress: 0x410B, value: -10});
+		assert.deepEqual(variables[2], {type: 'string', name: 'B$', address: 0x4110, size: 5, valueAddress: 0x4113, value: 'HI'});
+
+		assert.equal(variables[3].type, 'numberArray');
+		assert.equal(variables[3].name, 'C');
+		assert.equal(variables[3].size, 16);
+		assert.equal(variables[3].valueAddress, 0x4115 + 6);
+		assert.deepEqual(variables[3].dimensions, [2]);
+		assert.deepEqual(variables[3].elements, [1, 10]);
+
+		assert.equal(variables[4].type, 'stringArray');
+		assert.equal(variables[4].name, 'D$');
+		assert.deepEqual(variables[4].dimensions, [2, 3]);
+		assert.deepEqual(variables[4].elements, ['ABC', 'DEF']);
+
+		assert.equal(variables[5].type, 'for');
+		assert.equal(variables[5].name, 'I');
+		assert.equal(variables[5].size, 18);
+		assert.equal(variables[5].value, 1);
+		assert.equal(variables[5].limit, 10);
+		assert.equal(variables[5].step, 1);
+		assert.equal(variables[5].line, 20);
+
+		assert.equal(basicVars.getVariable('B$')?.address, 0x4110);
+		assert.equal(basicVars.getVariable('C'), undefined);
+		assert.equal(basicVars.getVariable('C', true)?.address, 0x4115);
+	});
+
+
+	test('no variables', () => {
+		assert.equal(new Zx81BasicVars(0x4100, new Uint8Array([0x80])).variables.length, 0);
+		assert.equal(new Zx81BasicVars(0x4100, new Uint8Array([])).variables.length, 0);
+	});
+
+
+	test('subscripts', () => {
+		assert.equal(Zx81BasicVars.getCount([2, 3]), 6);
+		assert.equal(Zx81BasicVars.getSubscripts([2, 3], 0), '(1,1)');
+		assert.equal(Zx81BasicVars.getSubscripts([2, 3], 4), '(2,2)');
+		assert.equal(Zx81BasicVars.getSubscripts([5], 4), '(5)');
+	});
+
+
+	test('strings', () => {
+		assert.equal(Zx81BasicVars.decodeString(new Uint8Array([0x2D, 0x00, 0x1D, 0x80])), 'H 1\\80');
+		assert.deepEqual(Zx81BasicVars.encodeString('h 1\\80'), new Uint8Array([0x2D, 0x00, 0x1D, 0x80]));
+		assert.throws(() => Zx81BasicVars.encodeString('#'));
+	});
+});
@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import {Zx81Charset} from '../src/misc/zx81charset';
+
+
+suite('Zx81Charset', () => {
+
+	test('toAscii', () => {
+		assert.equal(Zx81Charset.toAscii(0x00), ' ');
+		assert.equal(Zx81Charset.toAscii(0x0B), '"');
+		assert.equal(Zx81Charset.toAscii(0x1C), '0');
+		assert.equal(Zx81Charset.toAscii(0x26), 'A');
+		assert.equal(Zx81Charset.toAscii(0x3F | 0x80), 'Z');
+		assert.equal(Zx81Charset.toAscii(0x40), '?');
+	});
+
+
+	test('fromAscii', () => {
+		assert.equal(Zx81Charset.fromAscii('a'), 0x26);
+		assert.equal(Zx81Charset.fromAscii('9'), 0x25);
+		assert.equal(Zx81Charset.fromAscii('£'), 0x0C);
+		assert.equal(Zx81Charset.fromAscii('~'), undefined);
+		assert.equal(Zx81Charset.fromAscii('?'), 0x0F);
+	});
+
+
+	test('decodeName', () => {
+		const data = new Uint8Array([0x00, 0x26, 0x27 | 0x80, 0x28]);
+		assert.deepEqual(Zx81Charset.decodeName(data, 1), {name: 'AB', length: 2});
+	});
+});
@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {Zx81Cli} from '../src/cli/zx81cli';
+import {Utility} from '../src/misc/utility';
+
+
+suite('Zx81Cli', () => {
+
+	suite('parseArguments', () => {
+
+		test('defaults', () => {
+			const options = Zx81Cli.parseArguments(['main.asm']);
+			assert.equal(options.file, 'main.asm');
+			assert.equal(options.frames, undefined);
+			assert.deepEqual(options.until, []);
+			assert.equal(options.timeout, 60);
+			assert.equal(options.regs, false);
+			assert.deepEqual(options.mem, []);
+			assert.equal(options.screen, undefined);
+			assert.equal(options.scale, 1);
+		});
+
+
+		test('options', () => {
+			const options = Zx81Cli.parseArguments(['--frames', '100', 'main.asm', '--until', 'done', '--until', '0x4100',
+				'--regs', '--mem', 'D_FILE,33', '--mem', '0x4000', '--screen', 'screen.png', '--printer', 'printer.txt', '--scale', '2', '--timeout', '10', '--memory-model', '1K', '--region', 'NTSC', '--machine', 'TS1500']);
+			assert.equal(options.file, 'main.asm');
+			assert.equal(options.frames, 100);
+			assert.deepEqual(options.until, ['done', '0x4100']);
+			assert.equal(options.timeout, 10);
+			assert.equal(options.regs, true);
+			assert.deepEqual(options.mem, [{address: 'D_FILE', size: '33'}, {address: '0x4000', size: '16'}]);
+			assert.equal(options.screen, 'screen.png');
+			assert.equal(options.printer, 'printer.txt');
+			assert.equal(options.scale, 2);
+			assert.equal(options.memoryModel, '1K');
+			assert.equal(options.region, 'NTSC');
+			assert.equal(options.machine, 'TS1500');
+		});
+
+
+		test('errors', () => {
+			assert.throws(() => Zx81Cli.parseArguments([]), /required/);
+			assert.throws(() => Zx81Cli.parseArguments(['main.asm', '--bogus']), /Unknown option/);
+			assert.throws(() => Zx81Cli.parseArguments(['main.asm', '--frames']), /Missing value/);
+			assert.throws(() => Zx81Cli.parseArguments(['main.asm', '--frames', '-1']), /not a positive number/);
+			assert.throws(() => Zx81Cli.parseArguments(['main.asm', '--frames', '1.5']), /not a positive number/);
+			assert.throws(() => Zx81Cli.parseArguments(['main.asm', 'other.asm']), /Only one file/);
+			// No file required for the help
+			assert.ok(Zx81Cli.parseArguments(['--help']).help);
+		});
+	});
+
+
+	test('getConfiguration', () => {
+		let configuration = Zx81Cli.getConfiguration(Zx81Cli.parseArguments(['/tmp/project/main.asm', '--memory-model', '2K', '--region', 'NTSC', '--rom', '/tmp/roms/sg.rom', '--wav', 'sound.wav']));
+		assert.equal(configuration.source, '/tmp/project/main.asm');
+		assert.equal(configuration.binary, undefined);
+		assert.equal(configuration.rootFolder, '/tmp/project');
+		assert.equal(configuration.zsim.memoryModel, '2K');
+		assert.equal(configuration.zsim.region, 'NTSC');
+		assert.equal(configuration.zsim.rom, '/tmp/roms/sg.rom');
+		assert.equal(configuration.zsim.vsyncSound, true);
+
+		configuration = Zx81Cli.getConfiguration(Zx81Cli.parseArguments(['/tmp/project/main.P']));
+		assert.equal(configuration.source, undefined);
+		assert.equal(configuration.binary, '/tmp/project/main.P');
+		assert.equal(configuration.zsim, undefined);
+	});
+
+
+	test('run', async () => {
+		// A configuration with the program assembled (main.P) and its debug information (main.sld)
+		Utility.setExtensionPath('.');
+		const rootFolder = path.resolve('tests/data/cli');
+		const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zx81_cli_test'));
+		const launchPath = path.join(tmpDir, 'launch.json');
+		fs.writeFileSync(launchPath, JSON.stringify({
+			configurations: [{type: 'zx81debugger', name: 'CLI', rootFolder, binary: 'main.P', sld: path.join(rootFolder, 'main.sld')}]
+		}));
+
+		// Runs until the return of the subroutine and writes the registers and the program
+		const output = new Array<string>();
+		const {log, error} = console;
+		console.log = (text: string) => output.push(text);
+		console.error = (text: string) => output.push(text);
+		let exitCode: number;
+		try {
+			exitCode = await new Zx81Cli().run(Zx81Cli.parseArguments(['--config', launchPath, '--until', 'done', '--regs', '--mem', 'start,9']));
+		}
+		finally {
+			console.log = log;
+			console.error = error;
+			fs.rmSync(tmpDir, {recursive: true, force: true});
+		}
+
+		assert.equal(exitCode, Zx81Cli.EXIT_OK, output.join('\n'));
+		assert.ok(output[0].startsWith("Address reached. PC=4087h (done)"), output[0]);
+		const registers = output[1].split('\n');
+		assert.ok(registers[0].startsWith('PC=4087 SP=7FFE AF=05'), registers[0]);
+		assert.equal(output[2], '4082: 3E 02 CD 88 40 C9 C6 03 C9');
+	});
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import {Zx81DisplayFile} from '../src/misc/zx81displayfile';
+
+
+suite('Zx81DisplayFile', () => {
+
+	test('collapsed', () => {
+		// 24 empty lines, as after CLS with 1K
+		const memory = new Uint8Array(Zx81DisplayFile.MAX_SIZE).fill(0x76);
+		const dfile = new Zx81DisplayFile(0x4080, memory);
+		assert.equal(dfile.lines.length, 24);
+		assert.equal(dfile.size, 25);
+		assert.equal(dfile.isCollapsed(), true);
+		assert.deepEqual(dfile.lines[0], {address: 0x4081, length: 0});
+		assert.deepEqual(dfile.lines[23], {address: 0x4098, length: 0});
+	});
+
+
+	test('partially collapsed', () => {
+		const memory = new Uint8Array(Zx81DisplayFile.MAX_SIZE).fill(0x76);
+		// First line: "HI"
+		memory[1] = 0x2D;
+		memory[2] = 0x2E;
+		const dfile = new Zx81DisplayFile(0x4080, memory);
+		assert.equal(dfile.lines.length, 24);
+		assert.equal(dfile.size, 27);
+		assert.deepEqual(dfile.lines[0], {address: 0x4081, length: 2});
+		assert.deepEqual(dfile.lines[1], {address: 0x4084, length: 0});
+		assert.deepEqual(dfile.getPosition(0x4082), {line: 0, column: 1});
+		assert.equal(dfile.getPosition(0x4083), undefined);	// HALT
+	});
+
+
+	test('not collapsed', () => {
+		const memory = new Uint8Array(Zx81DisplayFile.MAX_SIZE);
+		for (let i = 0; i < memory.length; i += 33)
+			memory[i] = 0x76;
+		const dfile = new Zx81DisplayFile(0x407D, memory);
+		assert.equal(dfile.lines.length, 24);
+		assert.equal(dfile.size, Zx81DisplayFile.MAX_SIZE);
+		assert.equal(dfile.isCollapsed(), false);
+		assert.deepEqual(dfile.lines[1], {address: 0x407D + 34, length: 32});
+		assert.deepEqual(dfile.getPosition(0x407D + 34 + 33 + 5), {line: 2, column: 5});
+	});
+
+
+	test('sameLayout', () => {
+		const memory = new Uint8Array(Zx81DisplayFile.MAX_SIZE).fill(0x76);
+		const dfile1 = new Zx81DisplayFile(0x4080, memory);
+		assert.equal(dfile1.sameLayout(undefined), false);
+		assert.equal(dfile1.sameLayout(new Zx81DisplayFile(0x4080, memory)), true);
+		assert.equal(dfile1.sameLayout(new Zx81DisplayFile(0x4081, memory)), false);
+		memory[1] = 0x26;
+		assert.equal(dfile1.sameLayout(new Zx81DisplayFile(0x4080, memory)), false);
+	});
+});
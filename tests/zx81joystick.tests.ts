@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import {Zx81Joystick} from '../src/remotes/zsimulator/zx81joystick';
+import {Zx81Keyboard} from '../src/remotes/zsimulator/zx81keyboard';
+import {Z80Ports} from '../src/remotes/zsimulator/z80ports';
+import {SimulatedMemory} from '../src/remotes/zsimulator/simulatedmemory';
+
+
+suite('Zx81Joystick', () => {
+	let ports: Z80Ports;
+	let keyboard: Zx81Keyboard;
+
+	setup(() => {
+		ports = new Z80Ports(0xFF);
+		keyboard = new Zx81Keyboard(ports, new SimulatedMemory(16));
+	});
+
+
+	test('Kempston', () => {
+		const joystick = new Zx81Joystick('KEMPSTON', ports, keyboard);
+		assert.equal(ports.read(0x1F), 0x00);
+		joystick.setDirection('up', true);
+		joystick.setDirection('right', true);
+		assert.equal(ports.read(0x1F), 0x09);
+		joystick.setDirection('fire', true);
+		assert.equal(ports.read(0x001F), 0x19);
+		assert.equal(joystick.getState(), 0x19);
+		joystick.setDirection('up', false);
+		assert.equal(ports.read(0x1F), 0x11);
+		// Not the keyboard
+		assert.deepEqual(keyboard.getPorts(), [0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]);
+		// Not the joystick
+		assert.equal(ports.read(0xFE), 0xFF);
+	});
+
+
+	test('cursor', () => {
+		const joystick = new Zx81Joystick('CURSOR', ports, keyboard);
+		// 5 = left
+		joystick.setDirection('left', true);
+		assert.equal(ports.read(0xF7FE), 0xEF);
+		// 7 = up, 0 = fire
+		joystick.setDirection('up', true);
+		joystick.setDirection('fire', true);
+		assert.equal(ports.read(0xEFFE), 0xF6);
+		// Set twice: still on
+		joystick.setDirection('up', true);
+		assert.equal(ports.read(0xEFFE), 0xF6);
+		joystick.setDirection('up', false);
+		assert.equal(ports.read(0xEFFE), 0xFE);
+		// No Kempston interface
+		assert.equal(ports.read(0x1F), 0xFF);
+	});
+
+
+	test('releaseAll', () => {
+		const joystick = new Zx81Joystick('CURSOR', ports, keyboard);
+		joystick.setDirection('down', true);
+		joystick.setDirection('right', true);
+		joystick.releaseAll();
+		assert.equal(joystick.getState(), 0);
+		assert.deepEqual(keyboard.getPorts(), [0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]);
+	});
+
+
+	test('recording and replay', () => {
+		const joystick = new Zx81Joystick('KEMPSTON', ports, keyboard);
+		const events = new Array<Array<number>>();
+		joystick.portListener = (port, value) => events.push([port, value]);
+		joystick.setDirection('left', true);
+		joystick.setDirection('left', true);
+		joystick.setDirection('fire', true);
+		assert.deepEqual(events, [[0x1F, 0x02], [0x1F, 0x12]]);
+		// The host is ignored while replaying
+		joystick.locked = true;
+		joystick.setDirection('up', true);
+		joystick.releaseAll();
+		assert.equal(ports.read(0x1F), 0x12);
+		joystick.setState(0x05);
+		assert.equal(ports.read(0x1F), 0x05);
+	});
+
+	test('unknown direction', () => {
+		const joystick = new Zx81Joystick('KEMPSTON', ports, keyboard);
+		assert.throws(() => joystick.setDirection('jump', true), /Unknown joystick direction/);
+	});
+});
@@ -0,0 +1,184 @@
+import * as assert from 'assert';
+import {Zx81Keyboard} from '../src/remotes/zsimulator/zx81keyboard';
+import {Z80Ports} from '../src/remotes/zsimulator/z80ports';
+import {SimulatedMemory} from '../src/remotes/zsimulator/simulatedmemory';
+import {MemBuffer} from '../src/misc/membuffer';
+
+
+suite('Zx81Keyboard', () => {
+	let ports: Z80Ports;
+	let memory: SimulatedMemory;
+	let keyboard: Zx81Keyboard;
+
+	// Returns LAST_K.
+	function lastK(): Array<number> {
+		return [memory.read8(0x4025), memory.read8(0x4026)];
+	}
+
+	setup(() => {
+		ports = new Z80Ports(0xFF);
+		memory = new SimulatedMemory(16);
+		keyboard = new Zx81Keyboard(ports, memory);
+	});
+
+
+	test('keys', () => {
+		keyboard.keyChanged('KeyQ', false, true);
+		assert.equal(ports.read(0xFBFE), 0xFE);
+		assert.deepEqual(lastK(), [0xFB, 0xFD]);
+		keyboard.keyChanged('KeyT', false, true);
+		assert.equal(ports.read(0xFBFE), 0xEE);
+		keyboard.keyChanged('KeyQ', false, false);
+		keyboard.keyChanged('KeyT', false, false);
+		assert.equal(ports.read(0xFBFE), 0xFF);
+		assert.deepEqual(lastK(), [0xFF, 0xFF]);
+		// Unknown key
+		keyboard.keyChanged('F1', false, true);
+		assert.deepEqual(keyboard.getPorts(), [0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]);
+	});
+
+
+	test('key matrix of the machine', () => {
+		// Q and A swapped
+		const keys = {...Zx81Keyboard.KEYS, Q: Zx81Keyboard.KEYS.A, A: Zx81Keyboard.KEYS.Q};
+		keyboard = new Zx81Keyboard(new Z80Ports(0xFF), memory, keys);
+		keyboard.keyChanged('KeyQ', false, true);
+		assert.deepEqual(keyboard.getPorts(), [0xFF, 0xFE, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]);
+	});
+
+
+	test('shift', () => {
+		// Shift on another half row
+		keyboard.keyChanged('KeyP', true, true);
+		assert.equal(ports.read(0xDFFE), 0xFE);
+		assert.equal(ports.read(0xFEFE), 0xFE);
+		assert.deepEqual(lastK(), [0xDF, 0xFC]);
+		keyboard.keyChanged('KeyP', true, false);
+		assert.equal(ports.read(0xDFFE), 0xFF);
+		assert.equal(ports.read(0xFEFE), 0xFF);
+		// Shift on the same half row
+		keyboard.keyChanged('KeyZ', true, true);
+		assert.equal(ports.read(0xFEFE), 0xFC);
+		assert.deepEqual(lastK(), [0xFE, 0xFA]);
+	});
+
+
+	test('listener and lock', () => {
+		const changes = new Array<Array<number>>();
+		keyboard.portListener = (port, value) => changes.push([port, value]);
+		keyboard.keyChanged('Space', false, true);
+		keyboard.keyChanged('Space', false, false);
+		assert.deepEqual(changes, [[0x7FFE, 0xFE], [0x7FFE, 0xFF]]);
+
+		// Locked: the keys are ignored, not the ports
+		keyboard.locked = true;
+		keyboard.keyChanged('Space', false, true);
+		assert.equal(ports.read(0x7FFE), 0xFF);
+		keyboard.setPort(0x7FFE, 0xFE);
+		assert.equal(ports.read(0x7FFE), 0xFE);
+		assert.throws(() => keyboard.setPort(0x1F, 0));
+	});
+
+
+	test('parseKeys', () => {
+		assert.deepEqual(Zx81Keyboard.parseKeys('Q'), ['Q']);
+		assert.deepEqual(Zx81Keyboard.parseKeys('0+shift'), ['SHIFT', '0']);
+		assert.deepEqual(Zx81Keyboard.parseKeys('SHIFT + NEWLINE'), ['SHIFT', 'NEWLINE']);
+		assert.throws(() => Zx81Keyboard.parseKeys('CTRL+A'), /Unknown ZX81 key 'CTRL'/);
+		assert.throws(() => Zx81Keyboard.parseKeys(''), /Unknown ZX81 key/);
+	});
+
+
+	test('key map', () => {
+		// Default: Backspace is RUBOUT (SHIFT+0)
+		keyboard.keyChanged('Backspace', false, true);
+		assert.equal(ports.read(0xFEFE), 0xFE);
+		assert.equal(ports.read(0xEFFE), 0xFE);
+		assert.deepEqual(lastK(), [0xEF, 0xFC]);
+		keyboard.keyChanged('Backspace', false, false);
+		assert.deepEqual(keyboard.getPorts(), [0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]);
+
+		// AZERTY: the key at the position of Q is A
+		keyboard.setKeyMap({KeyQ: 'A', Semicolon: 'M'});
+		keyboard.keyChanged('KeyQ', false, true);
+		assert.equal(ports.read(0xFDFE), 0xFE);
+		assert.equal(ports.read(0xFBFE), 0xFF);
+		keyboard.keyChanged('KeyQ', false, false);
+		keyboard.keyChanged('Semicolon', true, true);
+		assert.equal(ports.read(0x7FFE), 0xFB);
+		assert.equal(ports.read(0xFEFE), 0xFE);
+		keyboard.keyChanged('Semicolon', true, false);
+		assert.deepEqual(keyboard.getPorts(), [0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]);
+		// The others are unchanged
+		keyboard.keyChanged('KeyW', false, true);
+		assert.equal(ports.read(0xFBFE), 0xFD);
+
+		assert.throws(() => keyboard.setKeyMap({KeyQ: 'Ä'}), /Unknown ZX81 key/);
+	});
+
+
+	test('key map with Shift', () => {
+		// A shifted key of the host to a key of the ZX81 without SHIFT
+		keyboard.setKeyMap({'Shift+Digit1': '1', 'Shift+Digit8': 'SHIFT+B'});
+		keyboard.keyChanged('Digit1', true, true);
+		assert.equal(ports.read(0xF7FE), 0xFE);
+		assert.equal(ports.read(0xFEFE), 0xFF);
+		// Released as pressed, even without Shift
+		keyboard.keyChanged('Digit1', false, false);
+		assert.deepEqual(keyboard.getPorts(), [0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]);
+		keyboard.keyChanged('Digit8', true, true);
+		assert.equal(ports.read(0x7FFE), 0xEF);
+		assert.equal(ports.read(0xEFFE), 0xFF);
+		keyboard.keyChanged('Digit8', true, false);
+		// Without Shift: unchanged
+		keyboard.keyChanged('Digit1', false, true);
+		assert.equal(ports.read(0xF7FE), 0xFE);
+		assert.equal(ports.read(0xFEFE), 0xFF);
+	});
+
+
+	test('keys pressed several times', () => {
+		// Shift of the host is still pressed with P after RUBOUT
+		keyboard.keyChanged('KeyP', true, true);
+		keyboard.keyChanged('Backspace', true, true);
+		assert.equal(ports.read(0xEFFE), 0xFE);
+		keyboard.keyChanged('Backspace', true, false);
+		assert.equal(ports.read(0xEFFE), 0xFF);
+		assert.equal(ports.read(0xFEFE), 0xFE);
+		assert.equal(ports.read(0xDFFE), 0xFE);
+		// The repeated key presses are ignored
+		keyboard.keyChanged('KeyP', true, true);
+		keyboard.keyChanged('KeyP', true, false);
+		assert.deepEqual(keyboard.getPorts(), [0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]);
+		// The same key of the ZX81 by the host and the typer (or the joystick)
+		keyboard.keyChanged('Digit5', false, true);
+		keyboard.changeKeys(['5'], true);
+		keyboard.keyChanged('Digit5', false, false);
+		assert.equal(ports.read(0xF7FE), 0xEF);
+		keyboard.changeKeys(['5'], false);
+		assert.equal(ports.read(0xF7FE), 0xFF);
+	});
+
+	test('changeKeys', () => {
+		// Even if locked
+		keyboard.locked = true;
+		keyboard.changeKeys(['SHIFT', 'P'], true);
+		assert.equal(ports.read(0xDFFE), 0xFE);
+		assert.equal(ports.read(0xFEFE), 0xFE);
+		assert.deepEqual(lastK(), [0xDF, 0xFC]);
+		keyboard.changeKeys(['SHIFT', 'P'], false);
+		assert.deepEqual(keyboard.getPorts(), [0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]);
+	});
+
+
+	test('serialize/deserialize', () => {
+		keyboard.changeKeys(['SHIFT', 'P'], true);
+		const memBuffer = new MemBuffer(keyboard.getSerializedSize());
+		keyboard.serialize(memBuffer);
+		keyboard.releaseAll();
+
+		keyboard.deserialize(memBuffer);
+		assert.deepEqual(keyboard.getPorts(), [0xFE, 0xFF, 0xFF, 0xFF, 0xFF, 0xFE, 0xFF, 0xFF]);
+		assert.equal(ports.read(0xDFFE), 0xFE);
+	});
+});
@@ -0,0 +1,160 @@
+import * as assert from 'assert';
+import {Zx81KeyTyper} from '../src/remotes/zsimulator/zx81keytyper';
+import {Zx81Keyboard} from '../src/remotes/zsimulator/zx81keyboard';
+import {Z80Ports} from '../src/remotes/zsimulator/z80ports';
+import {SimulatedMemory} from '../src/remotes/zsimulator/simulatedmemory';
+
+
+suite('Zx81KeyTyper', () => {
+
+	suite('parse', () => {
+
+		test('keywords', () => {
+			// K cursor: LOAD is J
+			assert.deepEqual(Zx81KeyTyper.parse('LOAD ""{NEWLINE}'), [['J'], ['SHIFT', 'P'], ['SHIFT', 'P'], ['NEWLINE']]);
+			// After the line number and after THEN
+			assert.deepEqual(Zx81KeyTyper.parse('10 if a THEN run'), [['1'], ['0'], ['U'], ['A'], ['SHIFT', '3'], ['R']]);
+			// L cursor: the letters
+			assert.deepEqual(Zx81KeyTyper.parse('PRINT RUN'), [['P'], ['R'], ['U'], ['N']]);
+			// A variable, not a keyword
+			assert.deepEqual(Zx81KeyTyper.parse('LET FORM=1'), [['L'], ['F'], ['O'], ['R'], ['M'], ['SHIFT', 'L'], ['1']]);
+		});
+
+
+		test('functions and symbols', () => {
+			assert.deepEqual(Zx81KeyTyper.parse('PRINT USR 16514'), [['P'], ['SHIFT', 'NEWLINE'], ['L'], ['1'], ['6'], ['5'], ['1'], ['4']]);
+			assert.deepEqual(Zx81KeyTyper.parse('PRINT CHR$ A$'), [['P'], ['SHIFT', 'NEWLINE'], ['U'], ['A'], ['SHIFT', 'U']]);
+			assert.deepEqual(Zx81KeyTyper.parse('IF A<=2**B'), [['U'], ['A'], ['SHIFT', 'R'], ['2'], ['SHIFT', 'H'], ['B']]);
+			assert.deepEqual(Zx81KeyTyper.parse('PRINT 1,2;'), [['P'], ['1'], ['SHIFT', '.'], ['2'], ['SHIFT', 'X']]);
+		});
+
+
+		test('strings', () => {
+			// The spaces and the keywords are typed in the strings
+			assert.deepEqual(Zx81KeyTyper.parse('PRINT "A RUN"'), [['P'], ['SHIFT', 'P'], ['A'], ['SPACE'], ['R'], ['U'], ['N'], ['SHIFT', 'P']]);
+		});
+
+
+		test('keys in braces and lines', () => {
+			assert.deepEqual(Zx81KeyTyper.parse('{rubout}{EDIT}{ SHIFT+Q }{LEFT}{A}'), [['SHIFT', '0'], ['SHIFT', '1'], ['SHIFT', 'Q'], ['SHIFT', '5'], ['A']]);
+			// A new line is a NEWLINE and the cursor is K again
+			assert.deepEqual(Zx81KeyTyper.parse('RUN\r\nLIST\n'), [['R'], ['NEWLINE'], ['K'], ['NEWLINE']]);
+			assert.deepEqual(Zx81KeyTyper.parse('RUN{NEWLINE}LIST'), [['R'], ['NEWLINE'], ['K']]);
+		});
+
+
+		test('wait', () => {
+			assert.deepEqual(Zx81KeyTyper.parse('RUN{NEWLINE}{WAIT 50}{ wait 0 }A'), [['R'], ['NEWLINE'], 50, 0, ['A']]);
+		});
+
+
+		test('errors', () => {
+			assert.throws(() => Zx81KeyTyper.parse('{NEWLINE'), /Missing '}'/);
+			assert.throws(() => Zx81KeyTyper.parse('{ENTER}'), /Unknown ZX81 key 'ENTER'/);
+			assert.throws(() => Zx81KeyTyper.parse('PRINT "É"'), /'É' is not on the keyboard/);
+			assert.throws(() => Zx81KeyTyper.parse('RUN{WAIT}'), /number of frames is expected in '{WAIT}'/);
+			assert.throws(() => Zx81KeyTyper.parse('RUN{wait -1}'), /number of frames/);
+		});
+	});
+
+
+	suite('type', () => {
+		// The T-states of a frame
+		const FRAME = 65000;
+		// The addresses of the ROM waiting for a key and just after it
+		const WAIT_KEY = 0x04CF;
+		const KEY_READ = 0x04D3;
+		let ports: Z80Ports;
+		let typer: Zx81KeyTyper;
+
+		// Advances a number of frames with a program counter.
+		function run(frames: number, pc: number) {
+			for (let i = 0; i < frames; i++)
+				typer.tick(FRAME, pc);
+		}
+
+		setup(() => {
+			ports = new Z80Ports(0xFF);
+			const keyboard = new Zx81Keyboard(ports, new SimulatedMemory(16));
+			typer = new Zx81KeyTyper(keyboard, FRAME);
+		});
+
+
+		test('ROM', () => {
+			typer.type('AB');
+			assert.ok(typer.isTyping());
+			// Pressed when the ROM waits for the key
+			run(5, WAIT_KEY);
+			assert.equal(ports.read(0xFDFE), 0xFE);
+			// Released when the ROM has read it
+			run(10, 0x1000);
+			assert.equal(ports.read(0xFDFE), 0xFE);
+			run(1, KEY_READ);
+			assert.equal(ports.read(0xFDFE), 0xFF);
+			// The ROM is busy: B is not pressed
+			run(100, 0x1000);
+			assert.equal(ports.read(0x7FFE), 0xFF);
+			run(1, WAIT_KEY);
+			assert.equal(ports.read(0x7FFE), 0xEF);
+			run(5, KEY_READ);
+			assert.equal(ports.read(0x7FFE), 0xFF);
+			assert.ok(!typer.isTyping());
+		});
+
+
+		test('program', () => {
+			// The keys are pressed and released even if the ROM does not wait for them
+			typer.type('AB');
+			run(25, 0x4000);
+			assert.equal(ports.read(0xFDFE), 0xFE);
+			run(25, 0x4000);
+			assert.equal(ports.read(0xFDFE), 0xFF);
+			run(25, 0x4000);
+			assert.equal(ports.read(0x7FFE), 0xEF);
+			run(25, 0x4000);
+			assert.ok(!typer.isTyping());
+		});
+
+
+		test('other ROM', () => {
+			// The addresses of the ROM of the ZX81 are ignored
+			typer.waitRom = false;
+			typer.type('AB');
+			run(5, WAIT_KEY);
+			assert.equal(ports.read(0xFDFE), 0xFF);
+			run(20, WAIT_KEY);
+			assert.equal(ports.read(0xFDFE), 0xFE);
+			run(5, KEY_READ);
+			assert.equal(ports.read(0xFDFE), 0xFE);
+			run(20, KEY_READ);
+			assert.equal(ports.read(0xFDFE), 0xFF);
+		});
+
+		test('wait', () => {
+			typer.type('A{WAIT 50}B');
+			run(5, WAIT_KEY);
+			run(3, KEY_READ);
+			assert.equal(ports.read(0xFDFE), 0xFF);
+			// Not before 50 frames, even if the ROM waits for a key
+			run(49, WAIT_KEY);
+			assert.equal(ports.read(0x7FFE), 0xFF);
+			// Then the next key does not wait for the ROM longer than for a program
+			run(1, 0x4000);
+			run(24, 0x4000);
+			assert.equal(ports.read(0x7FFE), 0xFF);
+			run(1, 0x4000);
+			assert.equal(ports.read(0x7FFE), 0xEF);
+		});
+
+
+		test('cancel', () => {
+			typer.type('{SHIFT+A}B');
+			run(5, WAIT_KEY);
+			assert.equal(ports.read(0xFEFE), 0xFE);
+			typer.cancel();
+			assert.ok(!typer.isTyping());
+			assert.equal(ports.read(0xFEFE), 0xFF);
+			assert.equal(ports.read(0xFDFE), 0xFF);
+		});
+	});
+});
@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import {Zx81Printer} from '../src/remotes/zsimulator/zx81printer';
+import {Zx81Screenshot} from '../src/misc/zx81screenshot';
+import {Z80Ports} from '../src/remotes/zsimulator/z80ports';
+
+
+suite('Zx81Printer', () => {
+	let ports: Z80Ports;
+	let printer: Zx81Printer;
+
+	// Prints a row like the ROM (COPY): the stylus is on for the black dots.
+	function printRow(dots: Array<number>) {
+		// Start of the line
+		assert.equal(ports.read(0xFB) & 0x80, 0x80);
+		for (let x = 0; x < Zx81Printer.WIDTH; x++) {
+			assert.equal(ports.read(0xFB) & 0x01, 0x01);
+			ports.write(0xFB, dots[x] ? 0x80 : 0x00);
+		}
+		// The stylus leaves the last dot
+		ports.read(0xFB);
+	}
+
+	setup(() => {
+		ports = new Z80Ports(0xFF);
+		printer = new Zx81Printer(ports);
+	});
+
+
+	test('present', () => {
+		// Bit 6 = 0: printer present
+		assert.equal(ports.read(0xFB) & 0x40, 0);
+		// Not the printer (A2 high)
+		assert.equal(ports.read(0xFF), 0xFF);
+	});
+
+
+	test('rows', () => {
+		let count = 0;
+		printer.rowListener = () => count++;
+		// Start the motor
+		ports.write(0xFB, 0x00);
+		const dots = new Array<number>(Zx81Printer.WIDTH).fill(0);
+		dots[0] = 1;
+		dots[255] = 1;
+		printRow(dots);
+		printRow(new Array<number>(Zx81Printer.WIDTH).fill(1));
+		// Stop the motor
+		ports.write(0xFB, 0x04);
+		assert.equal(count, 2);
+		assert.equal(printer.rows.length, 2);
+		assert.equal(printer.rows[0][0], 1);
+		assert.equal(printer.rows[0][1], 0);
+		assert.equal(printer.rows[0][255], 1);
+		assert.equal(printer.rows[1].reduce((sum, dot) => sum + dot, 0), 256);
+		assert.equal(printer.getPixels().length, 2 * 256);
+
+		printer.clear();
+		assert.equal(printer.rows.length, 0);
+	});
+
+
+	test('motor off', () => {
+		// No encoder and no row
+		assert.equal(ports.read(0xFB) & 0x81, 0);
+		ports.write(0xFB, 0x80);
+		assert.equal(printer.rows.length, 0);
+	});
+
+
+	test('stop in a line', () => {
+		ports.write(0xFB, 0x00);
+		ports.read(0xFB);
+		ports.write(0xFB, 0x80);
+		ports.read(0xFB);
+		ports.read(0xFB);
+		ports.write(0xFB, 0x04);
+		assert.equal(printer.rows.length, 1);
+		assert.equal(printer.rows[0][0], 1);
+		assert.equal(printer.rows[0][1], 0);
+	});
+
+
+	test('toText', () => {
+		// Each character: its code in the first row, 0xFF in the second
+		const charset = new Uint8Array(Zx81Screenshot.CHARSET_SIZE);
+		for (let code = 0; code < 64; code++) {
+			charset[code * 8] = code;
+			charset[code * 8 + 1] = 0xFF;
+		}
+		ports.write(0xFB, 0x00);
+		// "A" (0x26 = 00100110) then spaces
+		for (let y = 0; y < 8; y++) {
+			const dots = new Array<number>(Zx81Printer.WIDTH).fill(0);
+			const byte = (y == 0) ? 0x26 : (y == 1) ? 0xFF : 0;
+			for (let bit = 0; bit < 8; bit++)
+				dots[bit] = (byte >> (7 - bit)) & 0x01;
+			// Second row of the spaces
+			for (let x = 8; x < Zx81Printer.WIDTH; x++)
+				dots[x] = (y == 1) ? 1 : 0;
+			printRow(dots);
+		}
+		assert.equal(printer.toText(charset), 'A\n');
+	});
+
+
+	test('toPng', () => {
+		ports.write(0xFB, 0x00);
+		printRow(new Array<number>(Zx81Printer.WIDTH).fill(0));
+		const png = printer.toPng(2);
+		assert.equal(png.toString('ascii', 12, 16), 'IHDR');
+		// 512 x 2
+		assert.equal(png.readUInt32BE(16), 512);
+		assert.equal(png.readUInt32BE(20), 2);
+	});
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import {Zx81DisplayFile} from '../src/misc/zx81displayfile';
+import {Zx81Screenshot} from '../src/misc/zx81screenshot';
+
+
+suite('Zx81Screenshot', () => {
+
+	// A collapsed display file: "AB" (B in inverse video) on the first line, the other lines empty.
+	function displayFile(): Zx81DisplayFile {
+		const memory = new Uint8Array(Zx81DisplayFile.MAX_SIZE);
+		memory.set([0x76, 0x26, 0xA7, 0x76]);
+		memory.fill(0x76, 4, 4 + 23);
+		return new Zx81DisplayFile(0x4400, memory);
+	}
+
+
+	test('toText', () => {
+		const text = new Zx81Screenshot(displayFile()).toText();
+		const lines = text.split('\n');
+		assert.equal(lines.length, 25);	// 24 lines and the last newline
+		assert.equal(lines[0], 'AB' + ' '.repeat(30));
+		assert.equal(lines[1], ' '.repeat(32));
+		assert.equal(lines[24], '');
+	});
+
+
+	test('getPixels', () => {
+		// Each character: its code in the first row
+		const charset = new Uint8Array(Zx81Screenshot.CHARSET_SIZE);
+		for (let code = 0; code < 64; code++)
+			charset[code * 8] = code;
+		const pixels = new Zx81Screenshot(displayFile()).getPixels(charset);
+		assert.equal(pixels.length, 256 * 192);
+		// A (0x26 = 00100110)
+		assert.deepEqual(Array.from(pixels.subarray(0, 8)), [0, 0, 1, 0, 0, 1, 1, 0]);
+		// B inverse (0x27 = 00100111 -> 11011000)
+		assert.deepEqual(Array.from(pixels.subarray(8, 16)), [1, 1, 0, 1, 1, 0, 0, 0]);
+		// Second row of B inverse: all black
+		assert.deepEqual(Array.from(pixels.subarray(256 + 8, 256 + 16)), [1, 1, 1, 1, 1, 1, 1, 1]);
+		// Space
+		assert.deepEqual(Array.from(pixels.subarray(16, 24)), [0, 0, 0, 0, 0, 0, 0, 0]);
+	});
+
+
+	test('toPng', () => {
+		const png = new Zx81Screenshot(displayFile()).toPng(new Uint8Array(Zx81Screenshot.CHARSET_SIZE), 2);
+		// Signature
+		assert.deepEqual(Array.from(png.subarray(0, 8)), [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+		// IHDR: 512 x 384, 8 bits, grayscale
+		assert.equal(png.toString('ascii', 12, 16), 'IHDR');
+		assert.equal(png.readUInt32BE(16), 512);
+		assert.equal(png.readUInt32BE(20), 384);
+		assert.equal(png[24], 8);
+		assert.equal(png[25], 0);
+		// CRC of IHDR
+		assert.equal(png.readUInt32BE(29), Zx81Screenshot.crc32(png.subarray(12, 29)));
+		// IEND at the end
+		assert.equal(png.toString('ascii', png.length - 8, png.length - 4), 'IEND');
+	});
+
+
+	test('characterToPng', () => {
+		const charset = new Uint8Array(Zx81Screenshot.CHARSET_SIZE);
+		charset[0x26 * 8] = 0xFF;
+		const png = Zx81Screenshot.characterToPng(charset, 0x26, 2);
+		// IHDR: 16 x 16
+		assert.equal(png.toString('ascii', 12, 16), 'IHDR');
+		assert.equal(png.readUInt32BE(16), 16);
+		assert.equal(png.readUInt32BE(20), 16);
+		// Bit 7: inverse video, bit 6 is ignored (like in a screenshot)
+		assert.notDeepEqual(Zx81Screenshot.characterToPng(charset, 0xA6), Zx81Screenshot.characterToPng(charset, 0x26));
+		assert.deepEqual(Zx81Screenshot.characterToPng(charset, 0x66), Zx81Screenshot.characterToPng(charset, 0x26));
+	});
+
+	test('crc32', () => {
+		assert.equal(Zx81Screenshot.crc32(Buffer.from('123456789', 'ascii')), 0xCBF43926);
+		assert.equal(Zx81Screenshot.crc32(new Uint8Array(0)), 0);
+	});
+});
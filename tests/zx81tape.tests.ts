@@ -0,0 +1,212 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {Zx81Tape} from '../src/remotes/zsimulator/zx81tape';
+import {Z80Ports} from '../src/remotes/zsimulator/z80ports';
+import {MemBuffer} from '../src/misc/membuffer';
+import {Utility} from '../src/misc/utility';
+
+
+suite('Zx81Tape', () => {
+	let tmpDir: string;
+	let ports: Z80Ports;
+	let tape: Zx81Tape;
+
+	// 1 MHz: 1 T-state = 1 µs
+	const FREQUENCY = 1000000;
+
+	// Returns the durations of the levels (for the tests).
+	function getDurations(): Array<number> {
+		return (tape as any).durations;
+	}
+
+	setup(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zx81_tape_test'));
+		Utility.setRootPath(tmpDir);
+		ports = new Z80Ports(0xFF);
+		tape = new Zx81Tape(ports, FREQUENCY);
+	});
+
+	teardown(() => {
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+
+	test('no tape', () => {
+		assert.equal(tape.filePath, undefined);
+		tape.play();
+		assert.equal(tape.playing, false);
+		assert.equal(ports.read(0xFE), 0xFF);
+	});
+
+
+	test('.P', () => {
+		const filePath = path.join(tmpDir, 'A.P');
+		fs.writeFileSync(filePath, new Uint8Array([0x80]));
+		tape.load(filePath);
+		const durations = getDurations();
+		// Leader
+		assert.equal(durations[0], 1000000);
+		// Name "A" (0xA6, bit 7 = 1): 9 pulses of 150 µs
+		assert.equal(durations[1], 150);
+		assert.equal(durations[2], 150);
+		assert.equal(durations[17], 150);
+		assert.equal(durations[18], 150 + 1300);
+		// Bit 6 = 0: 4 pulses
+		assert.equal(durations[26], 150 + 1300);
+		// Name 0xA6 (4 bits set) and data 0x80 (1 bit set): 2 levels per pulse
+		assert.equal(durations.length, 1 + 2 * ((4 * 9 + 4 * 4) + (9 + 7 * 4)));
+		assert.equal(durations[durations.length - 1], 150 + 1300 + 1000000);
+	});
+
+
+	test('play, stop, rewind', () => {
+		const filePath = path.join(tmpDir, 'A.P');
+		fs.writeFileSync(filePath, new Uint8Array([0x80]));
+		tape.load(filePath);
+		assert.equal(tape.playing, false);
+		assert.equal(ports.read(0xFE), 0x7F);	// Stopped: low
+
+		tape.play();
+		tape.tick(1000000);
+		assert.equal(tape.level, true);	// First pulse
+		assert.equal(ports.read(0xFE), 0xFF);
+		assert.equal(ports.read(0xFF), 0xFF);
+		tape.tick(150);
+		assert.equal(tape.level, false);
+		assert.equal(ports.read(0x7FFE), 0x7F);
+
+		tape.stop();
+		tape.tick(150);
+		assert.equal(tape.getPosition().position, 1000150 / FREQUENCY);
+
+		tape.rewind();
+		assert.equal(tape.getPosition().position, 0);
+
+		// Up to the end
+		tape.play();
+		tape.tick(10 * FREQUENCY);
+		assert.equal(tape.playing, false);
+		assert.equal(tape.getPosition().position, tape.getPosition().length);
+	});
+
+
+	test('serialize/deserialize', () => {
+		const filePath = path.join(tmpDir, 'A.P');
+		fs.writeFileSync(filePath, new Uint8Array([0x80]));
+		tape.load(filePath);
+		tape.play();
+		tape.tick(1000000);
+		const memBuffer = new MemBuffer(tape.getSerializedSize());
+		tape.serialize(memBuffer);
+
+		// Another tape deck: the tape is inserted and at the same position
+		const rTape = new Zx81Tape(new Z80Ports(0xFF), FREQUENCY);
+		rTape.deserialize(memBuffer);
+		assert.equal(rTape.filePath, filePath);
+		assert.equal(rTape.playing, true);
+		assert.equal(rTape.level, true);
+		assert.equal(rTape.getPosition().position, 1000000 / FREQUENCY);
+
+		// No tape: ejected
+		const emptyBuffer = new MemBuffer(tape.getSerializedSize());
+		new Zx81Tape(new Z80Ports(0xFF), FREQUENCY).serialize(emptyBuffer);
+		rTape.deserialize(emptyBuffer);
+		assert.equal(rTape.filePath, undefined);
+		assert.equal(rTape.playing, false);
+	});
+
+
+	test('serialize/deserialize in another root folder', () => {
+		fs.mkdirSync(path.join(tmpDir, 'a/tapes'), {recursive: true});
+		fs.writeFileSync(path.join(tmpDir, 'a/tapes/A.P'), new Uint8Array([0x80]));
+		Utility.setRootPath(path.join(tmpDir, 'a'));
+		tape.load(path.join(tmpDir, 'a/tapes/A.P'));
+		const memBuffer = new MemBuffer(tape.getSerializedSize());
+		tape.serialize(memBuffer);
+
+		// The path is relative to the root folder
+		fs.mkdirSync(path.join(tmpDir, 'b/tapes'), {recursive: true});
+		fs.copyFileSync(path.join(tmpDir, 'a/tapes/A.P'), path.join(tmpDir, 'b/tapes/A.P'));
+		Utility.setRootPath(path.join(tmpDir, 'b'));
+		const rTape = new Zx81Tape(new Z80Ports(0xFF), FREQUENCY);
+		rTape.deserialize(MemBuffer.from(memBuffer.buffer));
+		assert.equal(rTape.filePath, path.join(tmpDir, 'b/tapes/A.P'));
+
+		// The tape does not exist anymore
+		fs.rmSync(path.join(tmpDir, 'a/tapes/A.P'));
+		Utility.setRootPath(path.join(tmpDir, 'a'));
+		assert.throws(() => new Zx81Tape(new Z80Ports(0xFF), FREQUENCY).deserialize(MemBuffer.from(memBuffer.buffer)),
+			/The tape 'tapes\/A.P' of the saved state does not exist/);
+	});
+
+
+	test('.WAV', () => {
+		// 8 bits, mono, 1000 Hz: 1 sample = 1000 T-states
+		const samples = [0x80, 0xFF, 0xFF, 0x00, 0xC0];
+		const wav = Buffer.alloc(44 + samples.length);
+		wav.write('RIFF', 0, 'latin1');
+		wav.writeUInt32LE(36 + samples.length, 4);
+		wav.write('WAVEfmt ', 8, 'latin1');
+		wav.writeUInt32LE(16, 16);
+		wav.writeUInt16LE(1, 20);	// PCM
+		wav.writeUInt16LE(1, 22);	// Mono
+		wav.writeUInt32LE(1000, 24);
+		wav.writeUInt32LE(1000, 28);
+		wav.writeUInt16LE(1, 32);
+		wav.writeUInt16LE(8, 34);
+		wav.write('data', 36, 'latin1');
+		wav.writeUInt32LE(samples.length, 40);
+		Buffer.from(samples).copy(wav, 44);
+		const filePath = path.join(tmpDir, 'test.wav');
+		fs.writeFileSync(filePath, wav);
+		tape.load(filePath);
+		assert.deepEqual(getDurations(), [1000, 2000, 1000, 1000]);
+	});
+
+
+	test('.TZX', () => {
+		const tzx = Buffer.from([
+			...Buffer.from('ZXTape!\x1A', 'latin1'), 1, 20,
+			0x30, 2, 0x41, 0x42,	// Text description
+			0x12, 0x5E, 0x01, 3, 0,	// Pure tone: 3 pulses of 350 T-states
+			0x13, 2, 0xAF, 0x00, 0x5E, 0x01,	// Pulses: 175, 350
+			0x20, 1, 0	// Pause 1 ms
+		]);
+		const filePath = path.join(tmpDir, 'test.tzx');
+		fs.writeFileSync(filePath, tzx);
+		tape.load(filePath);
+		// 3.5 MHz T-states converted to 1 MHz, the pause is low
+		assert.deepEqual(getDurations(), [0, 100, 100, 100, 50, 100, 1000]);
+	});
+
+
+	test('.TZX generalized data', () => {
+		const block = Buffer.from([
+			0, 0,	// No pause
+			0, 0, 0, 0,	// No pilot
+			0, 0,
+			2, 0, 0, 0,	// 2 data symbols
+			2,	// 2 pulses per symbol
+			2,	// 2 symbols in the alphabet
+			0x03, 0x5E, 0x01, 0x00, 0x00,	// Symbol 0: high 350 T-states
+			0x02, 0xAF, 0x00, 0xAF, 0x00,	// Symbol 1: low 175, high 175
+			0b01000000	// Symbols 0, 1
+		]);
+		const length = Buffer.alloc(4);
+		length.writeUInt32LE(block.length);
+		const tzx = Buffer.concat([Buffer.from('ZXTape!\x1A\x01\x14', 'latin1'), Buffer.from([0x19]), length, block]);
+		const filePath = path.join(tmpDir, 'test.tzx');
+		fs.writeFileSync(filePath, tzx);
+		tape.load(filePath);
+		assert.deepEqual(getDurations(), [0, 100, 50, 50]);
+	});
+
+
+	test('unknown format', () => {
+		const filePath = path.join(tmpDir, 'test.tap');
+		fs.writeFileSync(filePath, new Uint8Array([0]));
+		assert.throws(() => tape.load(filePath));
+	});
+});
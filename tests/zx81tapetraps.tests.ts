@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {Zx81TapeTraps} from '../src/remotes/zsimulator/zx81tapetraps';
+import {Z80Cpu} from '../src/remotes/zsimulator/z80cpu';
+import {Z80Ports} from '../src/remotes/zsimulator/z80ports';
+import {SimulatedMemory} from '../src/remotes/zsimulator/simulatedmemory';
+import {Settings} from '../src/settings/settings';
+import {Zx81Machines} from '../src/remotes/zsimulator/zx81machines';
+
+
+suite('Zx81TapeTraps', () => {
+	let tapeDir: string;
+	let mem: SimulatedMemory;
+	let cpu: Z80Cpu;
+	let traps: Zx81TapeTraps;
+
+	// "AB" with the last character in inverse video
+	const NAME = [0x26, 0x27 | 0x80];
+
+	setup(() => {
+		const cfg: any = {
+			"zsim": {
+				"cpuLoadInterruptRange": 1,
+				"vsyncInterrupt": true
+			}
+		};
+		Settings.launch = Settings.Init(cfg);
+		tapeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zx81_tape_test'));
+		mem = new SimulatedMemory(16);
+		cpu = new Z80Cpu(mem, new Z80Ports(0xFF));
+		traps = new Zx81TapeTraps(mem, tapeDir);
+	});
+
+	teardown(() => {
+		fs.rmSync(tapeDir, {recursive: true, force: true});
+	});
+
+
+	test('no trap', () => {
+		cpu.pc = 0x0300;
+		assert.equal(traps.execute(cpu), undefined);
+		assert.equal(cpu.pc, 0x0300);
+	});
+
+
+	test('SAVE', () => {
+		// E_LINE
+		mem.writeBlock(0x4014, new Uint8Array([0x10, 0x40]));
+		mem.writeBlock(0x4009, new Uint8Array([0x00, 0x01, 0x02, 0x03, 0x04, 0x05, 0x06]));
+		mem.writeBlock(0x5000, new Uint8Array(NAME));
+		cpu.hl = 0x5000;
+		cpu.pc = 0x02FC;
+		assert.notEqual(traps.execute(cpu), undefined);
+		assert.equal(cpu.pc, 0x0207);
+		const data = fs.readFileSync(path.join(tapeDir, 'AB.P'));
+		assert.equal(data.length, 7);
+		assert.equal(data[0], 0x00);
+		assert.equal(data[6], 0x06);
+	});
+
+
+	test('LOAD name', () => {
+		fs.writeFileSync(path.join(tapeDir, 'ab.p'), new Uint8Array([0x10, 0x11, 0x12]));
+		mem.writeBlock(0x5000, new Uint8Array(NAME));
+		cpu.de = 0x5000;
+		cpu.pc = 0x0347;
+		assert.notEqual(traps.execute(cpu), undefined);
+		assert.equal(cpu.pc, 0x0207);
+		assert.deepEqual([...mem.readBlock(0x4009, 3)], [0x10, 0x11, 0x12]);
+	});
+
+
+	test('LOAD name not found', () => {
+		mem.writeBlock(0x5000, new Uint8Array(NAME));
+		cpu.de = 0x5000;
+		cpu.pc = 0x0347;
+		assert.equal(traps.execute(cpu), undefined);
+		assert.equal(cpu.pc, 0x0347);
+	});
+
+
+	test('LOAD ""', () => {
+		fs.writeFileSync(path.join(tapeDir, 'A.P'), new Uint8Array([0x0A]));
+		fs.writeFileSync(path.join(tapeDir, 'B.P'), new Uint8Array([0x0B]));
+		fs.writeFileSync(path.join(tapeDir, 'C.TXT'), new Uint8Array([0x0C]));
+		const expected = [0x0A, 0x0B, 0x0A];
+		for (const value of expected) {
+			cpu.de = 0xFFFF;
+			cpu.pc = 0x0347;
+			assert.notEqual(traps.execute(cpu), undefined);
+			assert.equal(mem.read8(0x4009), value);
+		}
+	});
+
+
+	test('disabled', () => {
+		mem.writeBlock(0x5000, new Uint8Array(NAME));
+		cpu.hl = 0x5000;
+		cpu.pc = 0x02FC;
+		traps.enabled = false;
+		assert.equal(traps.execute(cpu), undefined);
+		assert.equal(cpu.pc, 0x02FC);
+		assert.equal(fs.existsSync(path.join(tapeDir, 'AB.P')), false);
+	});
+
+
+	test('ROM of the ZX81', () => {
+		for (const address in Zx81TapeTraps.ROM_BYTES)
+			mem.writeBlock(parseInt(address), new Uint8Array(Zx81TapeTraps.ROM_BYTES[address]));
+		assert.ok(Zx81Machines.matchesRom(mem, Zx81TapeTraps.ROM_BYTES));
+		// Patched
+		mem.writeBlock(0x0348, new Uint8Array([0x00]));
+		assert.ok(!Zx81Machines.matchesRom(mem, Zx81TapeTraps.ROM_BYTES));
+	});
+});
@@ -0,0 +1,198 @@
+import * as assert from 'assert';
+import {Zx81Ula} from '../src/remotes/zsimulator/zx81ula';
+import {Z80Ports} from '../src/remotes/zsimulator/z80ports';
+import {MemBuffer} from '../src/misc/membuffer';
+import {SimulatedMemory} from '../src/remotes/zsimulator/simulatedmemory';
+
+
+suite('Zx81Ula', () => {
+	let mem: SimulatedMemory;
+	let ports: Z80Ports;
+	let ula: Zx81Ula;
+	let vsyncCount: number;
+
+	setup(() => {
+		mem = new SimulatedMemory(16);
+		ports = new Z80Ports(0xFF);
+		vsyncCount = 0;
+		ula = new Zx81Ula(mem, ports, () => vsyncCount++);
+	});
+
+
+	test('NMI generator', () => {
+		assert.equal(ula.nmiGenerator, false);
+		ports.write(0xFE, 0);
+		assert.equal(ula.nmiGenerator, true);
+		ports.write(0xFF, 0);
+		assert.equal(ula.nmiGenerator, true);
+		ports.write(0xFD, 0);
+		assert.equal(ula.nmiGenerator, false);
+	});
+
+
+	test('NMI on horizontal sync', () => {
+		assert.equal(ula.tick(Zx81Ula.TSTATES_PER_LINE), false);
+		ports.write(0xFE, 0);
+		assert.equal(ula.tick(Zx81Ula.TSTATES_PER_LINE - 1), false);
+		assert.equal(ula.tick(1), true);
+	});
+
+
+	test('NMI wait states', () => {
+		ports.write(0xFE, 0);
+		// The NMI is accepted at the end of the NMI pulse
+		assert.equal(ula.tick(Zx81Ula.TSTATES_PER_LINE + 4), true);
+		assert.equal(ula.getNmiWaitTstates(), Zx81Ula.NMI_TSTATES - 4);
+		// The instruction ended after the NMI pulse: no wait
+		assert.equal(ula.tick(Zx81Ula.TSTATES_PER_LINE - 4 + Zx81Ula.NMI_TSTATES + 3), true);
+		assert.equal(ula.getNmiWaitTstates(), 0);
+	});
+
+
+	test('frame length', () => {
+		assert.equal(ula.getLinesPerFrame(), 310);
+		assert.equal(ula.getFrameTstates(), 310 * 207);
+		ula.ntsc = true;
+		assert.equal(ula.getLinesPerFrame(), 262);
+		assert.equal(ula.getFrameTstates(), 262 * 207);
+	});
+
+
+	test('region (bit 6)', () => {
+		ports.registerSpecificInPortFunction(0xFEFE, () => 0x1F);
+		ports.registerSpecificInPortFunction(0xFEFF, () => 0x1F);
+		// PAL: 50 Hz
+		assert.equal(ports.read(0xFEFE), 0x5F);
+		assert.equal(ports.read(0xFEFF), 0x1F);
+		// NTSC: 60 Hz
+		ula.ntsc = true;
+		ports.registerSpecificInPortFunction(0xFEFE, () => 0xFF);
+		assert.equal(ports.read(0xFEFE), 0xBF);
+		assert.equal(ports.read(0xFEFF), 0x1F);
+	});
+
+
+	test('vertical sync', () => {
+		ula.tick(3 * Zx81Ula.TSTATES_PER_LINE);
+		assert.equal(ula.lineCounter, 3);
+
+		// IN FE starts the vsync
+		ports.read(0xFEFE);
+		assert.equal(ula.vsync, true);
+		assert.equal(vsyncCount, 1);
+		assert.equal(ula.lineCounter, 0);
+		assert.equal(ula.checkVsync(), true);
+		assert.equal(ula.checkVsync(), false);
+
+		// Line counter is held during the vsync
+		ula.tick(2 * Zx81Ula.TSTATES_PER_LINE);
+		assert.equal(ula.lineCounter, 0);
+
+		// Any OUT ends the vsync
+		ports.write(0xFF, 0);
+		assert.equal(ula.vsync, false);
+		ula.tick(2 * Zx81Ula.TSTATES_PER_LINE);
+		assert.equal(ula.lineCounter, 2);
+	});
+
+
+	test('no vertical sync in SLOW mode', () => {
+		ports.write(0xFE, 0);
+		ports.read(0xFEFE);
+		assert.equal(ula.vsync, false);
+		assert.equal(vsyncCount, 0);
+	});
+
+
+	test('display file execution', () => {
+		mem.write8(0x4400, 0x26);	// 'A'
+		mem.write8(0x4401, 0x76);	// HALT
+		// Below 32K: normal fetch
+		assert.equal(ula.m1Read(0x4400, 0x1E00), 0x26);
+		// Above 32K: NOP for characters, HALT is executed
+		assert.equal(ula.m1Read(0xC400, 0x1E00), 0x00);
+		assert.equal(ula.m1Read(0xC401, 0x1E00), 0x76);
+	});
+
+
+	test('frame buffer', () => {
+		// Character set at 0x2000, pattern of character 1 row 0
+		mem.writeBlock(0x2008, new Uint8Array([0b10000001]));
+		mem.write8(0x4400, 0x81);	// Inverse character 1
+
+		// No frame until something is displayed
+		ports.read(0xFEFE);
+		ports.write(0xFF, 0);
+		assert.equal(ula.getFrame(), undefined);
+
+		// Go to the first visible line, after the first visible T-state
+		ula.tick(32 * Zx81Ula.TSTATES_PER_LINE + 55 + 4);
+		assert.equal(ula.lineCounter, 0);
+		ula.m1Read(0xC400, 0x2000);
+		ports.read(0xFEFE);
+		const frame = ula.getFrame()!;
+		assert.notEqual(frame, undefined);
+		assert.equal(frame.length, Zx81Ula.SCREEN_WIDTH * Zx81Ula.SCREEN_HEIGHT);
+		assert.deepEqual(Array.from(frame.slice(7, 17)), [0, 0, 1, 1, 1, 1, 1, 1, 0, 0]);
+		// Only returned once
+		assert.equal(ula.getFrame(), undefined);
+	});
+
+
+	suite('hi-res', () => {
+		// Displays a character on the first visible line and returns the first 8 pixels
+		function displayCharacter(character: number, refreshAddress: number): Array<number> {
+			mem.write8(0x4400, character);
+			ports.read(0xFEFE);
+			ports.write(0xFF, 0);
+			ula.interruptAcknowledge();	// Start of a line
+			ula.tick(32 * Zx81Ula.TSTATES_PER_LINE + 55);
+			ula.m1Read(0xC400, refreshAddress);
+			ports.read(0xFEFE);
+			return Array.from(ula.getFrame()!.slice(0, 8));
+		}
+
+		test('WRX', () => {
+			mem.write8(0x5023, 0b11110000);
+			ula.wrx = true;
+			assert.deepEqual(displayCharacter(0x00, 0x5023), [1, 1, 1, 1, 0, 0, 0, 0]);
+			assert.deepEqual(displayCharacter(0x80, 0x5023), [0, 0, 0, 0, 1, 1, 1, 1]);
+			// I in the ROM: normal characters
+			mem.writeBlock(0x2008, new Uint8Array([0b11000000]));
+			assert.deepEqual(displayCharacter(0x01, 0x2023), [1, 1, 0, 0, 0, 0, 0, 0]);
+		});
+
+		test('no WRX', () => {
+			mem.write8(0x5023, 0b11110000);
+			mem.write8(0x5000, 0b10101010);
+			assert.deepEqual(displayCharacter(0x00, 0x5023), [1, 0, 1, 0, 1, 0, 1, 0]);
+		});
+
+		test('CHR$128', () => {
+			mem.writeBlock(0x2008, new Uint8Array([0b11000000]));
+			mem.writeBlock(0x2208, new Uint8Array([0b00000011]));
+			ula.chr128 = true;
+			// Bit 0 of I set: 128 characters
+			assert.deepEqual(displayCharacter(0x81, 0x2100), [0, 0, 0, 0, 0, 0, 1, 1]);
+			assert.deepEqual(displayCharacter(0x01, 0x2100), [1, 1, 0, 0, 0, 0, 0, 0]);
+			// Bit 0 of I reset: inverse video
+			assert.deepEqual(displayCharacter(0x81, 0x2000), [0, 0, 1, 1, 1, 1, 1, 1]);
+		});
+	});
+
+
+	test('serialize/deserialize', () => {
+		ports.write(0xFE, 0);
+		ula.tick(5 * Zx81Ula.TSTATES_PER_LINE + 10);
+		const memBuffer = new MemBuffer(ula.getSerializedSize());
+		ula.serialize(memBuffer);
+
+		const rUla = new Zx81Ula(new SimulatedMemory(), new Z80Ports(0xFF));
+		rUla.deserialize(memBuffer);
+		assert.equal(rUla.nmiGenerator, true);
+		assert.equal(rUla.vsync, false);
+		assert.equal(rUla.lineCounter, 5);
+		assert.equal(rUla.tick(Zx81Ula.TSTATES_PER_LINE - 11), false);
+		assert.equal(rUla.tick(1), true);
+	});
+});
@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import {Zx81VsyncSound} from '../src/remotes/zsimulator/zx81vsyncsound';
+
+
+suite('Zx81VsyncSound', () => {
+	// The CPU frequency of the ZX81
+	const FREQUENCY = 3250000;
+	let sound: Zx81VsyncSound;
+
+	// Toggles the line at a frequency for a number of seconds.
+	function toggle(frequency: number, seconds: number) {
+		const halfPeriod = FREQUENCY / frequency / 2;
+		for (let i = 0; i < 2 * frequency * seconds; i++)
+			sound.tick(halfPeriod, (i & 0x01) == 0);
+	}
+
+	setup(() => {
+		sound = new Zx81VsyncSound(FREQUENCY);
+	});
+
+
+	test('silence', () => {
+		// A constant level is silent
+		sound.tick(FREQUENCY / 2, false);
+		let samples = sound.takeSamples();
+		assert.ok(Math.abs(samples.length - Zx81VsyncSound.SAMPLE_RATE / 2) <= 1);
+		assert.ok(samples.every(sample => sample == 0));
+
+		sound.tick(FREQUENCY / 2, true);
+		samples = sound.takeSamples();
+		// A click (the first sample can be partly low), then the level decays
+		assert.ok(Math.max(samples[0], samples[1]) > 0.4);
+		assert.ok(Math.abs(samples[samples.length - 1]) < 0.01);
+	});
+
+
+	test('square wave', () => {
+		toggle(1000, 0.5);
+		const samples = sound.takeSamples();
+		// Count the periods (rising edges) of the last 0.1 s
+		let periods = 0;
+		for (let i = samples.length - Zx81VsyncSound.SAMPLE_RATE / 10; i < samples.length; i++) {
+			if (samples[i - 1] < 0 && samples[i] >= 0)
+				periods++;
+		}
+		assert.ok(Math.abs(periods - 100) <= 1, periods.toString());
+		assert.ok(Math.max(...samples) <= 0.5 + 0.01);
+		assert.ok(Math.min(...samples) >= -0.5 - 0.01);
+	});
+
+
+	test('last second', () => {
+		// The samples not taken: the oldest are dropped
+		sound.tick(FREQUENCY * 3 / 4, false);
+		sound.tick(FREQUENCY / 2, true);
+		const samples = sound.takeSamples();
+		assert.equal(samples.length, Zx81VsyncSound.SAMPLE_RATE);
+		// The click is in the middle
+		const half = Zx81VsyncSound.SAMPLE_RATE / 2;
+		assert.ok(samples.subarray(0, half - 1).every(sample => sample == 0));
+		assert.ok(Math.max(samples[half - 1], samples[half], samples[half + 1]) > 0.4);
+		assert.ok(Math.abs(samples[samples.length - 1]) < 0.01);
+		assert.equal(sound.takeSamples().length, 0);
+	});
+
+	test('average level', () => {
+		// Half a sample high: half the level
+		const tStatesPerSample = FREQUENCY / Zx81VsyncSound.SAMPLE_RATE;
+		sound.tick(tStatesPerSample / 2, true);
+		sound.tick(tStatesPerSample / 2, false);
+		const samples = sound.takeSamples();
+		assert.equal(samples.length, 1);
+		assert.equal(samples[0].toFixed(3), '0.250');
+	});
+
+
+	test('capture', () => {
+		assert.equal(sound.isCapturing(), false);
+		assert.throws(() => sound.stopCapture(), /not captured/);
+		sound.startCapture();
+		assert.equal(sound.isCapturing(), true);
+		toggle(1000, 1.5);
+		// The samples taken do not change the capture
+		sound.takeSamples();
+		const samples = sound.stopCapture();
+		assert.equal(sound.isCapturing(), false);
+		assert.ok(Math.abs(samples.length - 1.5 * Zx81VsyncSound.SAMPLE_RATE) <= 1);
+		assert.ok(samples[samples.length - 1] != 0);
+	});
+
+
+	test('toWav', () => {
+		const wav = Zx81VsyncSound.toWav(new Float32Array([0, 0.5, -1, 2]), 22050);
+		assert.equal(wav.length, 44 + 8);
+		assert.equal(wav.toString('latin1', 0, 4), 'RIFF');
+		assert.equal(wav.readUInt32LE(4), 36 + 8);
+		assert.equal(wav.toString('latin1', 8, 16), 'WAVEfmt ');
+		assert.equal(wav.readUInt16LE(20), 1);
+		assert.equal(wav.readUInt16LE(22), 1);
+		assert.equal(wav.readUInt32LE(24), 22050);
+		assert.equal(wav.readUInt16LE(34), 16);
+		assert.equal(wav.toString('latin1', 36, 40), 'data');
+		assert.equal(wav.readUInt32LE(40), 8);
+		assert.equal(wav.readInt16LE(44), 0);
+		assert.equal(wav.readInt16LE(46), 0x4000);
+		assert.equal(wav.readInt16LE(48), -0x7FFF);
+		// Clipped
+		assert.equal(wav.readInt16LE(50), 0x7FFF);
+	});
+});